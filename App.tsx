@@ -1,33 +1,30 @@
 
-import React, { useState, useEffect } from 'react';
-import { AppMode, Habit, Task, ProtocolType, TaskPriority } from './types';
+import React, { useState, useEffect, useMemo } from 'react';
+import { AppMode, Category, Habit, HabitSettings, Task, TaskDraft, ProtocolType, TaskPriority } from './types';
 import { DailyTracker } from './components/DailyTracker';
 import { TaskBoard } from './components/TaskBoard';
-import { LayoutGrid, KanbanSquare, Terminal, User, LogOut, Check, Lock, Mail, AlertCircle } from 'lucide-react';
+import { Analytics } from './components/Analytics';
+import { BackupPanel } from './components/BackupPanel';
+import { MigrationPanel } from './components/MigrationPanel';
+import { UndoToast } from './components/UndoToast';
+import { LayoutGrid, KanbanSquare, BarChart3, Terminal, User, LogOut, Check, Lock, Mail, AlertCircle, CloudOff, RefreshCw, AlertTriangle, DatabaseBackup, Server, HardDrive } from 'lucide-react';
 import { cn, Modal, Input, Button } from './components/ui';
-import { supabase } from './services/supabase';
-import { format } from 'date-fns';
-import { arrayMove } from '@dnd-kit/sortable';
-
-// Default Data Generators (Fallback)
-const getDefaultHabits = (): Habit[] => [
-  { id: '1', title: 'Deep Work (4h)', completions: {} },
-  { id: '2', title: 'Physical Training', completions: {} },
-  { id: '3', title: 'Zero Sugar', completions: {} }
-];
-
-const getDefaultMonthlyHabits = (): Habit[] => [
-  { id: 'm1', title: 'Financial Audit', completions: {} },
-  { id: 'm2', title: 'Network Review', completions: {} }
-];
-
-const getDefaultCategories = (): string[] => ['Complete It', 'Monthly', 'Yearly'];
-
-const getDefaultTasks = (): Task[] => [
-  { id: 't1', title: 'Deploy Production Build', column: 'Complete It', completed: false, priority: 'HIGH', createdAt: Date.now() },
-  { id: 't2', title: 'Q3 Financial Review', column: 'Monthly', completed: false, priority: 'MEDIUM', createdAt: Date.now() },
-  { id: 't3', title: 'Launch Mobile App', column: 'Yearly', completed: false, priority: 'HIGH', createdAt: Date.now() }
-];
+import { backend, supabase } from './services/supabase';
+import { DataStore, ImportMode, WorkspaceData } from './services/dataStore';
+import { createLocalStore } from './services/localStore';
+import { createSupabaseStore } from './services/supabaseStore';
+import { createSyncQueue, SyncQueue, SyncStatus } from './services/syncQueue';
+import { getAppendPositions, getCategoryMovePositions, getMovePositions, getNextPosition } from './services/ordering';
+import { ARCHIVE_CATEGORY_NAME, CategoryTaskDisposal, createCategory, findCategoryByName } from './services/categories';
+import { getNextDueDate } from './services/recurrence';
+import { getDateKey, withCompletion } from './services/habitSchedule';
+import { LocalWorkspace, findLocalWorkspace, markMigrated, prepareMigration } from './services/migration';
+import { EMPTY_HISTORY, HistoryEntry, StoreCall, afterRedo, afterUndo, applyCalls, getRedoEntry, getRevertUpdates, getUndoEntry, pushEntry, runCalls, storeCall } from './services/history';
+import { EchoFilter, RemoteChange, createEchoFilter, rebaseCategory, rebaseHabit, rebaseTask, replaceById, subscribeToWorkspace } from './services/realtime';
+
+// Text fields keep the browser's own undo for what is being typed
+const isEditableTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
 
 export default function App() {
   const [mode, setMode] = useState<AppMode>(AppMode.PROTOCOL);
@@ -44,17 +41,30 @@ export default function App() {
 
   // Data State
   const [habits, setHabits] = useState<Habit[]>([]);
+  const [weeklyHabits, setWeeklyHabits] = useState<Habit[]>([]);
   const [monthlyHabits, setMonthlyHabits] = useState<Habit[]>([]);
-  const [categories, setCategories] = useState<string[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
   const [tasks, setTasks] = useState<Task[]>([]);
 
+  // Sync State
+  const [syncStatus, setSyncStatus] = useState<SyncStatus | null>(null);
+  const [isSyncModalOpen, setIsSyncModalOpen] = useState(false);
+
+  // Backup State
+  const [isBackupModalOpen, setIsBackupModalOpen] = useState(false);
+
+  // Offline data waiting to be uploaded to the signed-in account
+  const [localWorkspace, setLocalWorkspace] = useState<LocalWorkspace | null>(null);
+
+  // Undo State
+  const [history, setHistory] = useState(EMPTY_HISTORY);
+  const [undoToast, setUndoToast] = useState<HistoryEntry | null>(null);
+
   // --- Auth & Initial Load ---
   useEffect(() => {
     if (!supabase) {
       // Fallback to local storage mode if Supabase not configured
-      const user = localStorage.getItem('doit_current_user');
-      setCurrentUser(user);
-      loadLocalData(user);
+      setCurrentUser(localStorage.getItem('doit_current_user'));
       return;
     }
 
@@ -73,76 +83,120 @@ export default function App() {
     return () => subscription.unsubscribe();
   }, []);
 
+  // --- Persistence Backend ---
+  // Local storage when Supabase is not configured, the user's tables (behind an
+  // offline outbox) when signed in, and nothing while Supabase is active but no one is signed in.
+  const userId: string | undefined = session?.user?.id;
+  const { store, syncQueue, echoes } = useMemo<{ store: DataStore | null; syncQueue: SyncQueue | null; echoes: EchoFilter | null }>(() => {
+    if (!supabase) return { store: createLocalStore(currentUser), syncQueue: null, echoes: null };
+    if (!userId) return { store: null, syncQueue: null, echoes: null };
+
+    const echoFilter = createEchoFilter();
+    const queue: SyncQueue = createSyncQueue(createSupabaseStore(supabase, userId, echoFilter), {
+      storageKey: `doit_outbox_${userId}`,
+      // Roll optimistic state back to what the server (plus the remaining outbox) holds
+      onRejected: () => loadData(queue)
+    });
+    return { store: queue, syncQueue: queue, echoes: echoFilter };
+  }, [currentUser, userId]);
+
+  useEffect(() => {
+    if (!syncQueue) {
+      setSyncStatus(null);
+      return;
+    }
+    const unsubscribe = syncQueue.subscribe(setSyncStatus);
+    const stop = syncQueue.start();
+    return () => {
+      unsubscribe();
+      stop();
+    };
+  }, [syncQueue]);
+
+  // --- Realtime ---
+  // Changes made on other devices, merged record by record over the local outbox
+  useEffect(() => {
+    if (!supabase || !userId || !syncQueue || !echoes) return;
+    return subscribeToWorkspace(supabase, userId, echoes, change => {
+      applyRemoteChange(syncQueue, change).catch(e => console.error("Failed to apply remote change", e));
+    });
+  }, [syncQueue, echoes]);
+
   // --- Data Loading ---
   useEffect(() => {
-    if (currentUser && supabase) {
-      loadSupabaseData();
-    } else if (!supabase) {
-      loadLocalData(currentUser);
+    setHistory(EMPTY_HISTORY);
+    setUndoToast(null);
+    if (store) {
+      loadData(store);
     } else {
       // Supabase is active but no user -> Clear data or show defaults
       setHabits([]);
+      setWeeklyHabits([]);
       setMonthlyHabits([]);
       setCategories([]);
       setTasks([]);
     }
-  }, [currentUser]);
+  }, [store]);
 
-  const loadLocalData = (user: string | null) => {
-    const getStorageKey = (key: string) => user ? `${key}_${user}` : key;
-    try {
-      const h = localStorage.getItem(getStorageKey('doit_habits'));
-      setHabits(h ? JSON.parse(h) : getDefaultHabits());
-
-      const mh = localStorage.getItem(getStorageKey('doit_monthly_habits'));
-      setMonthlyHabits(mh ? JSON.parse(mh) : getDefaultMonthlyHabits());
+  useEffect(() => {
+    if (!supabase || !userId) {
+      setLocalWorkspace(null);
+      return;
+    }
+    findLocalWorkspace().then(setLocalWorkspace).catch(e => console.error("Failed to read offline data", e));
+  }, [userId]);
 
-      const c = localStorage.getItem(getStorageKey('doit_categories'));
-      setCategories(c ? JSON.parse(c) : getDefaultCategories());
+  const showWorkspace = (data: WorkspaceData) => {
+    setHabits(data.habits);
+    setWeeklyHabits(data.weeklyHabits);
+    setMonthlyHabits(data.monthlyHabits);
+    setCategories(data.categories);
+    setTasks(data.tasks);
+  };
 
-      const t = localStorage.getItem(getStorageKey('doit_tasks'));
-      setTasks(t ? JSON.parse(t) : getDefaultTasks());
+  const loadData = async (source: DataStore) => {
+    setIsLoading(true);
+    try {
+      showWorkspace(await source.load());
     } catch (e) {
-      console.error("Failed to load local data", e);
+      console.error("Failed to load data", e);
+    } finally {
+      setIsLoading(false);
     }
   };
 
-  const loadSupabaseData = async () => {
-    if (!supabase || !session?.user) return;
-    setIsLoading(true);
-    try {
-      // Fetch Habits
-      const { data: habitsData } = await supabase.from('habits').select('*');
-      if (habitsData) {
-        setHabits(habitsData.filter((h: any) => h.type === 'DAILY'));
-        setMonthlyHabits(habitsData.filter((h: any) => h.type === 'MONTHLY'));
+  const applyRemoteChange = async (queue: SyncQueue, change: RemoteChange) => {
+    switch (change.table) {
+      case 'habits': {
+        const id = change.type === 'DELETE' ? change.id : change.habit.id;
+        const habit = change.type === 'DELETE' ? null : await rebaseHabit(queue, change.habit);
+        // A habit is only ever in the list of its own type
+        (Object.keys(habitSetters) as ProtocolType[]).forEach(type =>
+          habitSetters[type](prev => replaceById(prev, id, habit?.type === type ? habit : null)));
+        break;
       }
-
-      // Fetch Categories
-      const { data: catData } = await supabase.from('categories').select('*');
-      if (catData && catData.length > 0) {
-        setCategories(catData.map((c: any) => c.name));
-      } else {
-        setCategories(getDefaultCategories()); // Fallback default
+      case 'tasks': {
+        const id = change.type === 'DELETE' ? change.id : change.task.id;
+        const task = change.type === 'DELETE' ? null : await rebaseTask(queue, change.task);
+        setTasks(prev => replaceById(prev, id, task));
+        break;
       }
-
-      // Fetch Tasks
-      const { data: taskData } = await supabase.from('tasks').select('*');
-      if (taskData) {
-        setTasks(taskData.map((t: any) => ({
-           id: t.id,
-           title: t.title,
-           column: t.category,
-           completed: t.completed,
-           priority: t.priority,
-           createdAt: new Date(t.created_at).getTime()
-        })).sort((a: Task, b: Task) => a.createdAt - b.createdAt));
+      case 'categories': {
+        const id = change.type === 'DELETE' ? change.id : change.category.id;
+        const category = change.type === 'DELETE' ? null : await rebaseCategory(queue, change.category);
+        setCategories(prev => replaceById(prev, id, category));
+        break;
       }
+    }
+  };
 
+  // Writes go through the active store after the optimistic state update.
+  const persist = async (write: (target: DataStore) => Promise<void>) => {
+    if (!store) return;
+    try {
+      await write(store);
     } catch (e) {
-      console.error("Supabase load error:", e);
-    } finally {
-      setIsLoading(false);
+      console.error("Failed to persist change", e);
     }
   };
 
@@ -206,205 +260,430 @@ export default function App() {
   // --- Data Handlers ---
 
   // HABITS
-  const onAddHabit = async (title: string, type: ProtocolType) => {
-    const newHabit: Habit = { id: crypto.randomUUID(), title, completions: {}, type };
+  const habitLists: Record<ProtocolType, Habit[]> = { DAILY: habits, WEEKLY: weeklyHabits, MONTHLY: monthlyHabits };
+  const habitSetters: Record<ProtocolType, React.Dispatch<React.SetStateAction<Habit[]>>> = {
+    DAILY: setHabits,
+    WEEKLY: setWeeklyHabits,
+    MONTHLY: setMonthlyHabits
+  };
+
+  const onAddHabit = async (title: string, type: ProtocolType, settings?: HabitSettings) => {
+    await onAddHabits([title], type, settings);
+  };
+
+  // Several at once (e.g. accepted AI suggestions) are undone together
+  const onAddHabits = async (titles: string[], type: ProtocolType, settings?: HabitSettings) => {
+    const newHabits = titles.map((title): Habit => ({ id: crypto.randomUUID(), title, completions: {}, type, ...settings }));
+    if (newHabits.length === 0) return;
+    const calls = newHabits.map(habit => storeCall('addHabit', habit, type));
+
     // Optimistic
-    if (type === 'DAILY') setHabits(prev => [...prev, newHabit]);
-    else setMonthlyHabits(prev => [...prev, newHabit]);
-
-    if (supabase && session?.user) {
-        await supabase.from('habits').insert({
-            id: newHabit.id,
-            user_id: session.user.id,
-            title: newHabit.title,
-            type: type,
-            completions: {}
-        });
-    } else if (!supabase && currentUser) {
-        // Persist Local
-        saveLocalHabit(newHabit, type);
-    }
+    habitSetters[type](prev => [...prev, ...newHabits]);
+    record({
+      label: newHabits.length === 1 ? 'Habit added' : `${newHabits.length} habits added`,
+      redo: calls,
+      undo: newHabits.map(habit => storeCall('deleteHabit', habit.id)),
+      isDestructive: false
+    });
+
+    await persist(s => runCalls(s, calls));
+  };
+
+  const onUpdateHabit = async (id: string, type: ProtocolType, updates: Partial<Habit>) => {
+    const habit = habitLists[type].find(h => h.id === id);
+    if (!habit) return;
+    habitSetters[type](prev => prev.map(h => h.id === id ? { ...h, ...updates } : h));
+    record({
+      label: 'Habit updated',
+      redo: [storeCall('updateHabit', id, updates)],
+      undo: [storeCall('updateHabit', id, getRevertUpdates(habit, updates))],
+      isDestructive: false
+    });
+
+    await persist(s => s.updateHabit(id, updates));
   };
 
   const onToggleHabit = async (id: string, date: Date, type: ProtocolType) => {
-    const dateKey = type === 'DAILY' ? format(date, 'yyyy-MM-dd') : format(date, 'yyyy-MM');
+    const dateKey = getDateKey(date, type);
     
     // Find the current habit from state to calculate new state correctly
-    const currentList = type === 'DAILY' ? habits : monthlyHabits;
-    const habit = currentList.find(h => h.id === id);
+    const habit = habitLists[type].find(h => h.id === id);
     
     if (!habit) return;
 
-    // Create updated completions map
-    const newCompletions = { ...habit.completions };
-    if (newCompletions[dateKey]) {
-        delete newCompletions[dateKey];
-    } else {
-        newCompletions[dateKey] = true;
-    }
+    const value = habit.completions[dateKey] ? null : true;
 
     // Optimistic UI Update
-    const updater = (prev: Habit[]) => prev.map(h => 
-        h.id === id ? { ...h, completions: newCompletions } : h
-    );
-
-    if (type === 'DAILY') setHabits(updater);
-    else setMonthlyHabits(updater);
-
-    // Database Update
-    if (supabase && session?.user) {
-        await supabase
-            .from('habits')
-            .update({ completions: newCompletions })
-            .eq('id', id);
-    }
+    habitSetters[type](prev => prev.map(h => 
+        h.id === id ? { ...h, completions: withCompletion(h.completions, dateKey, value) } : h
+    ));
+    recordCompletion(habit, dateKey, value);
+
+    await persist(s => s.setCompletion(id, dateKey, value));
+  };
+
+  // Quantitative habits: store the measured value, or clear the cell with null
+  const onSetHabitValue = async (id: string, date: Date, type: ProtocolType, value: number | null) => {
+    const dateKey = getDateKey(date, type);
+    const habit = habitLists[type].find(h => h.id === id);
+    if (!habit) return;
+    habitSetters[type](prev => prev.map(h =>
+        h.id === id ? { ...h, completions: withCompletion(h.completions, dateKey, value) } : h
+    ));
+    recordCompletion(habit, dateKey, value);
+
+    await persist(s => s.setCompletion(id, dateKey, value));
   };
 
+  const recordCompletion = (habit: Habit, dateKey: string, value: boolean | number | null) => record({
+    label: 'Check-in changed',
+    redo: [storeCall('setCompletion', habit.id, dateKey, value)],
+    undo: [storeCall('setCompletion', habit.id, dateKey, habit.completions[dateKey] ?? null)],
+    isDestructive: false
+  });
+
   const onDeleteHabit = async (id: string, type: ProtocolType) => {
-    if (type === 'DAILY') setHabits(prev => prev.filter(h => h.id !== id));
-    else setMonthlyHabits(prev => prev.filter(h => h.id !== id));
+    const habit = habitLists[type].find(h => h.id === id);
+    if (!habit) return;
+    habitSetters[type](prev => prev.filter(h => h.id !== id));
+    record({
+      label: 'Habit deleted',
+      redo: [storeCall('deleteHabit', id)],
+      undo: [storeCall('addHabit', habit, type)],
+      isDestructive: true
+    });
 
-    if (supabase && session?.user) {
-        await supabase.from('habits').delete().eq('id', id);
-    }
+    await persist(s => s.deleteHabit(id));
   };
 
   // TASKS
-  const onAddTask = async (title: string, priority: TaskPriority, category: string) => {
-    const newTask: Task = {
+  const onAddTask = async (title: string, priority: TaskPriority, categoryId: string) => {
+    await onAddTasks([{ title, priority, categoryId }]);
+  };
+
+  // Bulk adds (e.g. an imported project plan) keep their order at the end of each category.
+  // Categories an import creates are added first, and undone together with the tasks.
+  const onAddTasks = async (drafts: TaskDraft[], newCategories: Category[] = []) => {
+    const createdAt = Date.now();
+    const newTasks: Task[] = [];
+    for (const draft of drafts) {
+      newTasks.push({
+        ...draft,
         id: crypto.randomUUID(),
-        title,
-        column: category,
-        priority,
-        completed: false,
-        createdAt: Date.now()
-    };
-    setTasks(prev => [...prev, newTask]);
-
-    if (supabase && session?.user) {
-        await supabase.from('tasks').insert({
-            id: newTask.id,
-            user_id: session.user.id,
-            title: newTask.title,
-            category: newTask.column,
-            priority: newTask.priority,
-            completed: false,
-            created_at: new Date(newTask.createdAt).toISOString()
-        });
+        completed: !!draft.completed,
+        ...(draft.completed && { completedAt: createdAt }),
+        createdAt,
+        position: getNextPosition([...tasks, ...newTasks], draft.categoryId)
+      });
     }
+    const addedCategories = newCategories.filter(c => !categories.some(existing => existing.id === c.id));
+    const calls = [
+      ...addedCategories.map(category => storeCall('addCategory', category)),
+      ...newTasks.map(task => storeCall('addTask', task))
+    ];
+
+    if (addedCategories.length > 0) setCategories(prev => [...prev, ...addedCategories]);
+    setTasks(prev => [...prev, ...newTasks]);
+    record({
+      label: newTasks.length === 1 ? 'Directive added' : `${newTasks.length} directives added`,
+      redo: calls,
+      undo: [
+        ...newTasks.map(task => storeCall('deleteTask', task.id)),
+        ...addedCategories.map(category => storeCall('deleteCategory', category.id))
+      ],
+      isDestructive: false
+    });
+
+    await persist(s => runCalls(s, calls));
   };
 
   const onUpdateTask = async (id: string, updates: Partial<Task>) => {
+    const task = tasks.find(t => t.id === id);
+    if (!task) return;
     setTasks(prev => prev.map(t => t.id === id ? { ...t, ...updates } : t));
-    
-    if (supabase && session?.user) {
-        // Map updates to DB columns
-        const dbUpdates: any = {};
-        if (updates.title) dbUpdates.title = updates.title;
-        if (updates.completed !== undefined) dbUpdates.completed = updates.completed;
-        if (updates.priority) dbUpdates.priority = updates.priority;
-        if (updates.column) dbUpdates.category = updates.column;
-        
-        await supabase.from('tasks').update(dbUpdates).eq('id', id);
-    }
+    record({
+      label: 'Directive updated',
+      redo: [storeCall('updateTask', id, updates)],
+      undo: [storeCall('updateTask', id, getRevertUpdates(task, updates))],
+      isDestructive: false
+    });
+    await persist(s => s.updateTask(id, updates));
   };
 
   const onDeleteTask = async (id: string) => {
+    const task = tasks.find(t => t.id === id);
+    if (!task) return;
     setTasks(prev => prev.filter(t => t.id !== id));
-    if (supabase && session?.user) {
-        await supabase.from('tasks').delete().eq('id', id);
-    }
+    record({
+      label: 'Directive deleted',
+      redo: [storeCall('deleteTask', id)],
+      undo: [storeCall('addTask', task)],
+      isDestructive: true
+    });
+    await persist(s => s.deleteTask(id));
   };
 
   const onToggleTask = async (id: string) => {
     const task = tasks.find(t => t.id === id);
-    if (task) {
-        const newCompleted = !task.completed;
-        setTasks(prev => prev.map(t => t.id === id ? { ...t, completed: newCompleted } : t));
-        if (supabase && session?.user) {
-            await supabase.from('tasks').update({ completed: newCompleted }).eq('id', id);
-        }
+    if (!task) return;
+    const newCompleted = !task.completed;
+
+    if (newCompleted && task.recurrence) {
+        await completeRecurringTask(task);
+        return;
     }
+
+    const updates: Partial<Task> = { completed: newCompleted, completedAt: newCompleted ? Date.now() : undefined };
+    setTasks(prev => prev.map(t => t.id === id ? { ...t, ...updates } : t));
+    record({
+      label: newCompleted ? 'Directive completed' : 'Directive reopened',
+      redo: [storeCall('updateTask', id, updates)],
+      undo: [storeCall('updateTask', id, getRevertUpdates(task, updates))],
+      isDestructive: false
+    });
+    await persist(s => s.updateTask(id, updates));
+  };
+
+  // Completing an instance of a series hands the rule over to a freshly scheduled copy
+  const completeRecurringTask = async (task: Task) => {
+    const seriesId = task.seriesId ?? task.id;
+    const nextTask: Task = {
+        ...task,
+        id: crypto.randomUUID(),
+        completed: false,
+        createdAt: Date.now(),
+        completedAt: undefined,
+        position: getNextPosition(tasks, task.categoryId),
+        dueDate: getNextDueDate(task.recurrence!, task.dueDate),
+        subtasks: task.subtasks?.map(s => ({ ...s, id: crypto.randomUUID(), completed: false })),
+        seriesId
+    };
+    const completedUpdates: Partial<Task> = { completed: true, completedAt: Date.now(), recurrence: undefined, seriesId };
+
+    const calls = [storeCall('updateTask', task.id, completedUpdates), storeCall('addTask', nextTask)];
+
+    setTasks(prev => [...prev.map(t => t.id === task.id ? { ...t, ...completedUpdates } : t), nextTask]);
+    record({
+      label: 'Directive completed',
+      redo: calls,
+      undo: [storeCall('deleteTask', nextTask.id), storeCall('updateTask', task.id, getRevertUpdates(task, completedUpdates))],
+      isDestructive: false
+    });
+    await persist(s => runCalls(s, calls));
   };
   
+  // `newIndex` is the task's index within `newCategory` once it has moved there
   const onMoveTask = async (taskId: string, newCategory: string, newIndex: number) => {
-      // For local state, we need to handle the reorder if using arrayMove
-      // However, since we filter by category in TaskBoard, standard arrayMove might be tricky across categories
-      // But here we receive the category change.
-      
       const oldTask = tasks.find(t => t.id === taskId);
       if (!oldTask) return;
 
-      const isSameCategory = oldTask.column === newCategory;
-      
-      setTasks((prevTasks) => {
-          if (isSameCategory) {
-              const oldIndex = prevTasks.findIndex(t => t.id === taskId);
-              return arrayMove(prevTasks, oldIndex, newIndex);
-          } else {
-              return prevTasks.map(t => t.id === taskId ? { ...t, column: newCategory } : t);
-          }
+      const positions = getMovePositions(tasks, taskId, newCategory, newIndex);
+      const updates = Object.entries(positions).map(([id, position]): [string, Partial<Task>] =>
+          [id, id === taskId && oldTask.categoryId !== newCategory ? { categoryId: newCategory, position } : { position }]);
+
+      setTasks(prev => prev.map(t => {
+          if (t.id === taskId) return { ...t, categoryId: newCategory, position: positions[t.id] };
+          return positions[t.id] !== undefined ? { ...t, position: positions[t.id] } : t;
+      }));
+      const calls = updates.map(([id, update]) => storeCall('updateTask', id, update));
+      record({
+          label: 'Directive moved',
+          redo: calls,
+          undo: updates.map(([id, update]) => storeCall('updateTask', id, getRevertUpdates(tasks.find(t => t.id === id)!, update))),
+          isDestructive: false
       });
 
-      if (!isSameCategory && supabase && session?.user) {
-          await supabase.from('tasks').update({ category: newCategory }).eq('id', taskId);
-      }
-      // Note: Reordering within same category is not persisted to DB in this version
+      await persist(s => runCalls(s, calls));
   };
 
   // CATEGORIES
-  const onAddCategory = async (name: string) => {
-    if (categories.includes(name)) return;
-    setCategories(prev => [...prev, name]);
+  const onAddCategory = async (category: Category) => {
+    if (categories.some(c => c.id === category.id)) return;
+    setCategories(prev => [...prev, category]);
+    record({
+      label: 'Sector added',
+      redo: [storeCall('addCategory', category)],
+      undo: [storeCall('deleteCategory', category.id)],
+      isDestructive: false
+    });
 
-    if (supabase && session?.user) {
-        await supabase.from('categories').insert({ user_id: session.user.id, name });
+    await persist(s => s.addCategory(category));
+  };
+
+  const onUpdateCategory = async (id: string, updates: Partial<Category>) => {
+    const category = categories.find(c => c.id === id);
+    if (!category) return;
+    if (updates.name !== undefined) {
+      const name = updates.name.trim();
+      const taken = findCategoryByName(categories, name);
+      if (!name || (taken && taken.id !== id)) return;
+      updates = { ...updates, name };
     }
+
+    setCategories(prev => prev.map(c => c.id === id ? { ...c, ...updates } : c));
+    record({
+      label: updates.archived !== undefined ? (updates.archived ? 'Sector archived' : 'Sector restored') : 'Sector updated',
+      redo: [storeCall('updateCategory', id, updates)],
+      undo: [storeCall('updateCategory', id, getRevertUpdates(category, updates))],
+      isDestructive: false
+    });
+
+    await persist(s => s.updateCategory(id, updates));
   };
 
-  const onUpdateCategory = async (oldName: string, newName: string) => {
-    const trimmed = newName.trim();
-    if (!trimmed || categories.includes(trimmed)) return;
+  // `newIndex` is the category's index among all categories once it has moved
+  const onMoveCategory = async (id: string, newIndex: number) => {
+    const positions = getCategoryMovePositions(categories, id, newIndex);
+    const calls = Object.entries(positions).map(([categoryId, position]) => storeCall('updateCategory', categoryId, { position }));
+    setCategories(prev => prev.map(c => positions[c.id] !== undefined ? { ...c, position: positions[c.id] } : c));
+    record({
+      label: 'Sector moved',
+      redo: calls,
+      undo: categories.filter(c => positions[c.id] !== undefined).map(c => storeCall('updateCategory', c.id, { position: c.position })),
+      isDestructive: false
+    });
+
+    await persist(s => runCalls(s, calls));
+  };
 
-    setCategories(prev => prev.map(c => c === oldName ? trimmed : c));
-    setTasks(prev => prev.map(t => t.column === oldName ? { ...t, column: trimmed } : t));
+  const onDeleteCategory = async (id: string, disposal: CategoryTaskDisposal) => {
+    const category = categories.find(c => c.id === id);
+    if (!category) return;
+    const contained = tasks.filter(t => t.categoryId === id);
 
-    if (supabase && session?.user) {
-        await supabase.from('categories').update({ name: trimmed }).eq('name', oldName);
-        // Supabase foreign keys might handle task updates if configured, otherwise we update tasks
-        await supabase.from('tasks').update({ category: trimmed }).eq('category', oldName);
+    if (disposal.kind === 'DELETE') {
+      setCategories(prev => prev.filter(c => c.id !== id));
+      setTasks(prev => prev.filter(t => t.categoryId !== id));
+      record({
+        label: 'Sector deleted',
+        redo: [storeCall('deleteCategory', id)],
+        undo: [storeCall('addCategory', category), ...contained.map(t => storeCall('addTask', t))],
+        isDestructive: true
+      });
+      await persist(s => s.deleteCategory(id));
+      return;
     }
+
+    let archive: Category | undefined;
+    if (disposal.kind === 'ARCHIVE' && !findCategoryByName(categories, ARCHIVE_CATEGORY_NAME)) {
+      archive = { ...createCategory(ARCHIVE_CATEGORY_NAME, categories), color: 'SLATE', icon: 'FOLDER', archived: true };
+    }
+    const targetId = disposal.kind === 'MOVE'
+      ? disposal.categoryId
+      : (archive ?? findCategoryByName(categories, ARCHIVE_CATEGORY_NAME)!).id;
+    if (targetId === id) return;
+
+    const positions = getAppendPositions(tasks, id, targetId);
+    setCategories(prev => [...prev.filter(c => c.id !== id), ...(archive ? [archive] : [])]);
+    setTasks(prev => prev.map(t => t.categoryId === id ? { ...t, categoryId: targetId, position: positions[t.id] } : t));
+    const calls = [...(archive ? [storeCall('addCategory', archive)] : []), storeCall('deleteCategory', id, targetId)];
+    record({
+      label: 'Sector deleted',
+      redo: calls,
+      // The archive is only removed again once the tasks are back out of it
+      undo: [
+        storeCall('addCategory', category),
+        ...contained.map(t => storeCall('updateTask', t.id, { categoryId: id, position: t.position })),
+        ...(archive ? [storeCall('deleteCategory', archive.id)] : [])
+      ],
+      isDestructive: true
+    });
+
+    await persist(s => runCalls(s, calls));
   };
 
-  const onDeleteCategory = async (name: string) => {
-    setCategories(prev => prev.filter(c => c !== name));
-    setTasks(prev => prev.filter(t => t.column !== name));
+  // BACKUP
+  const workspace: WorkspaceData = { habits, weeklyHabits, monthlyHabits, categories, tasks };
 
-    if (supabase && session?.user) {
-        await supabase.from('categories').delete().eq('name', name);
-        // Tasks cascade delete ideally, or we manual delete
-        await supabase.from('tasks').delete().eq('category', name);
+  // Bulk writes have no optimistic update; the store applies the merge and the
+  // result is reloaded from it.
+  const onImportData = async (data: WorkspaceData, mode: ImportMode) => {
+    if (!store) return;
+    await store.importData(data, mode);
+    setHistory(EMPTY_HISTORY);
+    await loadData(store);
+  };
+  
+  // HISTORY
+  const record = (entry: HistoryEntry) => {
+    setHistory(prev => pushEntry(prev, entry));
+    setUndoToast(entry.isDestructive ? entry : null);
+  };
+
+  // State is derived from a snapshot with the calls applied, then the calls
+  // are persisted like any other change.
+  const replay = async (calls: StoreCall[]) => {
+    try {
+      showWorkspace(await applyCalls(workspace, calls));
+    } catch (e) {
+      console.error("Failed to replay history", e);
+      return;
     }
+    await persist(s => runCalls(s, calls));
   };
 
-  // --- Legacy Local Storage Saver (Fallback only) ---
-  const saveLocalHabit = (habit: Habit, type: ProtocolType) => {
-      // This is complex to do purely functionally without effect. 
-      // We rely on the generic Effect below for non-supabase mode.
+  const onUndo = async () => {
+    const entry = getUndoEntry(history);
+    if (!entry) return;
+    setHistory(afterUndo);
+    setUndoToast(null);
+    await replay(entry.undo);
   };
 
+  const onRedo = async () => {
+    const entry = getRedoEntry(history);
+    if (!entry) return;
+    setHistory(afterRedo);
+    await replay(entry.redo);
+  };
+
+  // Bound on every render so the handlers see the current history and data
   useEffect(() => {
-    if (!supabase && currentUser) {
-       const key = currentUser ? `_${currentUser}` : '';
-       localStorage.setItem(`doit_habits${key}`, JSON.stringify(habits));
-       localStorage.setItem(`doit_monthly_habits${key}`, JSON.stringify(monthlyHabits));
-       localStorage.setItem(`doit_categories${key}`, JSON.stringify(categories));
-       localStorage.setItem(`doit_tasks${key}`, JSON.stringify(tasks));
-    }
-  }, [habits, monthlyHabits, categories, tasks, currentUser]);
-  
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z' || isEditableTarget(e.target)) return;
+      e.preventDefault();
+      if (e.shiftKey) onRedo();
+      else onUndo();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  });
+
+  // MIGRATION
+  // Goes through the outbox like any other write, so the local copy is marked
+  // as soon as the upload is queued.
+  const onMigrateLocalData = async () => {
+    if (!store || !userId || !localWorkspace) return;
+    const account = await store.load();
+    await store.importData(prepareMigration(localWorkspace.data, account), 'MERGE');
+    markMigrated(localStorage, localWorkspace.owner, userId);
+    setLocalWorkspace(null);
+    setHistory(EMPTY_HISTORY);
+    await loadData(store);
+  };
+
   const getUserInitials = (name: string) => name.substring(0, 2).toUpperCase();
 
+  const backendIndicator = (
+    <div className="flex items-start gap-3 text-[10px] font-mono uppercase border border-blue-900/20 bg-slate-950 px-3 py-2">
+      {backend.mode === 'SUPABASE'
+        ? <Server size={14} className="text-blue-400 flex-shrink-0" />
+        : <HardDrive size={14} className="text-amber-500 flex-shrink-0" />}
+      <div className="min-w-0 flex flex-col gap-0.5">
+        <span className="text-slate-500 tracking-widest">Storage</span>
+        {backend.mode === 'SUPABASE' ? (
+          <span className="text-slate-300 truncate" title={backend.host}>
+            SUPABASE{backend.isLocalStack ? ' (LOCAL STACK)' : ''} · <span className="normal-case">{backend.host}</span>
+          </span>
+        ) : (
+          <span className="text-amber-500">LOCAL ONLY · THIS BROWSER</span>
+        )}
+        {backend.warning && <span className="text-red-400 normal-case">{backend.warning}</span>}
+      </div>
+    </div>
+  );
+  const showSyncIndicator = !!syncStatus && (syncStatus.pending > 0 || syncStatus.failed.length > 0 || !syncStatus.isOnline);
+
   return (
     <div className="min-h-screen bg-[#020617] text-slate-200 selection:bg-blue-500/30 selection:text-white flex flex-col md:flex-row overflow-hidden font-sans">
       
@@ -471,10 +750,57 @@ export default function App() {
               <span className="absolute -bottom-1 left-1/2 -translate-x-1/2 w-1 h-1 bg-blue-500 shadow-[0_0_8px_rgba(59,130,246,0.8)]" />
             )}
           </button>
+
+          <button 
+            onClick={() => setMode(AppMode.ANALYTICS)}
+            className={cn(
+              "p-3 transition-all duration-300 relative group",
+              mode === AppMode.ANALYTICS ? "text-blue-400" : "text-slate-600 hover:text-slate-300"
+            )}
+            title="Analytics"
+          >
+            <BarChart3 size={24} strokeWidth={1.5} />
+            {mode === AppMode.ANALYTICS && (
+              <span className="absolute -bottom-1 left-1/2 -translate-x-1/2 w-1 h-1 bg-blue-500 shadow-[0_0_8px_rgba(59,130,246,0.8)]" />
+            )}
+          </button>
+
+          {store && (
+            <button
+              onClick={() => setIsBackupModalOpen(true)}
+              className="p-3 transition-all duration-300 relative group text-slate-600 hover:text-slate-300"
+              title="Backup & Export"
+            >
+              <DatabaseBackup size={24} strokeWidth={1.5} />
+            </button>
+          )}
         </div>
         
+        {/* Sync Indicator */}
+        {syncStatus && showSyncIndicator && (
+          <button
+            onClick={() => setIsSyncModalOpen(true)}
+            className={cn(
+              "md:mt-auto p-3 flex md:flex-col items-center gap-1 font-mono text-[10px] transition-colors",
+              syncStatus.failed.length > 0 ? "text-red-400 hover:text-red-300" : "text-amber-400 hover:text-amber-300"
+            )}
+            title={syncStatus.failed.length > 0
+              ? `${syncStatus.failed.length} change(s) rejected by server`
+              : `${syncStatus.pending} change(s) waiting to sync`}
+          >
+            {syncStatus.failed.length > 0 ? (
+              <AlertTriangle size={18} strokeWidth={1.5} />
+            ) : !syncStatus.isOnline ? (
+              <CloudOff size={18} strokeWidth={1.5} />
+            ) : (
+              <RefreshCw size={18} strokeWidth={1.5} className={syncStatus.isFlushing ? "animate-spin" : ""} />
+            )}
+            <span>{syncStatus.failed.length > 0 ? syncStatus.failed.length : syncStatus.pending}</span>
+          </button>
+        )}
+
         {/* Desktop Bottom Decoration */}
-        <div className="hidden md:block mt-auto pb-4">
+        <div className={cn("hidden md:block pb-4", !showSyncIndicator && "mt-auto")}>
            <div className="w-8 h-px bg-blue-900/30 mx-auto" />
         </div>
       </nav>
@@ -498,22 +824,36 @@ export default function App() {
               {mode === AppMode.PROTOCOL ? (
                 <DailyTracker 
                   dailyHabits={habits} 
+                  weeklyHabits={weeklyHabits}
                   monthlyHabits={monthlyHabits}
                   onAddHabit={onAddHabit}
+                  onAddHabits={onAddHabits}
+                  onUpdateHabit={onUpdateHabit}
                   onToggleHabit={onToggleHabit}
+                  onSetHabitValue={onSetHabitValue}
                   onDeleteHabit={onDeleteHabit}
                 />
+              ) : mode === AppMode.ANALYTICS ? (
+                <Analytics
+                  dailyHabits={habits}
+                  weeklyHabits={weeklyHabits}
+                  monthlyHabits={monthlyHabits}
+                  tasks={tasks}
+                  categories={categories}
+                />
               ) : (
                 <TaskBoard 
                   tasks={tasks} 
                   categories={categories}
                   onAddTask={onAddTask}
+                  onAddTasks={onAddTasks}
                   onUpdateTask={onUpdateTask}
                   onDeleteTask={onDeleteTask}
                   onToggleTask={onToggleTask}
                   onMoveTask={onMoveTask}
                   onAddCategory={onAddCategory}
                   onUpdateCategory={onUpdateCategory}
+                  onMoveCategory={onMoveCategory}
                   onDeleteCategory={onDeleteCategory}
                 />
               )}
@@ -521,6 +861,12 @@ export default function App() {
         )}
       </main>
 
+      <UndoToast
+        entry={undoToast}
+        onUndo={() => undoToast === getUndoEntry(history) ? onUndo() : setUndoToast(null)}
+        onDismiss={() => setUndoToast(null)}
+      />
+
       {/* Auth Modal */}
       <Modal
         isOpen={isAuthModalOpen}
@@ -543,6 +889,7 @@ export default function App() {
                             {!supabase && <p className="text-[10px] text-amber-500 mt-1">OFFLINE MODE (LOCAL STORAGE)</p>}
                         </div>
                     </div>
+                    {backendIndicator}
                     <Button onClick={handleSignOut} variant="danger" className="w-full flex items-center justify-center gap-2">
                         <LogOut size={16} /> SIGN OUT
                     </Button>
@@ -554,6 +901,10 @@ export default function App() {
                          ? "Enter credentials to access your secure protocol." 
                          : "Create a new identity to initialize your protocol."}
                     </p>
+                    {backendIndicator}
+                    {!supabase && (
+                        <p className="text-xs text-slate-500">Local mode keeps a separate workspace per name on this device. The password is not checked.</p>
+                    )}
                     
                     {authError && (
                         <div className="flex items-center gap-2 p-3 bg-red-950/30 border border-red-900/50 text-red-400 text-xs">
@@ -609,6 +960,73 @@ export default function App() {
             )}
         </div>
       </Modal>
+
+      {/* Backup Modal */}
+      <Modal
+        isOpen={isBackupModalOpen}
+        onClose={() => setIsBackupModalOpen(false)}
+        title="BACKUP & EXPORT"
+      >
+        <BackupPanel data={workspace} onImport={onImportData} />
+      </Modal>
+
+      {/* Offline Data Migration Modal */}
+      <Modal
+        isOpen={!!localWorkspace && !!store}
+        onClose={() => setLocalWorkspace(null)}
+        title="OFFLINE DATA FOUND"
+      >
+        {localWorkspace && (
+          <MigrationPanel local={localWorkspace} onMigrate={onMigrateLocalData} onDismiss={() => setLocalWorkspace(null)} />
+        )}
+      </Modal>
+
+      {/* Sync Status Modal */}
+      <Modal
+        isOpen={isSyncModalOpen}
+        onClose={() => setIsSyncModalOpen(false)}
+        title="SYNC STATUS"
+      >
+        {syncStatus && syncQueue && (
+          <div className="flex flex-col gap-4">
+            <div className="flex items-center justify-between bg-slate-900/50 p-4 border border-blue-900/20 font-mono text-xs">
+              <span className={syncStatus.isOnline ? "text-blue-300" : "text-amber-500"}>
+                {syncStatus.isOnline ? 'ONLINE' : 'OFFLINE'}
+              </span>
+              <span className="text-slate-400">{syncStatus.pending} PENDING</span>
+            </div>
+
+            {syncStatus.failed.length > 0 && (
+              <div className="flex flex-col gap-2">
+                <p className="text-xs text-slate-400">
+                  The server rejected these changes. They have been rolled back locally.
+                </p>
+                <div className="flex flex-col gap-1 max-h-48 overflow-y-auto custom-scrollbar">
+                  {syncStatus.failed.map(mutation => (
+                    <div key={mutation.id} className="flex items-center gap-2 p-2 bg-red-950/30 border border-red-900/50 text-red-400 text-xs">
+                      <AlertCircle size={14} className="flex-shrink-0" />
+                      <span className="font-mono">{mutation.method}</span>
+                      <span className="truncate" title={mutation.error}>{mutation.error}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div className="flex gap-2 justify-end">
+              {syncStatus.failed.length > 0 && (
+                <>
+                  <Button variant="ghost" size="sm" onClick={() => syncQueue.discardFailed()}>DISCARD</Button>
+                  <Button variant="secondary" size="sm" onClick={() => syncQueue.retryFailed()}>RETRY FAILED</Button>
+                </>
+              )}
+              <Button size="sm" onClick={() => syncQueue.flush()} disabled={!syncStatus.isOnline || syncStatus.pending === 0}>
+                SYNC NOW
+              </Button>
+            </div>
+          </div>
+        )}
+      </Modal>
     </div>
   );
 }
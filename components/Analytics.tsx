@@ -0,0 +1,275 @@
+import React, { useState, useMemo } from 'react';
+import { Category, Habit, ProtocolType, Task } from '../types';
+import { ANALYTICS_RANGES, HeatmapCell, getCompletionRate, getRangePeriods, getTrend, getWeekdayBreakdown, getYearHeatmap } from '../services/analytics';
+import { HabitStreak, WEEKDAY_LABELS, getLongestStreak, getProtocolUnit, getStreak } from '../services/habitSchedule';
+import { format, getDay } from 'date-fns';
+import { ChevronLeft, ChevronRight, Flame, Trophy } from 'lucide-react';
+import { cn } from './ui';
+import { WeeklyReview } from './WeeklyReview';
+
+interface AnalyticsProps {
+  dailyHabits: Habit[];
+  weeklyHabits: Habit[];
+  monthlyHabits: Habit[];
+  tasks: Task[];
+  categories: Category[];
+}
+
+const PROTOCOL_TYPES: ProtocolType[] = ['DAILY', 'WEEKLY', 'MONTHLY'];
+
+// Monday-first weekday order, as used by the tracker's weekly grid
+const WEEKDAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+const formatRate = (rate: number | null) => rate === null ? '–' : `${Math.round(rate * 100)}%`;
+
+const getHeatColor = (value: number | null) => {
+  if (value === null) return "bg-slate-900/60";
+  if (value === 0) return "bg-slate-800";
+  if (value < 0.34) return "bg-blue-900";
+  if (value < 0.67) return "bg-blue-700";
+  if (value < 1) return "bg-blue-500";
+  return "bg-blue-400";
+};
+
+const SectionTitle: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+  <h3 className="text-[10px] font-mono text-slate-500 uppercase tracking-widest mb-3">{children}</h3>
+);
+
+const StreakValue: React.FC<{ streak: HabitStreak; type: ProtocolType }> = ({ streak, type }) => (
+  <span className={cn("font-mono text-xs", streak.length > 2 ? "text-orange-400" : "text-slate-500")}>
+    {streak.length}{streak.unit !== getProtocolUnit(type) ? streak.unit[0] : ''}
+  </span>
+);
+
+const TrendChart: React.FC<{ points: { date: Date; rate: number | null }[] }> = ({ points }) => {
+  const known = points
+    .map((p, i) => ({ x: points.length > 1 ? (i / (points.length - 1)) * 100 : 50, rate: p.rate }))
+    .filter((p): p is { x: number; rate: number } => p.rate !== null);
+
+  if (known.length === 0) {
+    return <p className="text-xs font-mono text-slate-600 py-8 text-center">NO DATA IN RANGE</p>;
+  }
+
+  const line = known.map(p => `${p.x},${40 - p.rate * 40}`).join(' ');
+
+  return (
+    <div>
+      <svg viewBox="0 0 100 40" preserveAspectRatio="none" className="w-full h-32 overflow-visible">
+        {[0, 0.5, 1].map(level => (
+          <line key={level} x1={0} x2={100} y1={40 - level * 40} y2={40 - level * 40} className="stroke-blue-900/40" strokeWidth={0.3} />
+        ))}
+        <polygon points={`${known[0].x},40 ${line} ${known[known.length - 1].x},40`} className="fill-blue-600/10" />
+        <polyline points={line} fill="none" className="stroke-blue-400" strokeWidth={1} vectorEffect="non-scaling-stroke" />
+      </svg>
+      <div className="flex justify-between text-[10px] font-mono text-slate-600 mt-1">
+        <span>{format(points[0].date, 'MMM d').toUpperCase()}</span>
+        <span>{format(points[points.length - 1].date, 'MMM d').toUpperCase()}</span>
+      </div>
+    </div>
+  );
+};
+
+const YearHeatmap: React.FC<{ cells: HeatmapCell[] }> = ({ cells }) => {
+  // Pad the first week so every column runs Monday to Sunday
+  const offset = cells.length > 0 ? (getDay(cells[0].date) + 6) % 7 : 0;
+
+  return (
+    <div className="overflow-x-auto custom-scrollbar pb-2">
+      <div className="grid grid-rows-7 grid-flow-col gap-[3px] w-max">
+        {Array.from({ length: offset }, (_, i) => <div key={`pad-${i}`} className="w-3 h-3" />)}
+        {cells.map(cell => (
+          <div
+            key={cell.date.toISOString()}
+            className={cn("w-3 h-3", getHeatColor(cell.value))}
+            title={`${format(cell.date, 'EEE, MMM d')}: ${formatRate(cell.value)}`}
+          />
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export const Analytics: React.FC<AnalyticsProps> = ({ dailyHabits = [], weeklyHabits = [], monthlyHabits = [], tasks, categories }) => {
+  const [protocolMode, setProtocolMode] = useState<ProtocolType>('DAILY');
+  const [isReviewOpen, setIsReviewOpen] = useState(false);
+  const [rangeId, setRangeId] = useState(ANALYTICS_RANGES[1].id);
+  const [selectedHabitId, setSelectedHabitId] = useState<string | null>(null);
+  const [heatmapYear, setHeatmapYear] = useState(new Date().getFullYear());
+
+  const habits = protocolMode === 'DAILY' ? dailyHabits : protocolMode === 'WEEKLY' ? weeklyHabits : monthlyHabits;
+  const range = ANALYTICS_RANGES.find(r => r.id === rangeId) || ANALYTICS_RANGES[0];
+  const selectedHabit = habits.find(h => h.id === selectedHabitId) || null;
+  // The charts follow the selected habit, or every habit of the protocol
+  const focusHabits = useMemo(() => selectedHabit ? [selectedHabit] : habits, [selectedHabit, habits]);
+
+  const periods = useMemo(() => getRangePeriods(protocolMode, range.months), [protocolMode, range.months]);
+
+  const rows = useMemo(() => habits.map(habit => ({
+    habit,
+    rate: getCompletionRate([habit], protocolMode, periods),
+    current: getStreak(habit, protocolMode),
+    longest: getLongestStreak(habit, protocolMode)
+  })), [habits, protocolMode, periods]);
+
+  const overallRate = useMemo(() => getCompletionRate(focusHabits, protocolMode, periods), [focusHabits, protocolMode, periods]);
+  const trend = useMemo(() => getTrend(focusHabits, protocolMode, periods), [focusHabits, protocolMode, periods]);
+  const weekdays = useMemo(
+    () => protocolMode === 'DAILY' ? getWeekdayBreakdown(focusHabits, periods) : [],
+    [focusHabits, protocolMode, periods]
+  );
+  const heatmap = useMemo(
+    () => protocolMode === 'DAILY' ? getYearHeatmap(focusHabits, heatmapYear) : [],
+    [focusHabits, protocolMode, heatmapYear]
+  );
+
+  const habitsByType = useMemo(
+    () => ({ DAILY: dailyHabits, WEEKLY: weeklyHabits, MONTHLY: monthlyHabits }),
+    [dailyHabits, weeklyHabits, monthlyHabits]
+  );
+
+  const switchProtocol = (type: ProtocolType) => {
+    setProtocolMode(type);
+    setSelectedHabitId(null);
+    setIsReviewOpen(false);
+  };
+
+  return (
+    <div className="h-full flex flex-col animate-in fade-in duration-500">
+      <div className="flex flex-col gap-4 mb-6 px-1 border-b border-blue-900/30 pb-4">
+        <div className="flex gap-6">
+          {PROTOCOL_TYPES.map(type => (
+            <button
+              key={type}
+              onClick={() => switchProtocol(type)}
+              className={cn(
+                "text-sm font-bold tracking-widest transition-colors relative pb-1",
+                !isReviewOpen && protocolMode === type ? "text-white" : "text-slate-500 hover:text-slate-300"
+              )}
+            >
+              {type} ANALYTICS
+              {!isReviewOpen && protocolMode === type && <div className="absolute bottom-0 left-0 w-full h-0.5 bg-blue-500" />}
+            </button>
+          ))}
+          <button
+            onClick={() => setIsReviewOpen(true)}
+            className={cn(
+              "text-sm font-bold tracking-widest transition-colors relative pb-1",
+              isReviewOpen ? "text-white" : "text-slate-500 hover:text-slate-300"
+            )}
+          >
+            WEEKLY REVIEW
+            {isReviewOpen && <div className="absolute bottom-0 left-0 w-full h-0.5 bg-blue-500" />}
+          </button>
+        </div>
+
+        {!isReviewOpen && (
+          <div className="flex items-center justify-between gap-4 flex-wrap">
+            <div className="flex gap-1">
+              {ANALYTICS_RANGES.map(r => (
+                <button
+                  key={r.id}
+                  onClick={() => setRangeId(r.id)}
+                  className={cn(
+                    "px-3 py-1 text-[10px] font-mono uppercase border transition-all",
+                    rangeId === r.id
+                      ? "bg-blue-900/40 border-blue-500 text-white"
+                      : "bg-slate-950 border-slate-800 text-slate-500 hover:border-slate-600"
+                  )}
+                >
+                  {r.label}
+                </button>
+              ))}
+            </div>
+            <div className="font-mono text-xs text-slate-500">
+              {selectedHabit ? selectedHabit.title.toUpperCase() : 'ALL OBJECTIVES'} · <span className="text-blue-400">{formatRate(overallRate)}</span>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {isReviewOpen ? (
+        <div className="flex-1 overflow-auto custom-scrollbar pb-4">
+          <WeeklyReview habitsByType={habitsByType} tasks={tasks} categories={categories} />
+        </div>
+      ) : (
+        <div className="flex-1 overflow-auto custom-scrollbar flex flex-col gap-6 pb-4">
+          {/* Per-habit table */}
+          <div className="border border-blue-900/30 bg-slate-950/50 backdrop-blur">
+            <div className="flex items-center px-4 py-2 border-b border-blue-900/50 font-mono text-[10px] text-slate-500 uppercase tracking-widest">
+              <span className="flex-1">Objective</span>
+              <span className="w-40 md:w-56">Completion</span>
+              <span className="w-16 text-right flex items-center justify-end gap-1"><Flame size={10} /> Now</span>
+              <span className="w-16 text-right flex items-center justify-end gap-1"><Trophy size={10} /> Best</span>
+            </div>
+            {rows.length === 0 && (
+              <p className="text-xs font-mono text-slate-600 p-6 text-center">NO {protocolMode} PROTOCOLS DEFINED</p>
+            )}
+            {rows.map(({ habit, rate, current, longest }) => (
+              <button
+                key={habit.id}
+                onClick={() => setSelectedHabitId(selectedHabitId === habit.id ? null : habit.id)}
+                className={cn(
+                  "w-full flex items-center px-4 py-3 border-b border-blue-900/20 last:border-b-0 text-left transition-colors",
+                  selectedHabitId === habit.id ? "bg-blue-900/30" : "hover:bg-white/[0.02]"
+                )}
+              >
+                <span className="flex-1 text-sm text-slate-300 truncate pr-4">{habit.title}</span>
+                <span className="w-40 md:w-56 flex items-center gap-2">
+                  <span className="flex-1 h-1.5 bg-slate-800">
+                    <span className="block h-full bg-blue-500 transition-all duration-500" style={{ width: `${(rate ?? 0) * 100}%` }} />
+                  </span>
+                  <span className="w-10 text-right font-mono text-xs text-blue-300">{formatRate(rate)}</span>
+                </span>
+                <span className="w-16 text-right"><StreakValue streak={current} type={protocolMode} /></span>
+                <span className="w-16 text-right"><StreakValue streak={longest} type={protocolMode} /></span>
+              </button>
+            ))}
+          </div>
+
+          <div className={cn("grid gap-6", protocolMode === 'DAILY' && "md:grid-cols-2")}>
+            <div className="border border-blue-900/30 bg-slate-950/50 backdrop-blur p-4">
+              <SectionTitle>Trend</SectionTitle>
+              <TrendChart points={trend} />
+            </div>
+
+            {protocolMode === 'DAILY' && (
+              <div className="border border-blue-900/30 bg-slate-950/50 backdrop-blur p-4">
+                <SectionTitle>Day of week</SectionTitle>
+                <div className="flex items-end gap-2 h-32">
+                  {WEEKDAY_ORDER.map(weekday => {
+                    const rate = weekdays[weekday];
+                    return (
+                      <div key={weekday} className="flex-1 h-full flex flex-col items-center justify-end gap-1" title={formatRate(rate)}>
+                        <span className="text-[10px] font-mono text-slate-500">{formatRate(rate)}</span>
+                        <div className="w-full bg-blue-600/60" style={{ height: `${(rate ?? 0) * 100}%` }} />
+                        <span className="text-[10px] font-mono text-slate-500">{WEEKDAY_LABELS[weekday]}</span>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+          </div>
+
+          {protocolMode === 'DAILY' && (
+            <div className="border border-blue-900/30 bg-slate-950/50 backdrop-blur p-4">
+              <div className="flex items-center justify-between">
+                <SectionTitle>Year activity</SectionTitle>
+                <div className="flex items-center gap-3 mb-3">
+                  <button onClick={() => setHeatmapYear(y => y - 1)} className="text-slate-500 hover:text-blue-400 transition-colors">
+                    <ChevronLeft size={16} />
+                  </button>
+                  <span className="text-blue-400 text-xs font-mono">{heatmapYear}</span>
+                  <button onClick={() => setHeatmapYear(y => y + 1)} className="text-slate-500 hover:text-blue-400 transition-colors">
+                    <ChevronRight size={16} />
+                  </button>
+                </div>
+              </div>
+              <YearHeatmap cells={heatmap} />
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
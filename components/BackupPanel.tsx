@@ -0,0 +1,174 @@
+import React, { useState, useRef } from 'react';
+import { format } from 'date-fns';
+import { WorkspaceData, ImportMode } from '../services/dataStore';
+import { createBackup, findConflicts, getBackupFilename, parseBackup } from '../services/backup';
+import { downloadFile } from '../services/download';
+import { tasksToCsv } from '../services/csv';
+import { workspaceToICalendar } from '../services/ical';
+import { AlertCircle, AlertTriangle, CalendarDays, Check, Download, FileSpreadsheet, Upload } from 'lucide-react';
+import { Button } from './ui';
+
+interface BackupPanelProps {
+  data: WorkspaceData;
+  onImport: (data: WorkspaceData, mode: ImportMode) => Promise<void>;
+}
+
+interface PendingImport {
+  filename: string;
+  data: WorkspaceData;
+}
+
+const describeCounts = (data: WorkspaceData) => [
+  `${data.habits.length + data.weeklyHabits.length + data.monthlyHabits.length} HABITS`,
+  `${data.categories.length} CATEGORIES`,
+  `${data.tasks.length} TASKS`
+].join(' · ');
+
+// Export of the whole workspace as one JSON file, and the reverse. An import is
+// validated and previewed before anything is written. Also offers the
+// spreadsheet and calendar reports.
+export const BackupPanel: React.FC<BackupPanelProps> = ({ data, onImport }) => {
+  const [pending, setPending] = useState<PendingImport | null>(null);
+  const [error, setError] = useState('');
+  const [result, setResult] = useState('');
+  const [isImporting, setIsImporting] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const conflicts = pending ? findConflicts(data, pending.data) : [];
+
+  const handleExport = () => {
+    const now = new Date();
+    downloadFile(getBackupFilename(now), JSON.stringify(createBackup(data, now), null, 2), 'application/json');
+  };
+
+  const handleExportTasksCsv = () => {
+    downloadFile(`doit-tasks-${format(new Date(), 'yyyy-MM-dd')}.csv`, tasksToCsv(data.tasks, data.categories), 'text/csv');
+  };
+
+  const handleExportCalendar = () => {
+    const habitsByType = { DAILY: data.habits, WEEKLY: data.weeklyHabits, MONTHLY: data.monthlyHabits };
+    downloadFile('doit.ics', workspaceToICalendar(habitsByType, data.tasks, data.categories), 'text/calendar');
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setError('');
+    setResult('');
+    setPending(null);
+    try {
+      let raw: unknown;
+      try {
+        raw = JSON.parse(await file.text());
+      } catch {
+        throw new Error("The file is not valid JSON");
+      }
+      setPending({ filename: file.name, data: parseBackup(raw) });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unreadable backup');
+    }
+  };
+
+  const handleImport = async (mode: ImportMode) => {
+    if (!pending) return;
+    setIsImporting(true);
+    try {
+      await onImport(pending.data, mode);
+      setResult(`${mode === 'MERGE' ? 'MERGED' : 'REPLACED WITH'} ${pending.filename}`);
+      setPending(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Import failed');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-6">
+      <div className="flex flex-col gap-2">
+        <p className="text-xs text-slate-500 font-mono uppercase">Current workspace</p>
+        <div className="bg-slate-900/50 p-3 border border-blue-900/20 font-mono text-xs text-blue-300">
+          {describeCounts(data)}
+        </div>
+        <div className="flex gap-2">
+          <Button variant="secondary" onClick={handleExport} className="flex-1 flex items-center justify-center gap-2">
+            <Download size={14} /> EXPORT JSON
+          </Button>
+          <Button variant="secondary" onClick={() => fileInputRef.current?.click()} className="flex-1 flex items-center justify-center gap-2">
+            <Upload size={14} /> IMPORT
+          </Button>
+          <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleFile} />
+        </div>
+      </div>
+
+      <div className="flex flex-col gap-2">
+        <p className="text-xs text-slate-500 font-mono uppercase">Reports</p>
+        <div className="flex gap-2">
+          <Button variant="secondary" onClick={handleExportTasksCsv} className="flex-1 flex items-center justify-center gap-2">
+            <FileSpreadsheet size={14} /> TASKS CSV
+          </Button>
+          <Button variant="secondary" onClick={handleExportCalendar} className="flex-1 flex items-center justify-center gap-2">
+            <CalendarDays size={14} /> CALENDAR (.ICS)
+          </Button>
+        </div>
+        <p className="text-[10px] text-slate-600">Habit grids export from the protocol view. The calendar holds tasks with a due date and every habit.</p>
+      </div>
+
+      {error && (
+        <div className="flex items-center gap-2 p-3 bg-red-950/30 border border-red-900/50 text-red-400 text-xs">
+          <AlertCircle size={14} className="flex-shrink-0" />
+          {error}
+        </div>
+      )}
+
+      {result && (
+        <div className="flex items-center gap-2 p-3 bg-blue-950/30 border border-blue-900/50 text-blue-300 text-xs font-mono uppercase">
+          <Check size={14} className="flex-shrink-0" />
+          <span className="truncate">{result}</span>
+        </div>
+      )}
+
+      {pending && (
+        <div className="flex flex-col gap-3">
+          <p className="text-xs text-slate-500 font-mono uppercase truncate" title={pending.filename}>{pending.filename}</p>
+          <div className="bg-slate-900/50 p-3 border border-blue-900/20 font-mono text-xs text-slate-300">
+            {describeCounts(pending.data)}
+          </div>
+
+          {conflicts.length > 0 && (
+            <div className="flex flex-col gap-2">
+              <p className="flex items-center gap-2 text-xs text-amber-400">
+                <AlertTriangle size={14} />
+                {conflicts.length} record(s) already exist. Merging overwrites them with the imported version.
+              </p>
+              <div className="flex flex-col gap-1 max-h-40 overflow-y-auto custom-scrollbar">
+                {conflicts.map(conflict => (
+                  <div key={`${conflict.kind}-${conflict.id}`} className="flex items-center gap-2 p-2 bg-amber-950/20 border border-amber-900/40 text-xs">
+                    <span className="font-mono text-[10px] text-amber-500">{conflict.kind}</span>
+                    <span className="truncate text-slate-400" title={conflict.current}>{conflict.current}</span>
+                    {conflict.current !== conflict.incoming && (
+                      <>
+                        <span className="text-slate-600">→</span>
+                        <span className="truncate text-slate-200" title={conflict.incoming}>{conflict.incoming}</span>
+                      </>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <p className="text-xs text-slate-500">
+            Merge keeps everything that is not in the file. Replace deletes the current workspace first.
+          </p>
+          <div className="flex gap-2 justify-end">
+            <Button variant="ghost" size="sm" onClick={() => setPending(null)} disabled={isImporting}>CANCEL</Button>
+            <Button variant="danger" size="sm" onClick={() => handleImport('REPLACE')} disabled={isImporting}>REPLACE</Button>
+            <Button size="sm" onClick={() => handleImport('MERGE')} disabled={isImporting}>MERGE</Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
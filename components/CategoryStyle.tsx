@@ -0,0 +1,79 @@
+import React from 'react';
+import { Category, CategoryColor, CategoryIcon } from '../types';
+import { CATEGORY_COLORS, CATEGORY_ICONS } from '../services/categories';
+import { BookOpen, Briefcase, CalendarDays, Code, Folder, Heart, House, LucideIcon, Star, Target, Wallet } from 'lucide-react';
+import { cn } from './ui';
+
+// Tailwind needs the full class names spelled out
+export const CATEGORY_STYLES: Record<CategoryColor, { text: string; swatch: string; bar: string }> = {
+  BLUE: { text: 'text-blue-400', swatch: 'bg-blue-500', bar: 'bg-blue-500' },
+  CYAN: { text: 'text-cyan-400', swatch: 'bg-cyan-500', bar: 'bg-cyan-500' },
+  EMERALD: { text: 'text-emerald-400', swatch: 'bg-emerald-500', bar: 'bg-emerald-500' },
+  AMBER: { text: 'text-amber-400', swatch: 'bg-amber-500', bar: 'bg-amber-500' },
+  ORANGE: { text: 'text-orange-400', swatch: 'bg-orange-500', bar: 'bg-orange-500' },
+  RED: { text: 'text-red-400', swatch: 'bg-red-500', bar: 'bg-red-500' },
+  PINK: { text: 'text-pink-400', swatch: 'bg-pink-500', bar: 'bg-pink-500' },
+  VIOLET: { text: 'text-violet-400', swatch: 'bg-violet-500', bar: 'bg-violet-500' },
+  SLATE: { text: 'text-slate-400', swatch: 'bg-slate-500', bar: 'bg-slate-400' }
+};
+
+export const CATEGORY_ICON_COMPONENTS: Record<CategoryIcon, LucideIcon> = {
+  FOLDER: Folder,
+  BRIEFCASE: Briefcase,
+  HOME: House,
+  HEART: Heart,
+  BOOK: BookOpen,
+  CODE: Code,
+  WALLET: Wallet,
+  STAR: Star,
+  TARGET: Target,
+  CALENDAR: CalendarDays
+};
+
+export const CategoryIconView = ({ category, size = 14, className }: { category: Pick<Category, 'color' | 'icon'>; size?: number; className?: string }) => {
+  const Icon = CATEGORY_ICON_COMPONENTS[category.icon] ?? Folder;
+  return <Icon size={size} className={cn("flex-shrink-0", CATEGORY_STYLES[category.color]?.text, className)} />;
+};
+
+interface CategoryStylePickerProps {
+  color: CategoryColor;
+  icon: CategoryIcon;
+  onChange: (style: { color: CategoryColor; icon: CategoryIcon }) => void;
+}
+
+// Color swatches and icon choices for a category
+export const CategoryStylePicker: React.FC<CategoryStylePickerProps> = ({ color, icon, onChange }) => (
+  <div className="flex flex-col gap-2">
+    <div className="flex flex-wrap gap-1.5">
+      {CATEGORY_COLORS.map(option => (
+        <button
+          key={option}
+          type="button"
+          onClick={() => onChange({ color: option, icon })}
+          title={option}
+          className={cn(
+            "w-5 h-5 border-2 transition-all",
+            CATEGORY_STYLES[option].swatch,
+            color === option ? "border-white" : "border-transparent opacity-60 hover:opacity-100"
+          )}
+        />
+      ))}
+    </div>
+    <div className="flex flex-wrap gap-1">
+      {CATEGORY_ICONS.map(option => (
+        <button
+          key={option}
+          type="button"
+          onClick={() => onChange({ color, icon: option })}
+          title={option}
+          className={cn(
+            "p-1.5 border transition-all",
+            icon === option ? "bg-blue-900/40 border-blue-500" : "bg-slate-950 border-slate-800 hover:border-slate-600"
+          )}
+        >
+          <CategoryIconView category={{ color, icon: option }} />
+        </button>
+      ))}
+    </div>
+  </div>
+);
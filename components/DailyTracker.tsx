@@ -1,8 +1,14 @@
 
 import React, { useState, useMemo, useRef, useEffect } from 'react';
-import { Habit, ProtocolType } from '../types';
-import { format, getDaysInMonth, getDate, isSameDay, addMonths, addYears, getMonth } from 'date-fns';
-import { Check, Plus, Trash2, ChevronLeft, ChevronRight, Flame, X } from 'lucide-react';
+import { Habit, HabitSettings, ProtocolType } from '../types';
+import { getDateKey, getProtocolUnit, getStreak, isCompletedOn, isExpectedOn, describeSchedule, getValue, getCompletionRatio, formatValue } from '../services/habitSchedule';
+import { HabitForm } from './HabitForm';
+import { SuggestionPicker } from './SuggestionPicker';
+import { suggestHabits } from '../services/ai';
+import { habitGridToCsv } from '../services/csv';
+import { downloadFile } from '../services/download';
+import { format, getDaysInMonth, getDate, isSameDay, isSameISOWeek, isSameMonth, addDays, addMonths, addQuarters, addYears, startOfQuarter, endOfQuarter, eachWeekOfInterval, isWithinInterval } from 'date-fns';
+import { Check, Plus, Trash2, ChevronLeft, ChevronRight, Flame, X, Download } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Button, Input, Modal, cn } from './ui';
 
@@ -21,39 +27,116 @@ const startOfYear = (date: Date) => {
   return d;
 };
 
-const subDays = (date: Date, amount: number) => {
-  const d = new Date(date);
-  d.setDate(d.getDate() - amount);
-  return d;
+const PROTOCOL_TABS: { type: ProtocolType; label: string }[] = [
+  { type: 'DAILY', label: 'DAILY PROTOCOL' },
+  { type: 'WEEKLY', label: 'WEEKLY PROTOCOL' },
+  { type: 'MONTHLY', label: 'MONTHLY PROTOCOL' }
+];
+
+// Whether a grid column is the current day, ISO week or month
+const isCurrentPeriod = (date: Date, type: ProtocolType) => {
+  const now = new Date();
+  if (type === 'DAILY') return isSameDay(date, now);
+  if (type === 'WEEKLY') return isSameISOWeek(date, now);
+  return isSameMonth(date, now);
+};
+
+// Names the exported grid after the month, quarter or year on screen
+const EXPORT_FILENAME_FORMATS: Record<ProtocolType, string> = {
+  DAILY: "'doit-daily-'yyyy-MM'.csv'",
+  WEEKLY: "'doit-weekly-'yyyy-'Q'Q'.csv'",
+  MONTHLY: "'doit-monthly-'yyyy'.csv'"
 };
 
-const subMonths = (date: Date, amount: number) => {
-    const d = new Date(date);
-    d.setMonth(d.getMonth() - amount);
-    return d;
+const PERIOD_DATE_FORMATS: Record<ProtocolType, string> = {
+  DAILY: 'EEEE, MMM d',
+  WEEKLY: "'Week' II, RRRR",
+  MONTHLY: 'MMMM yyyy'
+};
+
+type AddMode = 'MANUAL' | 'GENERATE';
+
+const ADD_MODES: { mode: AddMode; label: string }[] = [
+  { mode: 'MANUAL', label: 'MANUAL' },
+  { mode: 'GENERATE', label: 'GENERATE FROM GOAL' }
+];
+
+interface ValueEditorProps {
+  habit: Habit;
+  date: Date;
+  type: ProtocolType;
+  onSave: (value: number | null) => void;
+}
+
+// Records the measured amount for one cell of a quantitative habit
+const ValueEditor: React.FC<ValueEditorProps> = ({ habit, date, type, onSave }) => {
+  const target = habit.target!;
+  const current = getValue(habit, getDateKey(date, type));
+  const [value, setValue] = useState(current > 0 ? String(current) : '');
+
+  const save = () => {
+    const parsed = parseFloat(value);
+    onSave(Number.isFinite(parsed) && parsed > 0 ? parsed : null);
+  };
+
+  return (
+    <div className="flex flex-col gap-4">
+      <p className="text-xs font-mono text-slate-500 uppercase">
+        {format(date, PERIOD_DATE_FORMATS[type])} · GOAL {formatValue(target.goal)} {target.unit}
+      </p>
+      <div className="flex items-center gap-2">
+        <Input
+          type="number"
+          min={0}
+          step="any"
+          placeholder="0"
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && save()}
+          autoFocus
+        />
+        <span className="text-sm font-mono text-slate-400 flex-shrink-0">{target.unit}</span>
+      </div>
+      <div className="flex gap-2 justify-end">
+        <Button variant="ghost" onClick={() => onSave(null)}>CLEAR</Button>
+        <Button variant="secondary" onClick={() => onSave(target.goal)}>HIT GOAL</Button>
+        <Button onClick={save}>CONFIRM</Button>
+      </div>
+    </div>
+  );
 };
 
 interface ProtocolTrackerProps {
   dailyHabits: Habit[];
+  weeklyHabits: Habit[];
   monthlyHabits: Habit[];
-  onAddHabit: (title: string, type: ProtocolType) => void;
+  onAddHabit: (title: string, type: ProtocolType, settings?: HabitSettings) => void;
+  onAddHabits: (titles: string[], type: ProtocolType) => void;
+  onUpdateHabit: (id: string, type: ProtocolType, updates: Partial<Habit>) => void;
   onToggleHabit: (id: string, date: Date, type: ProtocolType) => void;
+  onSetHabitValue: (id: string, date: Date, type: ProtocolType, value: number | null) => void;
   onDeleteHabit: (id: string, type: ProtocolType) => void;
 }
 
 export const DailyTracker: React.FC<ProtocolTrackerProps> = ({ 
   dailyHabits = [], 
+  weeklyHabits = [],
   monthlyHabits = [],
   onAddHabit,
+  onAddHabits,
+  onUpdateHabit,
   onToggleHabit,
+  onSetHabitValue,
   onDeleteHabit
 }) => {
   const [protocolMode, setProtocolMode] = useState<ProtocolType>('DAILY');
   const [isModalOpen, setIsModalOpen] = useState(false);
-  const [newHabitTitle, setNewHabitTitle] = useState('');
+  const [addMode, setAddMode] = useState<AddMode>('MANUAL');
+  const [editingHabitId, setEditingHabitId] = useState<string | null>(null);
+  const [editingCell, setEditingCell] = useState<{ habitId: string; date: Date } | null>(null);
   
   // Date states
-  const [currentDate, setCurrentDate] = useState(new Date()); // Used for Month in Daily, Year in Monthly
+  const [currentDate, setCurrentDate] = useState(new Date()); // Used for Month in Daily, Quarter in Weekly, Year in Monthly
   const [deletingHabitId, setDeletingHabitId] = useState<string | null>(null);
   
   const scrollContainerRef = useRef<HTMLDivElement>(null);
@@ -72,6 +155,16 @@ export const DailyTracker: React.FC<ProtocolTrackerProps> = ({
     });
   }, [daysInMonth, currentMonthStart]);
 
+  // --- Derived Data for WEEKLY ---
+  // ISO weeks belong to the quarter that contains their Thursday
+  const weeks = useMemo(() => {
+    const quarter = { start: startOfQuarter(currentDate), end: endOfQuarter(currentDate) };
+    return eachWeekOfInterval(
+      { start: addDays(quarter.start, -6), end: quarter.end },
+      { weekStartsOn: 1 }
+    ).filter(monday => isWithinInterval(addDays(monday, 3), quarter));
+  }, [currentDate]);
+
   // --- Derived Data for MONTHLY ---
   const months = useMemo(() => {
     const yearStart = startOfYear(currentDate);
@@ -83,7 +176,7 @@ export const DailyTracker: React.FC<ProtocolTrackerProps> = ({
 
   // Scroll logic
   useEffect(() => {
-    // Logic runs for both DAILY and MONTHLY modes to center the current item
+    // Logic runs for every protocol mode to center the current item
     const timer = setTimeout(() => {
       if (todayRef.current && scrollContainerRef.current) {
         const container = scrollContainerRef.current;
@@ -107,63 +200,63 @@ export const DailyTracker: React.FC<ProtocolTrackerProps> = ({
     return () => clearTimeout(timer);
   }, [currentDate, protocolMode]);
 
-  const handleAddHabit = () => {
-    if (!newHabitTitle.trim()) return;
-    onAddHabit(newHabitTitle, protocolMode);
-    setNewHabitTitle('');
+  const handleAddHabit = (title: string, settings: HabitSettings) => {
+    onAddHabit(title, protocolMode, settings);
+    setIsModalOpen(false);
+  };
+
+  const handleAcceptSuggestions = (titles: string[]) => {
+    onAddHabits(titles, protocolMode);
     setIsModalOpen(false);
   };
 
+  const openAddModal = () => {
+    setAddMode('MANUAL');
+    setIsModalOpen(true);
+  };
+
+  const handleUpdateHabit = (title: string, settings: HabitSettings) => {
+    if (editingHabitId) onUpdateHabit(editingHabitId, protocolMode, { title, ...settings });
+    setEditingHabitId(null);
+  };
+
   const navigateDate = (delta: number) => {
     if (protocolMode === 'DAILY') {
       setCurrentDate(prev => addMonths(prev, delta));
+    } else if (protocolMode === 'WEEKLY') {
+      setCurrentDate(prev => addQuarters(prev, delta));
     } else {
       setCurrentDate(prev => addYears(prev, delta));
     }
   };
 
   // Logic Selectors
-  const currentHabits = protocolMode === 'DAILY' ? dailyHabits : monthlyHabits;
-  const currentColumns = protocolMode === 'DAILY' ? days : months;
-  const dateFormat = protocolMode === 'DAILY' ? 'yyyy-MM-dd' : 'yyyy-MM';
+  const currentHabits = protocolMode === 'DAILY' ? dailyHabits : protocolMode === 'WEEKLY' ? weeklyHabits : monthlyHabits;
+  const currentColumns = protocolMode === 'DAILY' ? days : protocolMode === 'WEEKLY' ? weeks : months;
+  const columnWidth = protocolMode === 'DAILY' ? "w-10" : protocolMode === 'WEEKLY' ? "w-16" : "w-24";
+  const editingHabit = editingHabitId ? currentHabits.find(h => h.id === editingHabitId) : null;
+  const editingCellHabit = editingCell ? currentHabits.find(h => h.id === editingCell.habitId) : null;
 
-  // Calculate Progress
+  // Calculate Progress: share of the habits due on each column that were completed,
+  // or null when nothing was due
   const calculateProgress = () => {
     return currentColumns.map(colDate => {
-      if (!currentHabits || currentHabits.length === 0) return 0;
-      const dateKey = format(colDate, dateFormat);
-      const completedCount = currentHabits.filter(h => h.completions[dateKey]).length;
-      return Math.round((completedCount / currentHabits.length) * 100);
+      const dateKey = getDateKey(colDate, protocolMode);
+      const expected = currentHabits.filter(h => isExpectedOn(h, colDate, protocolMode));
+      if (expected.length === 0) return null;
+      const completedCount = expected.filter(h => isCompletedOn(h, dateKey)).length;
+      return Math.round((completedCount / expected.length) * 100);
     });
   };
 
   const dailyProgress = calculateProgress();
 
-  // Calculate Streak
-  const getStreak = (habit: Habit) => {
-    let streak = 0;
-    let checkDate = new Date(); // Start checking from now
-    
-    // For Monthly, check if current month is done, if not start from last month
-    // For Daily, check if today is done, if not start from yesterday
-    
-    const isDaily = protocolMode === 'DAILY';
-    const currentKey = format(checkDate, dateFormat);
-    
-    if (!habit.completions[currentKey]) {
-        checkDate = isDaily ? subDays(checkDate, 1) : subMonths(checkDate, 1);
-    }
-
-    while (true) {
-      const key = format(checkDate, dateFormat);
-      if (habit.completions[key]) {
-        streak++;
-        checkDate = isDaily ? subDays(checkDate, 1) : subMonths(checkDate, 1);
-      } else {
-        break;
-      }
-    }
-    return streak;
+  const handleExportCsv = () => {
+    downloadFile(
+      format(currentDate, EXPORT_FILENAME_FORMATS[protocolMode]),
+      habitGridToCsv(currentHabits, protocolMode, currentColumns),
+      'text/csv'
+    );
   };
 
   return (
@@ -171,26 +264,19 @@ export const DailyTracker: React.FC<ProtocolTrackerProps> = ({
       <div className="flex flex-col gap-4 mb-6 px-1 border-b border-blue-900/30 pb-4">
         {/* Tab Switcher */}
         <div className="flex gap-6">
-            <button 
-            onClick={() => setProtocolMode('DAILY')}
-            className={cn(
-                "text-sm font-bold tracking-widest transition-colors relative pb-1",
-                protocolMode === 'DAILY' ? "text-white" : "text-slate-500 hover:text-slate-300"
-            )}
-            >
-            DAILY PROTOCOL
-            {protocolMode === 'DAILY' && <div className="absolute bottom-0 left-0 w-full h-0.5 bg-blue-500" />}
-            </button>
-            <button 
-            onClick={() => setProtocolMode('MONTHLY')}
-            className={cn(
-                "text-sm font-bold tracking-widest transition-colors relative pb-1",
-                protocolMode === 'MONTHLY' ? "text-white" : "text-slate-500 hover:text-slate-300"
-            )}
-            >
-            MONTHLY PROTOCOL
-            {protocolMode === 'MONTHLY' && <div className="absolute bottom-0 left-0 w-full h-0.5 bg-blue-500" />}
-            </button>
+            {PROTOCOL_TABS.map(tab => (
+              <button 
+              key={tab.type}
+              onClick={() => setProtocolMode(tab.type)}
+              className={cn(
+                  "text-sm font-bold tracking-widest transition-colors relative pb-1",
+                  protocolMode === tab.type ? "text-white" : "text-slate-500 hover:text-slate-300"
+              )}
+              >
+              {tab.label}
+              {protocolMode === tab.type && <div className="absolute bottom-0 left-0 w-full h-0.5 bg-blue-500" />}
+              </button>
+            ))}
         </div>
 
         <div className="flex items-center justify-between">
@@ -201,6 +287,8 @@ export const DailyTracker: React.FC<ProtocolTrackerProps> = ({
                 <span className="text-blue-400 text-sm font-mono min-w-[140px] text-center">
                     {protocolMode === 'DAILY' 
                     ? format(currentDate, 'MMMM yyyy').toUpperCase()
+                    : protocolMode === 'WEEKLY'
+                    ? format(currentDate, 'QQQ yyyy').toUpperCase()
                     : format(currentDate, 'yyyy').toUpperCase()
                     }
                 </span>
@@ -209,8 +297,11 @@ export const DailyTracker: React.FC<ProtocolTrackerProps> = ({
                 </button>
             </div>
             
-            <div className="flex justify-end flex-1">
-              <Button onClick={() => setIsModalOpen(true)} size="sm" className="flex items-center gap-2">
+            <div className="flex justify-end gap-2 flex-1">
+              <Button onClick={handleExportCsv} variant="secondary" size="sm" className="flex items-center gap-2" title="Export this grid as CSV">
+                  <Download size={14} /> CSV
+              </Button>
+              <Button onClick={openAddModal} size="sm" className="flex items-center gap-2">
                   <Plus size={16} /> ADD ITEM
               </Button>
             </div>
@@ -225,21 +316,19 @@ export const DailyTracker: React.FC<ProtocolTrackerProps> = ({
               ref={stickyColRef}
               className="sticky left-0 z-30 w-72 bg-slate-950 border-r border-blue-900/50 p-4 font-mono text-xs text-blue-300 flex items-center justify-between shadow-[4px_0_10px_rgba(0,0,0,0.5)]"
             >
-              <span>{protocolMode === 'DAILY' ? 'HABIT IDENTIFIER' : 'MONTHLY OBJECTIVE'}</span>
+              <span>{protocolMode === 'DAILY' ? 'HABIT IDENTIFIER' : protocolMode === 'WEEKLY' ? 'WEEKLY OBJECTIVE' : 'MONTHLY OBJECTIVE'}</span>
               <span className="text-[10px] text-slate-500">STREAK</span>
             </div>
             {currentColumns.map((dateItem) => {
-              const isToday = protocolMode === 'DAILY' 
-                ? isSameDay(dateItem, new Date()) 
-                : (getMonth(dateItem) === getMonth(new Date()) && dateItem.getFullYear() === new Date().getFullYear());
-              
+              const isToday = isCurrentPeriod(dateItem, protocolMode);
+
               return (
                 <div 
                   key={dateItem.toISOString()} 
                   ref={isToday ? todayRef : null}
                   className={cn(
                     "flex-shrink-0 flex flex-col items-center justify-center border-r border-blue-900/20 font-mono text-xs transition-colors",
-                    protocolMode === 'DAILY' ? "w-10 h-14" : "w-24 h-14",
+                    columnWidth, "h-14",
                     isToday ? "bg-blue-900/40 text-blue-100 font-bold border-blue-500/30" : "text-slate-500"
                   )}
                 >
@@ -248,6 +337,11 @@ export const DailyTracker: React.FC<ProtocolTrackerProps> = ({
                         <span className="text-[10px] uppercase">{format(dateItem, 'EEE')}</span>
                         <span className="text-sm">{getDate(dateItem)}</span>
                     </>
+                  ) : protocolMode === 'WEEKLY' ? (
+                    <>
+                        <span className="text-sm">{format(dateItem, "'W'II")}</span>
+                        <span className="text-[10px] uppercase">{format(dateItem, 'MMM d')}</span>
+                    </>
                   ) : (
                     <span className="text-sm uppercase">{format(dateItem, 'MMM')}</span>
                   )}
@@ -260,7 +354,9 @@ export const DailyTracker: React.FC<ProtocolTrackerProps> = ({
           <div className="divide-y divide-blue-900/20">
             <AnimatePresence>
               {currentHabits.map((habit) => {
-                const streak = getStreak(habit);
+                const { length: streak, unit: streakUnit } = getStreak(habit, protocolMode);
+                // Streaks are counted in the grid's own unit unless the schedule is a weekly/monthly quota
+                const streakSuffix = streakUnit !== getProtocolUnit(protocolMode) ? streakUnit[0] : '';
                 const isDeleting = deletingHabitId === habit.id;
 
                 return (
@@ -322,38 +418,69 @@ export const DailyTracker: React.FC<ProtocolTrackerProps> = ({
                                 )}
                              </AnimatePresence>
                         </div>
-                        <span className="text-sm font-medium text-slate-300 truncate">{habit.title}</span>
+                        <button
+                          onClick={() => setEditingHabitId(habit.id)}
+                          className="min-w-0 flex flex-col items-start text-left hover:text-white transition-colors"
+                          title="Configure"
+                        >
+                          <span className="text-sm font-medium text-slate-300 truncate max-w-full">{habit.title}</span>
+                          {habit.schedule && protocolMode === 'DAILY' && (
+                            <span className="text-[10px] font-mono text-slate-600 uppercase">{describeSchedule(habit.schedule)}</span>
+                          )}
+                        </button>
                       </div>
                       <div className={cn("flex items-center gap-1 text-xs font-mono pl-2", streak > 2 ? "text-orange-400" : "text-slate-600")}>
-                        {streak > 0 && <span className="font-bold">{streak}</span>}
+                        {streak > 0 && <span className="font-bold">{streak}{streakSuffix}</span>}
                         {streak > 0 && <Flame size={12} className={streak > 4 ? "fill-orange-400 text-orange-400 animate-pulse" : ""} />}
                       </div>
                     </div>
                     {currentColumns.map((dateItem) => {
-                      const dateKey = format(dateItem, dateFormat);
-                      const isCompleted = habit.completions[dateKey];
-                      const isToday = protocolMode === 'DAILY' 
-                        ? isSameDay(dateItem, new Date()) 
-                        : (getMonth(dateItem) === getMonth(new Date()) && dateItem.getFullYear() === new Date().getFullYear());
-                      
+                      const dateKey = getDateKey(dateItem, protocolMode);
+                      const isCompleted = isCompletedOn(habit, dateKey);
+                      const isExpected = isExpectedOn(habit, dateItem, protocolMode);
+                      const ratio = habit.target ? getCompletionRatio(habit, dateKey) : 0;
+                      const isToday = isCurrentPeriod(dateItem, protocolMode);
+
                       return (
                         <div 
                           key={dateItem.toISOString()} 
                           className={cn(
                             "flex-shrink-0 border-r border-blue-900/20 flex items-center justify-center cursor-pointer transition-all duration-200 relative",
-                            protocolMode === 'DAILY' ? "w-10 h-12" : "w-24 h-12",
+                            columnWidth, "h-12",
                             isToday && !isCompleted && "bg-blue-900/10",
-                            isCompleted && "bg-blue-600/10"
+                            isCompleted && "bg-blue-600/10",
+                            !isExpected && !isCompleted && "bg-slate-900/40"
                           )}
-                          onClick={() => onToggleHabit(habit.id, dateItem, protocolMode)}
+                          title={habit.target
+                            ? `${formatValue(getValue(habit, dateKey))} / ${formatValue(habit.target.goal)} ${habit.target.unit}`
+                            : isExpected ? undefined : "Not scheduled"}
+                          onClick={() => habit.target
+                            ? setEditingCell({ habitId: habit.id, date: dateItem })
+                            : onToggleHabit(habit.id, dateItem, protocolMode)}
                         >
                           {isToday && <div className="absolute inset-0 border-2 border-blue-500/20 pointer-events-none" />}
-                          <div className={cn(
-                            "w-5 h-5 border border-blue-900/50 flex items-center justify-center transition-all duration-300",
-                            isCompleted ? "bg-blue-600 border-blue-500 scale-100" : "bg-transparent scale-90 opacity-50 group-hover:opacity-100"
-                          )}>
-                             {isCompleted && <Check size={14} className="text-white" />}
-                          </div>
+                          {habit.target ? (
+                            <>
+                              {/* Partial progress fills the cell from the bottom */}
+                              {ratio > 0 && !isCompleted && (
+                                <div className="absolute bottom-0 left-0 w-full bg-blue-600/25 pointer-events-none" style={{ height: `${ratio * 100}%` }} />
+                              )}
+                              <span className={cn(
+                                "relative text-[10px] font-mono",
+                                isCompleted ? "text-white font-bold bg-blue-600 px-1" : ratio > 0 ? "text-blue-200" : "text-slate-700 group-hover:text-slate-500"
+                              )}>
+                                {ratio > 0 ? formatValue(getValue(habit, dateKey)) : '·'}
+                              </span>
+                            </>
+                          ) : (
+                            <div className={cn(
+                              "w-5 h-5 border border-blue-900/50 flex items-center justify-center transition-all duration-300",
+                              isCompleted ? "bg-blue-600 border-blue-500 scale-100" : "bg-transparent scale-90 opacity-50 group-hover:opacity-100",
+                              !isExpected && !isCompleted && "border-dashed border-slate-800 opacity-30"
+                            )}>
+                               {isCompleted && <Check size={14} className="text-white" />}
+                            </div>
+                          )}
                         </div>
                       );
                     })}
@@ -366,28 +493,26 @@ export const DailyTracker: React.FC<ProtocolTrackerProps> = ({
           {/* Footer Progress Row */}
           <div className="flex sticky bottom-0 z-20 bg-slate-950 border-t border-blue-900/50 shadow-[0_-4px_10px_rgba(0,0,0,0.5)]">
             <div className="sticky left-0 z-30 w-72 bg-slate-950 border-r border-blue-900/50 p-4 font-mono text-xs text-blue-300 flex items-center shadow-[4px_0_10px_rgba(0,0,0,0.5)]">
-              {protocolMode === 'DAILY' ? 'DAILY COMPLETION RATE' : 'MONTHLY COMPLETION RATE'}
+              {protocolMode} COMPLETION RATE
             </div>
             {dailyProgress.map((prog, idx) => {
                const dateItem = currentColumns[idx];
-               const isToday = protocolMode === 'DAILY' 
-                    ? isSameDay(dateItem, new Date()) 
-                    : (getMonth(dateItem) === getMonth(new Date()) && dateItem.getFullYear() === new Date().getFullYear());
-               
+               const isToday = isCurrentPeriod(dateItem, protocolMode);
+
                return (
                 <div 
                   key={`prog-${idx}`} 
                   className={cn(
                     "flex-shrink-0 border-r border-blue-900/20 flex flex-col justify-end pb-1 items-center relative group",
-                    protocolMode === 'DAILY' ? "w-10 h-12" : "w-24 h-12",
+                    columnWidth, "h-12",
                     isToday ? "bg-blue-900/10" : ""
                   )}
                 >
                   <div 
                     className="w-full bg-blue-600/30 absolute bottom-0 left-0 transition-all duration-500"
-                    style={{ height: `${prog}%` }}
+                    style={{ height: `${prog ?? 0}%` }}
                   />
-                  <span className="text-[10px] font-mono text-white z-10 mix-blend-difference opacity-70 group-hover:opacity-100">{prog}%</span>
+                  <span className="text-[10px] font-mono text-white z-10 mix-blend-difference opacity-70 group-hover:opacity-100">{prog === null ? '–' : `${prog}%`}</span>
                 </div>
               );
             })}
@@ -398,20 +523,70 @@ export const DailyTracker: React.FC<ProtocolTrackerProps> = ({
       <Modal 
         isOpen={isModalOpen} 
         onClose={() => setIsModalOpen(false)} 
-        title={`Initialize ${protocolMode === 'DAILY' ? 'Daily' : 'Monthly'} Protocol`}
+        title={`Initialize ${protocolMode.charAt(0) + protocolMode.slice(1).toLowerCase()} Protocol`}
       >
-        <div className="flex flex-col gap-4">
-          <Input 
-            placeholder={protocolMode === 'DAILY' ? "E.g., Deep Work (4h)..." : "E.g., Financial Audit..."}
-            value={newHabitTitle}
-            onChange={(e) => setNewHabitTitle(e.target.value)}
-            onKeyDown={(e) => e.key === 'Enter' && handleAddHabit()}
-            autoFocus
-          />
-          <div className="flex gap-2 justify-end">
-            <Button onClick={handleAddHabit}>CONFIRM</Button>
-          </div>
+        <div className="flex gap-1 mb-4">
+          {ADD_MODES.map(option => (
+            <button
+              key={option.mode}
+              onClick={() => setAddMode(option.mode)}
+              className={cn(
+                "flex-1 py-2 text-[10px] font-mono uppercase border transition-all",
+                addMode === option.mode
+                  ? "bg-blue-900/40 border-blue-500 text-white"
+                  : "bg-slate-950 border-slate-800 text-slate-500 hover:border-slate-600"
+              )}
+            >
+              {option.label}
+            </button>
+          ))}
         </div>
+        {addMode === 'MANUAL' ? (
+          <HabitForm key={`add-${protocolMode}-${isModalOpen}`} type={protocolMode} submitLabel="CONFIRM" onSubmit={handleAddHabit} />
+        ) : (
+          <SuggestionPicker
+            placeholder="E.g., Run a marathon..."
+            generate={async (goal) => (await suggestHabits(goal, protocolMode)).map(s => s.trim()).filter(Boolean)}
+            renderItem={(title) => title}
+            onAccept={handleAcceptSuggestions}
+          />
+        )}
+      </Modal>
+
+      <Modal
+        isOpen={!!editingHabit}
+        onClose={() => setEditingHabitId(null)}
+        title="Configure Protocol"
+      >
+        {editingHabit && (
+          <HabitForm
+            key={editingHabit.id}
+            type={protocolMode}
+            initialTitle={editingHabit.title}
+            initialSettings={{ schedule: editingHabit.schedule, target: editingHabit.target }}
+            submitLabel="SAVE"
+            onSubmit={handleUpdateHabit}
+          />
+        )}
+      </Modal>
+
+      <Modal
+        isOpen={!!editingCellHabit?.target}
+        onClose={() => setEditingCell(null)}
+        title={editingCellHabit?.title || ''}
+      >
+        {editingCell && editingCellHabit?.target && (
+          <ValueEditor
+            key={`${editingCell.habitId}-${editingCell.date.toISOString()}`}
+            habit={editingCellHabit}
+            date={editingCell.date}
+            type={protocolMode}
+            onSave={(value) => {
+              onSetHabitValue(editingCell.habitId, editingCell.date, protocolMode, value);
+              setEditingCell(null);
+            }}
+          />
+        )}
       </Modal>
     </div>
   );
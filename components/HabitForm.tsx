@@ -0,0 +1,173 @@
+import React, { useState } from 'react';
+import { HabitSchedule, HabitSettings, HabitTarget, ProtocolType } from '../types';
+import { WEEKDAY_LABELS, describeSchedule } from '../services/habitSchedule';
+import { Button, Input, cn } from './ui';
+
+interface HabitFormProps {
+  type: ProtocolType;
+  initialTitle?: string;
+  initialSettings?: HabitSettings;
+  submitLabel: string;
+  onSubmit: (title: string, settings: HabitSettings) => void;
+}
+
+type ScheduleKind = HabitSchedule['kind'];
+
+const SCHEDULE_OPTIONS: { kind: ScheduleKind; label: string }[] = [
+  { kind: 'EVERY_DAY', label: 'EVERY DAY' },
+  { kind: 'DAYS_OF_WEEK', label: 'ON DAYS' },
+  { kind: 'TIMES_PER_WEEK', label: 'X / WEEK' },
+  { kind: 'TIMES_PER_MONTH', label: 'X / MONTH' }
+];
+
+const createSchedule = (kind: ScheduleKind): HabitSchedule => {
+  switch (kind) {
+    case 'DAYS_OF_WEEK':
+      return { kind, days: [1, 2, 3, 4, 5] };
+    case 'TIMES_PER_WEEK':
+      return { kind, count: 3 };
+    case 'TIMES_PER_MONTH':
+      return { kind, count: 10 };
+    default:
+      return { kind: 'EVERY_DAY' };
+  }
+};
+
+// Title plus the settings of a habit, shared by the add and configure modals
+export const HabitForm: React.FC<HabitFormProps> = ({ type, initialTitle = '', initialSettings, submitLabel, onSubmit }) => {
+  const [title, setTitle] = useState(initialTitle);
+  const [schedule, setSchedule] = useState<HabitSchedule>(initialSettings?.schedule || { kind: 'EVERY_DAY' });
+  const [target, setTarget] = useState<HabitTarget | undefined>(initialSettings?.target);
+
+  const handleSubmit = () => {
+    if (!title.trim()) return;
+    if (target && !(target.goal > 0)) return;
+    onSubmit(title.trim(), {
+      // Daily habits without a restriction keep no schedule at all
+      schedule: type === 'DAILY' && schedule.kind !== 'EVERY_DAY' ? schedule : undefined,
+      target: target ? { goal: target.goal, unit: target.unit.trim() } : undefined
+    });
+  };
+
+  const toggleDay = (day: number) => {
+    if (schedule.kind !== 'DAYS_OF_WEEK') return;
+    const days = schedule.days.includes(day) ? schedule.days.filter(d => d !== day) : [...schedule.days, day];
+    if (days.length > 0) setSchedule({ kind: 'DAYS_OF_WEEK', days });
+  };
+
+  return (
+    <div className="flex flex-col gap-4">
+      <Input
+        placeholder={type === 'DAILY' ? "E.g., Deep Work (4h)..." : type === 'WEEKLY' ? "E.g., Weekly Review..." : "E.g., Financial Audit..."}
+        value={title}
+        onChange={(e) => setTitle(e.target.value)}
+        onKeyDown={(e) => e.key === 'Enter' && handleSubmit()}
+        autoFocus
+      />
+
+      {type === 'DAILY' && (
+        <div className="flex flex-col gap-2">
+          <label className="text-[10px] font-mono text-slate-500 uppercase tracking-widest">Schedule</label>
+          <div className="flex gap-1">
+            {SCHEDULE_OPTIONS.map(option => (
+              <button
+                key={option.kind}
+                onClick={() => setSchedule(schedule.kind === option.kind ? schedule : createSchedule(option.kind))}
+                className={cn(
+                  "flex-1 py-2 text-[10px] font-mono uppercase border transition-all",
+                  schedule.kind === option.kind
+                    ? "bg-blue-900/40 border-blue-500 text-white"
+                    : "bg-slate-950 border-slate-800 text-slate-500 hover:border-slate-600"
+                )}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+
+          {schedule.kind === 'DAYS_OF_WEEK' && (
+            <div className="flex gap-1">
+              {WEEKDAY_LABELS.map((label, day) => (
+                <button
+                  key={label}
+                  onClick={() => toggleDay(day)}
+                  className={cn(
+                    "flex-1 py-1.5 text-[10px] font-mono border transition-all",
+                    schedule.days.includes(day)
+                      ? "bg-blue-600 border-blue-500 text-white"
+                      : "bg-slate-950 border-slate-800 text-slate-500 hover:border-slate-600"
+                  )}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {(schedule.kind === 'TIMES_PER_WEEK' || schedule.kind === 'TIMES_PER_MONTH') && (
+            <div className="flex items-center gap-2 text-xs font-mono text-slate-400">
+              <Input
+                type="number"
+                min={1}
+                max={schedule.kind === 'TIMES_PER_WEEK' ? 7 : 31}
+                value={schedule.count}
+                onChange={(e) => {
+                  const max = schedule.kind === 'TIMES_PER_WEEK' ? 7 : 31;
+                  setSchedule({ kind: schedule.kind, count: Math.min(max, Math.max(1, parseInt(e.target.value) || 1)) });
+                }}
+                className="w-20 py-1"
+              />
+              TIMES PER {schedule.kind === 'TIMES_PER_WEEK' ? 'WEEK' : 'MONTH'}
+            </div>
+          )}
+
+          <p className="text-[10px] font-mono text-slate-600">{describeSchedule(schedule).toUpperCase()}</p>
+        </div>
+      )}
+
+      <div className="flex flex-col gap-2">
+        <label className="text-[10px] font-mono text-slate-500 uppercase tracking-widest">Tracking</label>
+        <div className="flex gap-1">
+          {[{ label: 'CHECK', measured: false }, { label: 'AMOUNT', measured: true }].map(option => (
+            <button
+              key={option.label}
+              onClick={() => setTarget(option.measured ? target || { goal: 1, unit: '' } : undefined)}
+              className={cn(
+                "flex-1 py-2 text-[10px] font-mono uppercase border transition-all",
+                !!target === option.measured
+                  ? "bg-blue-900/40 border-blue-500 text-white"
+                  : "bg-slate-950 border-slate-800 text-slate-500 hover:border-slate-600"
+              )}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+
+        {target && (
+          <div className="flex items-center gap-2 text-xs font-mono text-slate-400">
+            GOAL
+            <Input
+              type="number"
+              min={0}
+              step="any"
+              value={target.goal}
+              onChange={(e) => setTarget({ ...target, goal: parseFloat(e.target.value) || 0 })}
+              className="w-24 py-1"
+            />
+            <Input
+              placeholder="Unit (h, L, pages)"
+              value={target.unit}
+              onChange={(e) => setTarget({ ...target, unit: e.target.value })}
+              className="py-1"
+            />
+          </div>
+        )}
+      </div>
+
+      <div className="flex gap-2 justify-end">
+        <Button onClick={handleSubmit}>{submitLabel}</Button>
+      </div>
+    </div>
+  );
+};
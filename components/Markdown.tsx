@@ -0,0 +1,116 @@
+import React from 'react';
+import { cn } from './ui';
+
+// Minimal markdown renderer for task descriptions: headings, lists, code blocks,
+// paragraphs and inline bold/italic/code/links. Builds React nodes, never raw HTML.
+
+const INLINE_PATTERN = /(\*\*[^*]+\*\*|\*[^*]+\*|`[^`]+`|\[[^\]]+\]\([^)\s]+\))/g;
+
+const isSafeUrl = (url: string) => /^(https?:|mailto:)/i.test(url);
+
+const renderInline = (text: string, keyPrefix: string): React.ReactNode[] =>
+  text.split(INLINE_PATTERN).filter(Boolean).map((part, i) => {
+    const key = `${keyPrefix}-${i}`;
+    if (part.startsWith('**') && part.endsWith('**') && part.length > 4) {
+      return <strong key={key} className="text-white font-bold">{part.slice(2, -2)}</strong>;
+    }
+    if (part.startsWith('`') && part.endsWith('`') && part.length > 2) {
+      return <code key={key} className="font-mono text-xs bg-slate-900 border border-blue-900/30 px-1 text-blue-200">{part.slice(1, -1)}</code>;
+    }
+    if (part.startsWith('*') && part.endsWith('*') && part.length > 2) {
+      return <em key={key}>{part.slice(1, -1)}</em>;
+    }
+    const link = part.match(/^\[([^\]]+)\]\(([^)\s]+)\)$/);
+    if (link) {
+      return isSafeUrl(link[2])
+        ? <a key={key} href={link[2]} target="_blank" rel="noreferrer" className="text-blue-400 underline decoration-blue-900 underline-offset-4 hover:text-blue-300">{link[1]}</a>
+        : <span key={key}>{link[1]}</span>;
+    }
+    return <React.Fragment key={key}>{part}</React.Fragment>;
+  });
+
+type Block =
+  | { type: 'heading'; level: number; text: string }
+  | { type: 'list'; ordered: boolean; items: string[] }
+  | { type: 'code'; text: string }
+  | { type: 'paragraph'; text: string };
+
+const parseBlocks = (source: string): Block[] => {
+  const blocks: Block[] = [];
+  const lines = source.replace(/\r\n/g, '\n').split('\n');
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (line.trim().startsWith('```')) {
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trim().startsWith('```')) code.push(lines[i++]);
+      i++;
+      blocks.push({ type: 'code', text: code.join('\n') });
+      continue;
+    }
+
+    const heading = line.match(/^(#{1,3})\s+(.*)$/);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, text: heading[2] });
+      i++;
+      continue;
+    }
+
+    const listItem = /^\s*([-*]|\d+\.)\s+/;
+    if (listItem.test(line)) {
+      const ordered = /^\s*\d+\./.test(line);
+      const items: string[] = [];
+      while (i < lines.length && listItem.test(lines[i])) items.push(lines[i++].replace(listItem, ''));
+      blocks.push({ type: 'list', ordered, items });
+      continue;
+    }
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (i < lines.length && lines[i].trim() && !/^(#{1,3}\s|\s*([-*]|\d+\.)\s|\s*```)/.test(lines[i])) {
+      paragraph.push(lines[i++]);
+    }
+    blocks.push({ type: 'paragraph', text: paragraph.join(' ') });
+  }
+
+  return blocks;
+};
+
+export const Markdown = ({ source, className }: { source: string; className?: string }) => (
+  <div className={cn("flex flex-col gap-3 text-sm text-slate-300 leading-relaxed", className)}>
+    {parseBlocks(source).map((block, i) => {
+      const key = `block-${i}`;
+      switch (block.type) {
+        case 'heading':
+          return (
+            <p key={key} className={cn("font-bold text-white tracking-tight", block.level === 1 ? "text-lg" : block.level === 2 ? "text-base" : "text-sm uppercase tracking-widest")}>
+              {renderInline(block.text, key)}
+            </p>
+          );
+        case 'list': {
+          const ListTag = block.ordered ? 'ol' : 'ul';
+          return (
+            <ListTag key={key} className={cn("pl-5 flex flex-col gap-1", block.ordered ? "list-decimal" : "list-disc marker:text-blue-500")}>
+              {block.items.map((item, j) => <li key={`${key}-${j}`}>{renderInline(item, `${key}-${j}`)}</li>)}
+            </ListTag>
+          );
+        }
+        case 'code':
+          return (
+            <pre key={key} className="font-mono text-xs bg-slate-900 border border-blue-900/30 p-3 overflow-x-auto text-blue-100">
+              {block.text}
+            </pre>
+          );
+        default:
+          return <p key={key}>{renderInline(block.text, key)}</p>;
+      }
+    })}
+  </div>
+);
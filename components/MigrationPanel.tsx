@@ -0,0 +1,77 @@
+import React, { useState } from 'react';
+import { LocalWorkspace } from '../services/migration';
+import { AlertCircle, Upload } from 'lucide-react';
+import { Button } from './ui';
+
+interface MigrationPanelProps {
+  local: LocalWorkspace;
+  onMigrate: () => Promise<void>;
+  onDismiss: () => void;
+}
+
+const PREVIEW_LIMIT = 5;
+
+const PreviewList: React.FC<{ label: string; items: string[] }> = ({ label, items }) => (
+  <div className="flex flex-col gap-1">
+    <div className="flex justify-between text-[10px] font-mono text-slate-500 uppercase tracking-widest">
+      <span>{label}</span>
+      <span>{items.length}</span>
+    </div>
+    {items.slice(0, PREVIEW_LIMIT).map((item, i) => (
+      <div key={i} className="text-xs text-slate-300 truncate pl-2 border-l border-blue-900/50">{item}</div>
+    ))}
+    {items.length > PREVIEW_LIMIT && (
+      <div className="text-[10px] font-mono text-slate-600 pl-2">+{items.length - PREVIEW_LIMIT} MORE</div>
+    )}
+  </div>
+);
+
+// Offered on sign-in when offline data from before the account exists.
+export const MigrationPanel: React.FC<MigrationPanelProps> = ({ local, onMigrate, onDismiss }) => {
+  const [isMigrating, setIsMigrating] = useState(false);
+  const [error, setError] = useState('');
+  const { data } = local;
+
+  const handleMigrate = async () => {
+    setIsMigrating(true);
+    setError('');
+    try {
+      await onMigrate();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Upload failed');
+      setIsMigrating(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-4">
+      <p className="text-sm text-slate-400">
+        This device has data from offline mode
+        {local.owner ? <> saved as <span className="text-white">{local.owner}</span></> : null}.
+        Upload it to your account? Existing records in the account are kept.
+      </p>
+
+      <div className="flex flex-col gap-3 bg-slate-900/50 p-4 border border-blue-900/20 max-h-64 overflow-y-auto custom-scrollbar">
+        <PreviewList label="Daily habits" items={data.habits.map(h => h.title)} />
+        {data.weeklyHabits.length > 0 && <PreviewList label="Weekly habits" items={data.weeklyHabits.map(h => h.title)} />}
+        <PreviewList label="Monthly habits" items={data.monthlyHabits.map(h => h.title)} />
+        <PreviewList label="Categories" items={data.categories.map(c => c.name)} />
+        <PreviewList label="Tasks" items={data.tasks.map(t => t.title)} />
+      </div>
+
+      {error && (
+        <div className="flex items-center gap-2 p-3 bg-red-950/30 border border-red-900/50 text-red-400 text-xs">
+          <AlertCircle size={14} className="flex-shrink-0" />
+          {error}
+        </div>
+      )}
+
+      <div className="flex gap-2 justify-end">
+        <Button variant="ghost" size="sm" onClick={onDismiss} disabled={isMigrating}>NOT NOW</Button>
+        <Button size="sm" onClick={handleMigrate} disabled={isMigrating} className="flex items-center gap-2">
+          <Upload size={12} /> {isMigrating ? 'UPLOADING...' : 'UPLOAD TO ACCOUNT'}
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,117 @@
+import React, { useState, useRef } from 'react';
+import { Check, Sparkles, AlertCircle } from 'lucide-react';
+import { Button, Input, cn } from './ui';
+
+interface SuggestionPickerProps<T> {
+  placeholder: string;
+  generate: (prompt: string) => Promise<T[]>;
+  renderItem: (item: T) => React.ReactNode;
+  onAccept: (items: T[]) => void;
+}
+
+// Prompt box that asks the AI service for suggestions and lets the user pick
+// which ones to add. Every suggestion starts selected.
+export const SuggestionPicker = <T,>({ placeholder, generate, renderItem, onAccept }: SuggestionPickerProps<T>) => {
+  const [prompt, setPrompt] = useState('');
+  const [suggestions, setSuggestions] = useState<T[] | null>(null);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+  // Only the latest request may update the list
+  const requestRef = useRef(0);
+
+  const handleGenerate = async () => {
+    if (!prompt.trim() || isLoading) return;
+    const request = ++requestRef.current;
+    setIsLoading(true);
+    setError('');
+    try {
+      const items = await generate(prompt.trim());
+      if (request !== requestRef.current) return;
+      setSuggestions(items);
+      setSelected(new Set(items.map((_, i) => i)));
+    } catch (e) {
+      if (request !== requestRef.current) return;
+      setSuggestions(null);
+      setError(e instanceof Error ? e.message : 'Suggestion service unavailable');
+    } finally {
+      if (request === requestRef.current) setIsLoading(false);
+    }
+  };
+
+  const toggle = (index: number) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(index)) next.delete(index);
+      else next.add(index);
+      return next;
+    });
+  };
+
+  const handleAccept = () => {
+    if (!suggestions) return;
+    const items = suggestions.filter((_, i) => selected.has(i));
+    if (items.length > 0) onAccept(items);
+  };
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="flex gap-2">
+        <Input
+          placeholder={placeholder}
+          value={prompt}
+          onChange={(e) => setPrompt(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleGenerate()}
+          autoFocus
+        />
+        <Button variant="secondary" onClick={handleGenerate} disabled={isLoading || !prompt.trim()} className="flex items-center gap-2 flex-shrink-0">
+          <Sparkles size={14} /> GENERATE
+        </Button>
+      </div>
+
+      {isLoading && (
+        <div className="flex items-center gap-3 py-4 justify-center text-xs font-mono text-slate-500">
+          <div className="w-4 h-4 border-2 border-blue-500/30 border-t-blue-500 rounded-full animate-spin" />
+          GENERATING...
+        </div>
+      )}
+
+      {error && !isLoading && (
+        <div className="flex items-center gap-2 text-red-400 text-xs font-mono bg-red-950/20 p-2 border border-red-900/50">
+          <AlertCircle size={14} />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {suggestions && !isLoading && (
+        suggestions.length === 0 ? (
+          <p className="text-xs font-mono text-slate-600 text-center py-4">NO SUGGESTIONS RETURNED</p>
+        ) : (
+          <div className="flex flex-col border border-blue-900/30 max-h-64 overflow-y-auto custom-scrollbar">
+            {suggestions.map((item, i) => (
+              <button
+                key={i}
+                onClick={() => toggle(i)}
+                className="flex items-start gap-3 px-3 py-2 text-left text-sm border-b border-blue-900/20 last:border-b-0 hover:bg-white/[0.02] transition-colors"
+              >
+                <div className={cn(
+                  "w-4 h-4 mt-0.5 border flex items-center justify-center flex-shrink-0 transition-all",
+                  selected.has(i) ? "bg-blue-600 border-blue-500" : "border-slate-700"
+                )}>
+                  {selected.has(i) && <Check size={12} className="text-white" />}
+                </div>
+                <div className={cn("min-w-0 flex-1", selected.has(i) ? "text-slate-200" : "text-slate-500")}>{renderItem(item)}</div>
+              </button>
+            ))}
+          </div>
+        )
+      )}
+
+      {suggestions && suggestions.length > 0 && !isLoading && (
+        <div className="flex gap-2 justify-end">
+          <Button onClick={handleAccept} disabled={selected.size === 0}>ADD SELECTED ({selected.size})</Button>
+        </div>
+      )}
+    </div>
+  );
+};
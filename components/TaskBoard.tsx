@@ -1,23 +1,37 @@
 import React, { useState, useEffect } from 'react';
-import { Task, TaskPriority } from '../types';
-import { DndContext, DragOverlay, closestCorners, KeyboardSensor, PointerSensor, useSensor, useSensors, DragStartEvent, DragEndEvent } from '@dnd-kit/core';
-import { arrayMove, SortableContext, sortableKeyboardCoordinates, verticalListSortingStrategy, useSortable } from '@dnd-kit/sortable';
+import { Category, CategoryColor, CategoryIcon, Task, TaskDraft, TaskPriority } from '../types';
+import { getColumnTasks, getSortedCategories } from '../services/ordering';
+import { ARCHIVE_CATEGORY_NAME, CATEGORY_COLORS, CategoryTaskDisposal, createCategory, findCategoryByName, getActiveCategories } from '../services/categories';
+import { describeRecurrence } from '../services/recurrence';
+import { parseQuickAdd } from '../services/quickAdd';
+import { DndContext, DragOverlay, closestCorners, pointerWithin, KeyboardSensor, PointerSensor, useSensor, useSensors, useDroppable, DragStartEvent, DragEndEvent, CollisionDetection } from '@dnd-kit/core';
+import { SortableContext, sortableKeyboardCoordinates, verticalListSortingStrategy, horizontalListSortingStrategy, useSortable } from '@dnd-kit/sortable';
 import { CSS } from '@dnd-kit/utilities';
 import { Button, Input, Modal, cn } from './ui';
-import { Check, GripHorizontal, Plus, Trash2, Menu, Pencil, X, AlertTriangle } from 'lucide-react';
+import { TaskDetailDrawer } from './TaskDetailDrawer';
+import { SuggestionPicker } from './SuggestionPicker';
+import { TaskImportPanel } from './TaskImportPanel';
+import { CATEGORY_STYLES, CategoryIconView, CategoryStylePicker } from './CategoryStyle';
+import { TaskSuggestion, suggestTasks } from '../services/ai';
+import { Check, GripHorizontal, Plus, Trash2, Menu, Pencil, X, AlertTriangle, Columns3, Rows3, CalendarDays, ListChecks, Repeat, Zap, Folder, Tag, FileUp, Archive, ArchiveRestore } from 'lucide-react';
+import { format, parseISO, isBefore, startOfToday } from 'date-fns';
 import { motion, AnimatePresence } from 'framer-motion';
 
 interface TaskBoardProps {
   tasks: Task[];
-  categories: string[];
-  onAddTask: (title: string, priority: TaskPriority, category: string) => void;
+  categories: Category[];
+  onAddTask: (title: string, priority: TaskPriority, categoryId: string) => void;
+  // `newCategories` are created along with the tasks, e.g. by an import
+  onAddTasks: (drafts: TaskDraft[], newCategories?: Category[]) => void;
   onUpdateTask: (id: string, updates: Partial<Task>) => void;
   onDeleteTask: (id: string) => void;
   onToggleTask: (id: string) => void;
-  onMoveTask: (taskId: string, newCategory: string, newIndex: number) => void;
-  onAddCategory: (name: string) => void;
-  onUpdateCategory: (oldName: string, newName: string) => void;
-  onDeleteCategory: (name: string) => void;
+  onMoveTask: (taskId: string, categoryId: string, newIndex: number) => void;
+  onAddCategory: (category: Category) => void;
+  onUpdateCategory: (id: string, updates: Partial<Category>) => void;
+  // `newIndex` counts every category, archived ones included
+  onMoveCategory: (id: string, newIndex: number) => void;
+  onDeleteCategory: (id: string, disposal: CategoryTaskDisposal) => void;
 }
 
 const PriorityBadge = ({ priority }: { priority: TaskPriority }) => {
@@ -34,16 +48,91 @@ const PriorityBadge = ({ priority }: { priority: TaskPriority }) => {
   );
 };
 
+const DueDateBadge = ({ dueDate, completed }: { dueDate: string; completed: boolean }) => {
+  const date = parseISO(dueDate);
+  const isOverdue = !completed && isBefore(date, startOfToday());
+
+  return (
+    <span className={cn("flex items-center gap-1 text-[10px] font-mono", isOverdue ? "text-red-400" : "text-slate-500")}>
+      <CalendarDays size={10} />
+      {format(date, 'MMM d').toUpperCase()}
+    </span>
+  );
+};
+
+interface QuickAddBarProps {
+  categories: Category[];
+  defaultCategory?: Category;
+  onSubmit: (draft: TaskDraft) => void;
+}
+
+// One-line task entry: "Ship release notes !high #Monthly tomorrow". The parsed
+// result is previewed under the input and added on Enter.
+const QuickAddBar: React.FC<QuickAddBarProps> = ({ categories, defaultCategory, onSubmit }) => {
+  const [text, setText] = useState('');
+  const parsed = text.trim() ? parseQuickAdd(text, categories.map(c => c.name)) : null;
+  const category = (parsed?.category && findCategoryByName(categories, parsed.category)) || defaultCategory;
+
+  const handleSubmit = () => {
+    if (!parsed?.title || !category) return;
+    onSubmit({
+      title: parsed.title,
+      priority: parsed.priority || 'MEDIUM',
+      categoryId: category.id,
+      dueDate: parsed.dueDate,
+      tags: parsed.tags.length > 0 ? parsed.tags : undefined
+    });
+    setText('');
+  };
+
+  return (
+    <div className="mb-4">
+      <div className="flex items-center gap-2 bg-slate-950 border border-blue-900/30 focus-within:border-blue-500 transition-colors px-3">
+        <Zap size={14} className="text-blue-500 flex-shrink-0" />
+        <input
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') handleSubmit();
+            if (e.key === 'Escape') setText('');
+          }}
+          placeholder="Quick add: Ship release notes !high #Work tomorrow"
+          className="flex-1 bg-transparent py-2 text-sm text-white placeholder:text-slate-600 focus:outline-none"
+        />
+      </div>
+      {parsed && (
+        <div className="flex flex-wrap items-center gap-3 px-3 py-2 border border-t-0 border-blue-900/30 bg-slate-900/40 text-xs">
+          <span className={cn("font-medium", parsed.title ? "text-slate-200" : "text-slate-600 italic")}>
+            {parsed.title || 'Missing title'}
+          </span>
+          <PriorityBadge priority={parsed.priority || 'MEDIUM'} />
+          <span className={cn("flex items-center gap-1 font-mono text-[10px] uppercase", parsed.category ? "text-blue-300" : "text-slate-500")}>
+            {category ? <CategoryIconView category={category} size={10} /> : <Folder size={10} />} {category?.name}
+          </span>
+          {parsed.dueDate && <DueDateBadge dueDate={parsed.dueDate} completed={false} />}
+          {parsed.tags.map(tag => (
+            <span key={tag} className="flex items-center gap-1 text-[10px] font-mono text-slate-400">
+              <Tag size={10} /> {tag}
+            </span>
+          ))}
+          <span className="ml-auto text-[10px] font-mono text-slate-600">ENTER TO ADD</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
 interface SortableTaskItemProps {
   task: Task;
   onToggle: (id: string) => void;
+  onOpen: (id: string) => void;
   isDeleting: boolean;
   onInitiateDelete: (id: string) => void;
   onConfirmDelete: (id: string) => void;
   onCancelDelete: () => void;
 }
 
-const SortableTaskItem: React.FC<SortableTaskItemProps> = ({ task, onToggle, isDeleting, onInitiateDelete, onConfirmDelete, onCancelDelete }) => {
+const SortableTaskItem: React.FC<SortableTaskItemProps> = ({ task, onToggle, onOpen, isDeleting, onInitiateDelete, onConfirmDelete, onCancelDelete }) => {
   const {
     attributes,
     listeners,
@@ -88,7 +177,7 @@ const SortableTaskItem: React.FC<SortableTaskItemProps> = ({ task, onToggle, isD
         <Check size={12} />
       </button>
 
-      <div className="flex-1 min-w-0 flex flex-col gap-1">
+      <div className="flex-1 min-w-0 flex flex-col gap-1 cursor-pointer" onClick={() => onOpen(task.id)} title="Open Details">
         <div className="flex items-center gap-2">
            <p className={cn(
             "text-sm text-slate-200 font-medium transition-all truncate",
@@ -98,6 +187,25 @@ const SortableTaskItem: React.FC<SortableTaskItemProps> = ({ task, onToggle, isD
           </p>
           <PriorityBadge priority={task.priority} />
         </div>
+        {(task.dueDate || task.recurrence || task.tags?.length || task.subtasks?.length) ? (
+          <div className="flex items-center gap-3 flex-wrap">
+            {task.dueDate && <DueDateBadge dueDate={task.dueDate} completed={task.completed} />}
+            {task.recurrence && (
+              <span className="text-slate-500" title={describeRecurrence(task.recurrence)}>
+                <Repeat size={10} />
+              </span>
+            )}
+            {task.subtasks && task.subtasks.length > 0 && (
+              <span className="flex items-center gap-1 text-[10px] font-mono text-slate-500">
+                <ListChecks size={10} />
+                {task.subtasks.filter(s => s.completed).length}/{task.subtasks.length}
+              </span>
+            )}
+            {task.tags?.map(tag => (
+              <span key={tag} className="text-[10px] font-mono text-blue-400/70">#{tag}</span>
+            ))}
+          </div>
+        ) : null}
       </div>
 
       <AnimatePresence mode="wait">
@@ -152,43 +260,229 @@ const SortableTaskItem: React.FC<SortableTaskItemProps> = ({ task, onToggle, isD
   );
 };
 
+type BoardView = 'TABS' | 'COLUMNS';
+
+// Category drop targets (tabs and columns) carry prefixed ids so they never collide with task ids
+const TAB_DROP_PREFIX = 'tab:';
+const COLUMN_DROP_PREFIX = 'column:';
+
+const isTabDrag = (args: Parameters<CollisionDetection>[0]) => !!args.active.data.current?.isTab;
+
+// A dragged tab only lands on other tabs. For tasks, tabs are small targets, so a
+// pointer over one wins; otherwise cards and columns compete by distance.
+const collisionDetection: CollisionDetection = (args) => {
+  if (isTabDrag(args)) {
+    return closestCorners({ ...args, droppableContainers: args.droppableContainers.filter(c => c.data.current?.isTab) });
+  }
+  const tabHits = pointerWithin(args).filter(c => String(c.id).startsWith(TAB_DROP_PREFIX));
+  return tabHits.length > 0 ? tabHits : closestCorners(args);
+};
+
+// Tabs take dropped tasks and can themselves be dragged to reorder the categories
+const SortableTab = ({ category, children, ...props }: { category: Category } & React.ButtonHTMLAttributes<HTMLButtonElement>) => {
+  const { attributes, listeners, setNodeRef, transform, transition, isDragging, isOver, active } = useSortable({
+    id: `${TAB_DROP_PREFIX}${category.id}`,
+    data: { categoryId: category.id, isTab: true }
+  });
+  const isTaskOver = isOver && !active?.data.current?.isTab;
+
+  return (
+    <button
+      ref={setNodeRef}
+      style={{ transform: CSS.Translate.toString(transform), transition }}
+      {...attributes}
+      {...listeners}
+      {...props}
+      className={cn(props.className, isTaskOver && "bg-blue-900/40 text-blue-200", isDragging && "opacity-50 z-10")}
+    >
+      {children}
+    </button>
+  );
+};
+
+interface BoardColumnProps {
+  category: Category;
+  tasks: Task[];
+  onAdd: () => void;
+  children?: React.ReactNode;
+}
+
+const BoardColumn: React.FC<BoardColumnProps> = ({ category, tasks, onAdd, children }) => {
+  const { setNodeRef, isOver } = useDroppable({ id: `${COLUMN_DROP_PREFIX}${category.id}`, data: { categoryId: category.id } });
+
+  return (
+    <div
+      ref={setNodeRef}
+      className={cn(
+        "w-80 flex-shrink-0 flex flex-col border bg-slate-950/30 transition-colors",
+        isOver ? "border-blue-500/60" : "border-blue-900/30"
+      )}
+    >
+      <div className={cn("h-0.5", CATEGORY_STYLES[category.color].bar)} />
+      <div className="flex items-center justify-between px-4 py-3 border-b border-blue-900/30">
+        <span className="flex items-center gap-2 min-w-0 text-sm font-mono tracking-widest font-bold uppercase text-white">
+          <CategoryIconView category={category} />
+          <span className="truncate">{category.name}</span>
+        </span>
+        <div className="flex items-center gap-2 flex-shrink-0">
+          <span className="text-[10px] font-mono text-slate-500">{tasks.filter(t => !t.completed).length}/{tasks.length}</span>
+          <button onClick={onAdd} className="text-slate-600 hover:text-blue-400 transition-colors" title={`Add to ${category.name}`}>
+            <Plus size={14} />
+          </button>
+        </div>
+      </div>
+      <div className="flex-1 overflow-y-auto custom-scrollbar p-2 space-y-2 min-h-[8rem]">
+        <SortableContext items={tasks.map(t => t.id)} strategy={verticalListSortingStrategy}>
+          {children}
+        </SortableContext>
+        {tasks.length === 0 && (
+          <div className="h-24 flex items-center justify-center text-slate-700 border border-dashed border-slate-800 font-mono text-[10px] uppercase tracking-widest">
+            Drop directives here
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+interface DeleteCategoryPanelProps {
+  category: Category;
+  taskCount: number;
+  // Categories the tasks can move to, archived ones included
+  targets: Category[];
+  choice: CategoryTaskDisposal['kind'];
+  target: string;
+  onChoiceChange: (choice: CategoryTaskDisposal['kind']) => void;
+  onTargetChange: (id: string) => void;
+  onConfirm: (choice: CategoryTaskDisposal['kind']) => void;
+  onCancel: () => void;
+}
+
+const DELETE_CHOICES: { kind: CategoryTaskDisposal['kind']; label: string }[] = [
+  { kind: 'MOVE', label: 'MOVE' },
+  { kind: 'ARCHIVE', label: 'ARCHIVE' },
+  { kind: 'DELETE', label: 'DELETE' }
+];
+
+// Confirmation for deleting a sector, with a choice of what happens to its directives
+const DeleteCategoryPanel: React.FC<DeleteCategoryPanelProps> = ({ category, taskCount, targets, choice, target, onChoiceChange, onTargetChange, onConfirm, onCancel }) => {
+  // The archive itself cannot be archived into
+  const choices = DELETE_CHOICES.filter(option =>
+    !(option.kind === 'ARCHIVE' && category.name.toLowerCase() === ARCHIVE_CATEGORY_NAME.toLowerCase()) &&
+    !(option.kind === 'MOVE' && targets.length === 0));
+  const activeChoice = choices.some(option => option.kind === choice) ? choice : choices[0].kind;
+
+  return (
+    <div className="flex flex-col gap-3 w-full animate-in fade-in">
+      <div className="flex flex-col gap-1">
+        <span className="font-mono text-sm text-red-400 font-bold flex items-center gap-2">
+          <AlertTriangle size={14} /> DELETE {category.name.toUpperCase()}?
+        </span>
+        <span className="text-xs text-slate-500">
+          {taskCount === 0
+            ? "This sector has no directives."
+            : `${taskCount} directive${taskCount === 1 ? '' : 's'} in this sector.`}
+        </span>
+      </div>
+
+      {taskCount > 0 && (
+        <>
+          <div className="flex gap-1">
+            {choices.map(option => (
+              <button
+                key={option.kind}
+                onClick={() => onChoiceChange(option.kind)}
+                className={cn(
+                  "flex-1 py-1.5 text-[10px] font-mono uppercase border transition-all",
+                  activeChoice === option.kind
+                    ? option.kind === 'DELETE' ? "bg-red-950/50 border-red-500 text-red-300" : "bg-blue-900/40 border-blue-500 text-white"
+                    : "bg-slate-950 border-slate-800 text-slate-500 hover:border-slate-600"
+                )}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+          {activeChoice === 'MOVE' && (
+            <select
+              value={target}
+              onChange={(e) => onTargetChange(e.target.value)}
+              className="bg-slate-950 border border-blue-900/30 text-white px-2 py-1.5 text-xs focus:outline-none focus:border-blue-500 rounded-none"
+            >
+              {targets.map(c => <option key={c.id} value={c.id}>{c.name}{c.archived ? ' (ARCHIVED)' : ''}</option>)}
+            </select>
+          )}
+          <p className="text-[10px] font-mono text-slate-500 uppercase">
+            {activeChoice === 'MOVE' && "Directives go to the end of the chosen sector."}
+            {activeChoice === 'ARCHIVE' && `Directives go to the archived "${ARCHIVE_CATEGORY_NAME}" sector.`}
+            {activeChoice === 'DELETE' && <span className="text-red-400">Directives are deleted with the sector.</span>}
+          </p>
+        </>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <Button variant="ghost" size="sm" onClick={onCancel}>CANCEL</Button>
+        <Button variant="danger" size="sm" onClick={() => onConfirm(activeChoice)}>
+          DELETE SECTOR
+        </Button>
+      </div>
+    </div>
+  );
+};
+
 export const TaskBoard: React.FC<TaskBoardProps> = ({ 
     tasks = [], 
     categories, 
     onAddTask, 
+    onAddTasks,
     onUpdateTask, 
     onDeleteTask, 
     onToggleTask, 
     onMoveTask,
     onAddCategory, 
     onUpdateCategory, 
+    onMoveCategory,
     onDeleteCategory 
 }) => {
-  const [activeTab, setActiveTab] = useState<string>(categories[0] || '');
+  const visibleCategories = getActiveCategories(categories);
+  const archivedCategories = getSortedCategories(categories).filter(c => c.archived);
+
+  // Id of the open category
+  const [activeTab, setActiveTab] = useState<string>(visibleCategories[0]?.id || '');
   const [activeId, setActiveId] = useState<string | null>(null);
+  const [boardView, setBoardView] = useState<BoardView>('TABS');
   
   // Task Modal State
   const [isTaskModalOpen, setIsTaskModalOpen] = useState(false);
   const [newTaskTitle, setNewTaskTitle] = useState('');
   const [newTaskPriority, setNewTaskPriority] = useState<TaskPriority>('MEDIUM');
+  const [isBreakdownMode, setIsBreakdownMode] = useState(false);
   const [deletingTaskId, setDeletingTaskId] = useState<string | null>(null);
+  const [openTaskId, setOpenTaskId] = useState<string | null>(null);
 
   // Category Modal State
   const [isCategoryModalOpen, setIsCategoryModalOpen] = useState(false);
   const [newCategoryName, setNewCategoryName] = useState('');
+  const [newCategoryStyle, setNewCategoryStyle] = useState<{ color: CategoryColor; icon: CategoryIcon }>({ color: 'BLUE', icon: 'FOLDER' });
+
+  // Import Modal State
+  const [isImportModalOpen, setIsImportModalOpen] = useState(false);
 
   // Category Management State
   const [isManageModalOpen, setIsManageModalOpen] = useState(false);
   const [editingCategory, setEditingCategory] = useState<string | null>(null);
   const [deletingCategory, setDeletingCategory] = useState<string | null>(null);
+  const [deleteChoice, setDeleteChoice] = useState<CategoryTaskDisposal['kind']>('MOVE');
+  const [deleteTarget, setDeleteTarget] = useState('');
   const [editValue, setEditValue] = useState('');
+  const [editStyle, setEditStyle] = useState<{ color: CategoryColor; icon: CategoryIcon }>({ color: 'BLUE', icon: 'FOLDER' });
 
-  // Ensure active tab exists in categories
+  const activeCategory: Category | undefined = categories.find((c: Category) => c.id === activeTab);
+
+  // Ensure the active tab is a visible category
   useEffect(() => {
-    if (categories.length > 0 && !categories.includes(activeTab)) {
-      setActiveTab(categories[0]);
-    } else if (!activeTab && categories.length > 0) {
-      setActiveTab(categories[0]);
+    if (visibleCategories.length > 0 && !visibleCategories.some(c => c.id === activeTab)) {
+      setActiveTab(visibleCategories[0].id);
     }
   }, [categories, activeTab]);
 
@@ -203,53 +497,137 @@ export const TaskBoard: React.FC<TaskBoardProps> = ({
 
   const handleDragEnd = (event: DragEndEvent) => {
     const { active, over } = event;
-    if (over && active.id !== over.id) {
-       const oldIndex = tasks.findIndex(t => t.id === active.id);
-       const newIndex = tasks.findIndex(t => t.id === over.id);
-       // We pass the new Index, but primarily we care if it stayed in the same filtered list
-       // Since we filter by column, dragging here is only reordering within the column
-       onMoveTask(active.id as string, activeTab, newIndex);
-    }
     setActiveId(null);
+    if (!over || active.id === over.id) return;
+
+    // A tab dropped on another tab takes its place in the full order
+    if (active.data.current?.isTab) {
+      const newIndex = getSortedCategories(categories).findIndex(c => c.id === over.data.current?.categoryId);
+      if (newIndex >= 0) onMoveCategory(active.data.current.categoryId, newIndex);
+      return;
+    }
+
+    // Dropped on a card: take its place. Dropped on a tab or column: go to the end of it.
+    const overTask = over.data.current?.task as Task | undefined;
+    const targetCategory: string | undefined = overTask ? overTask.categoryId : over.data.current?.categoryId;
+    if (!targetCategory) return;
+
+    const targetTasks = getColumnTasks(tasks, targetCategory);
+    const newIndex = overTask
+      ? targetTasks.findIndex(t => t.id === overTask.id)
+      : targetTasks.filter(t => t.id !== active.id).length;
+    onMoveTask(active.id as string, targetCategory, newIndex);
+  };
+
+  const openTaskModal = (categoryId: string) => {
+    setActiveTab(categoryId);
+    setIsBreakdownMode(false);
+    setIsTaskModalOpen(true);
   };
 
   const handleAddTask = () => {
-    if (!newTaskTitle.trim()) return;
+    if (!newTaskTitle.trim() || !activeTab) return;
     onAddTask(newTaskTitle, newTaskPriority, activeTab);
     setNewTaskTitle('');
     setNewTaskPriority('MEDIUM');
     setIsTaskModalOpen(false);
   };
 
+  // Suggestions without a matching category land in the category the modal was opened for
+  const handleAcceptBreakdown = (suggestions: TaskSuggestion[]) => {
+    onAddTasks(suggestions.map(s => ({
+      title: s.title,
+      priority: s.priority,
+      categoryId: (s.category && findCategoryByName(categories, s.category)?.id) || activeTab,
+      description: s.effort ? `Estimated effort: ${s.effort}` : undefined,
+      subtasks: s.subtasks.length > 0
+        ? s.subtasks.map(title => ({ id: crypto.randomUUID(), title, completed: false }))
+        : undefined
+    })));
+    setIsTaskModalOpen(false);
+  };
+
+  const handleImportTasks = (drafts: TaskDraft[], newCategories: Category[]) => {
+    onAddTasks(drafts, newCategories);
+    setIsImportModalOpen(false);
+  };
+
+  const openCategoryModal = () => {
+    setNewCategoryStyle({ color: CATEGORY_COLORS[categories.length % CATEGORY_COLORS.length], icon: 'FOLDER' });
+    setIsCategoryModalOpen(true);
+  };
+
   const handleAddCategory = (name: string) => {
     if (!name.trim()) return;
-    onAddCategory(name.trim());
-    setActiveTab(name.trim());
+    const existing = findCategoryByName(categories, name);
+    if (existing) {
+      if (existing.archived) onUpdateCategory(existing.id, { archived: false });
+      setActiveTab(existing.id);
+    } else {
+      const category = { ...createCategory(name, categories), ...newCategoryStyle };
+      onAddCategory(category);
+      setActiveTab(category.id);
+    }
     setNewCategoryName('');
     setIsCategoryModalOpen(false);
   };
 
-  const startEdit = (category: string) => {
-    setEditingCategory(category);
+  const startEdit = (category: Category) => {
+    setEditingCategory(category.id);
     setDeletingCategory(null);
-    setEditValue(category);
+    setEditValue(category.name);
+    setEditStyle({ color: category.color, icon: category.icon });
   };
 
-  const saveEdit = (oldName: string) => {
-    if (editValue.trim() !== oldName) {
-      onUpdateCategory(oldName, editValue);
-    }
+  const saveEdit = (category: Category) => {
+    const updates: Partial<Category> = {};
+    const name = editValue.trim();
+    const isTaken = categories.some(c => c.id !== category.id && c.name.toLowerCase() === name.toLowerCase());
+    if (name && name !== category.name && !isTaken) updates.name = name;
+    if (editStyle.color !== category.color) updates.color = editStyle.color;
+    if (editStyle.icon !== category.icon) updates.icon = editStyle.icon;
+    if (Object.keys(updates).length > 0) onUpdateCategory(category.id, updates);
     setEditingCategory(null);
     setEditValue('');
   };
 
-  const confirmDeleteCategory = (category: string) => {
-    onDeleteCategory(category);
+  // Tasks move to the first other visible category unless the user picks otherwise
+  const startDelete = (category: Category) => {
+    setDeletingCategory(category.id);
+    setEditingCategory(null);
+    setDeleteChoice('MOVE');
+    setDeleteTarget(visibleCategories.find(c => c.id !== category.id)?.id ?? categories.find((c: Category) => c.id !== category.id)?.id ?? '');
+  };
+
+  const confirmDeleteCategory = (id: string, choice: CategoryTaskDisposal['kind']) => {
+    const hasTasks = tasks.some(t => t.categoryId === id);
+    const disposal: CategoryTaskDisposal = !hasTasks || choice === 'DELETE'
+      ? { kind: 'DELETE' }
+      : choice === 'ARCHIVE' ? { kind: 'ARCHIVE' } : { kind: 'MOVE', categoryId: deleteTarget };
+    if (disposal.kind === 'MOVE' && !disposal.categoryId) return;
+    onDeleteCategory(id, disposal);
     setDeletingCategory(null);
   };
 
-  const filteredTasks = tasks.filter(t => t.column === activeTab);
+  const filteredTasks = getColumnTasks(tasks, activeTab);
   const activeTask = activeId ? tasks.find(t => t.id === activeId) : null;
+  const openTask = openTaskId ? tasks.find(t => t.id === openTaskId) : null;
+
+  const renderTask = (task: Task) => (
+    <SortableTaskItem 
+      key={task.id} 
+      task={task} 
+      onToggle={onToggleTask}
+      onOpen={setOpenTaskId}
+      isDeleting={deletingTaskId === task.id}
+      onInitiateDelete={setDeletingTaskId}
+      onConfirmDelete={(id) => {
+        onDeleteTask(id);
+        setDeletingTaskId(null);
+      }}
+      onCancelDelete={() => setDeletingTaskId(null)}
+    />
+  );
 
   return (
     <div className="h-full flex flex-col animate-in fade-in slide-in-from-bottom-4 duration-500">
@@ -259,6 +637,24 @@ export const TaskBoard: React.FC<TaskBoardProps> = ({
           <h2 className="text-2xl font-bold text-white tracking-tight">MISSION CONTROL</h2>
         </div>
         <div className="flex items-center gap-2">
+            <Button
+                onClick={() => setBoardView(boardView === 'TABS' ? 'COLUMNS' : 'TABS')}
+                size="sm"
+                variant="secondary"
+                title={boardView === 'TABS' ? "Column View" : "Tab View"}
+                className="px-2"
+            >
+                {boardView === 'TABS' ? <Columns3 size={14} /> : <Rows3 size={14} />}
+            </Button>
+            <Button
+                onClick={() => setIsImportModalOpen(true)}
+                size="sm"
+                variant="secondary"
+                title="Import Tasks"
+                className="px-2"
+            >
+                <FileUp size={14} />
+            </Button>
             <Button 
                 onClick={() => setIsManageModalOpen(true)} 
                 size="sm" 
@@ -268,132 +664,215 @@ export const TaskBoard: React.FC<TaskBoardProps> = ({
             >
                 <Menu size={14} />
             </Button>
-            <Button onClick={() => setIsTaskModalOpen(true)} size="sm" className="flex items-center gap-2">
+            <Button onClick={() => openTaskModal(activeTab)} size="sm" className="flex items-center gap-2">
                 <Plus size={14} /> NEW
             </Button>
         </div>
       </div>
 
-      {/* Tabs */}
-      <div className="flex items-center mb-4 border-b border-blue-900/30">
-        <div className="flex overflow-x-auto custom-scrollbar no-scrollbar gap-1 max-w-full">
-          {categories.map((tab) => (
-            <button
-              key={tab}
-              onClick={() => setActiveTab(tab)}
-              className={cn(
-                "px-6 py-3 text-sm font-mono tracking-widest font-bold uppercase transition-all relative flex-shrink-0 whitespace-nowrap",
-                activeTab === tab 
-                  ? "text-white bg-slate-900/50" 
-                  : "text-slate-500 hover:text-blue-300 hover:bg-slate-900/30"
-              )}
+      <QuickAddBar
+        categories={categories}
+        defaultCategory={activeCategory}
+        onSubmit={(draft) => onAddTasks([draft])}
+      />
+
+      <DndContext 
+          sensors={sensors} 
+          collisionDetection={collisionDetection} 
+          onDragStart={handleDragStart} 
+          onDragEnd={handleDragEnd}
+      >
+        {boardView === 'TABS' ? (
+          <>
+            {/* Tabs */}
+            <div className="flex items-center mb-4 border-b border-blue-900/30">
+              <div className="flex overflow-x-auto custom-scrollbar no-scrollbar gap-1 max-w-full">
+                <SortableContext items={visibleCategories.map(c => `${TAB_DROP_PREFIX}${c.id}`)} strategy={horizontalListSortingStrategy}>
+                  {visibleCategories.map((tab) => (
+                    <SortableTab
+                      key={tab.id}
+                      category={tab}
+                      onClick={() => setActiveTab(tab.id)}
+                      className={cn(
+                        "px-6 py-3 text-sm font-mono tracking-widest font-bold uppercase transition-all relative flex-shrink-0 whitespace-nowrap flex items-center gap-2",
+                        activeTab === tab.id 
+                          ? "text-white bg-slate-900/50" 
+                          : "text-slate-500 hover:text-blue-300 hover:bg-slate-900/30"
+                      )}
+                    >
+                      <CategoryIconView category={tab} />
+                      {tab.name}
+                      {activeTab === tab.id && (
+                        <motion.div 
+                          layoutId="activeTabIndicator"
+                          className={cn("absolute bottom-0 left-0 right-0 h-0.5", CATEGORY_STYLES[tab.color].bar)}
+                        />
+                      )}
+                    </SortableTab>
+                  ))}
+                </SortableContext>
+                
+                {/* Add Category Button */}
+                <button 
+                  onClick={openCategoryModal}
+                  className="px-4 py-3 text-slate-600 hover:text-blue-400 hover:bg-slate-900/30 transition-colors flex items-center justify-center border-l border-blue-900/20"
+                  title="Add Category"
+                >
+                  <Plus size={16} />
+                </button>
+              </div>
+            </div>
+
+            {/* Task List */}
+            <div className="flex-1 overflow-y-auto pr-2 custom-scrollbar relative">
+              <div className="space-y-3 pb-8">
+                <SortableContext items={filteredTasks.map(t => t.id)} strategy={verticalListSortingStrategy}>
+                  {filteredTasks.map(renderTask)}
+                </SortableContext>
+                
+                {filteredTasks.length === 0 && (
+                    <div className="h-32 flex flex-col items-center justify-center text-slate-700 border border-dashed border-slate-800 bg-slate-950/30">
+                        <p className="font-mono text-xs uppercase tracking-widest mb-2">No Active Directives</p>
+                        <p className="text-sm text-slate-800">Assign new tasks to proceed</p>
+                    </div>
+                )}
+              </div>
+            </div>
+          </>
+        ) : (
+          /* Columns */
+          <div className="flex-1 flex gap-4 overflow-x-auto custom-scrollbar pb-4">
+            {visibleCategories.map(category => {
+              const columnTasks = getColumnTasks(tasks, category.id);
+              return (
+                <BoardColumn key={category.id} category={category} tasks={columnTasks} onAdd={() => openTaskModal(category.id)}>
+                  {columnTasks.map(renderTask)}
+                </BoardColumn>
+              );
+            })}
+            <button 
+              onClick={openCategoryModal}
+              className="w-12 flex-shrink-0 text-slate-600 hover:text-blue-400 hover:bg-slate-900/30 transition-colors flex items-start justify-center pt-3 border border-dashed border-blue-900/20"
+              title="Add Category"
             >
-              {tab}
-              {activeTab === tab && (
-                <motion.div 
-                  layoutId="activeTabIndicator"
-                  className="absolute bottom-0 left-0 right-0 h-0.5 bg-blue-500"
-                />
-              )}
+              <Plus size={16} />
             </button>
-          ))}
-          
-          {/* Add Category Button */}
-          <button 
-            onClick={() => setIsCategoryModalOpen(true)}
-            className="px-4 py-3 text-slate-600 hover:text-blue-400 hover:bg-slate-900/30 transition-colors flex items-center justify-center border-l border-blue-900/20"
-            title="Add Category"
-          >
-            <Plus size={16} />
-          </button>
-        </div>
-      </div>
-
-      {/* Task List */}
-      <div className="flex-1 overflow-y-auto pr-2 custom-scrollbar relative">
-        <DndContext 
-            sensors={sensors} 
-            collisionDetection={closestCorners} 
-            onDragStart={handleDragStart} 
-            onDragEnd={handleDragEnd}
-        >
-          <div className="space-y-3 pb-8">
-            <SortableContext items={filteredTasks.map(t => t.id)} strategy={verticalListSortingStrategy}>
-              {filteredTasks.map(task => (
-                <SortableTaskItem 
-                  key={task.id} 
-                  task={task} 
-                  onToggle={onToggleTask}
-                  isDeleting={deletingTaskId === task.id}
-                  onInitiateDelete={setDeletingTaskId}
-                  onConfirmDelete={(id) => {
-                    onDeleteTask(id);
-                    setDeletingTaskId(null);
-                  }}
-                  onCancelDelete={() => setDeletingTaskId(null)}
-                />
-              ))}
-            </SortableContext>
-            
-            {filteredTasks.length === 0 && (
-                <div className="h-32 flex flex-col items-center justify-center text-slate-700 border border-dashed border-slate-800 bg-slate-950/30">
-                    <p className="font-mono text-xs uppercase tracking-widest mb-2">No Active Directives</p>
-                    <p className="text-sm text-slate-800">Assign new tasks to proceed</p>
-                </div>
-            )}
           </div>
+        )}
 
-          <DragOverlay>
-             {activeTask ? (
-                <div className="p-4 bg-slate-800 border border-blue-500 shadow-2xl opacity-90 cursor-grabbing w-full">
-                   <div className="flex items-center gap-2">
-                       <GripHorizontal size={16} className="text-blue-400"/>
-                       <p className="text-sm text-white font-medium">{activeTask.title}</p>
-                   </div>
-                </div>
-             ) : null}
-          </DragOverlay>
-        </DndContext>
-      </div>
+        <DragOverlay>
+           {activeTask ? (
+              <div className="p-4 bg-slate-800 border border-blue-500 shadow-2xl opacity-90 cursor-grabbing w-full">
+                 <div className="flex items-center gap-2">
+                     <GripHorizontal size={16} className="text-blue-400"/>
+                     <p className="text-sm text-white font-medium">{activeTask.title}</p>
+                 </div>
+              </div>
+           ) : null}
+        </DragOverlay>
+      </DndContext>
+
+      {/* Task Detail Drawer */}
+      <AnimatePresence>
+        {openTask && (
+          <TaskDetailDrawer
+            key={openTask.id}
+            task={openTask}
+            onClose={() => setOpenTaskId(null)}
+            onUpdateTask={onUpdateTask}
+          />
+        )}
+      </AnimatePresence>
 
       {/* Add Task Modal */}
       <Modal 
         isOpen={isTaskModalOpen} 
         onClose={() => setIsTaskModalOpen(false)} 
-        title={`ADD TO ${activeTab.toUpperCase()}`}
+        title={`ADD TO ${(activeCategory?.name ?? '').toUpperCase()}`}
       >
         <div className="flex flex-col gap-4">
-          <Input 
-            placeholder="Describe directive..." 
-            value={newTaskTitle}
-            onChange={(e) => setNewTaskTitle(e.target.value)}
-            onKeyDown={(e) => e.key === 'Enter' && handleAddTask()}
-            autoFocus
-          />
-          
-          <div className="flex gap-2 mb-2">
-             {(['HIGH', 'MEDIUM', 'LOW'] as TaskPriority[]).map(p => (
-                 <button 
-                    key={p}
-                    onClick={() => setNewTaskPriority(p)}
-                    className={cn(
-                        "flex-1 py-2 text-xs font-mono uppercase border transition-all",
-                        newTaskPriority === p 
-                            ? "bg-blue-900/40 border-blue-500 text-white" 
-                            : "bg-slate-950 border-slate-800 text-slate-500 hover:border-slate-600"
-                    )}
-                 >
-                    {p}
-                 </button>
-             ))}
+          <div className="flex gap-1">
+            {[{ label: 'SINGLE TASK', breakdown: false }, { label: 'BREAK DOWN PROJECT', breakdown: true }].map(option => (
+              <button
+                key={option.label}
+                onClick={() => setIsBreakdownMode(option.breakdown)}
+                className={cn(
+                  "flex-1 py-2 text-[10px] font-mono uppercase border transition-all",
+                  isBreakdownMode === option.breakdown
+                    ? "bg-blue-900/40 border-blue-500 text-white"
+                    : "bg-slate-950 border-slate-800 text-slate-500 hover:border-slate-600"
+                )}
+              >
+                {option.label}
+              </button>
+            ))}
           </div>
 
-          <div className="flex gap-2 justify-end">
-            <Button onClick={handleAddTask}>CONFIRM</Button>
-          </div>
+          {!isBreakdownMode && (
+            <Input 
+              placeholder="Describe directive..." 
+              value={newTaskTitle}
+              onChange={(e) => setNewTaskTitle(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleAddTask()}
+              autoFocus
+            />
+          )}
+          
+          {!isBreakdownMode && (
+            <div className="flex gap-2 mb-2">
+               {(['HIGH', 'MEDIUM', 'LOW'] as TaskPriority[]).map(p => (
+                   <button 
+                      key={p}
+                      onClick={() => setNewTaskPriority(p)}
+                      className={cn(
+                          "flex-1 py-2 text-xs font-mono uppercase border transition-all",
+                          newTaskPriority === p 
+                              ? "bg-blue-900/40 border-blue-500 text-white" 
+                              : "bg-slate-950 border-slate-800 text-slate-500 hover:border-slate-600"
+                      )}
+                   >
+                      {p}
+                   </button>
+               ))}
+            </div>
+          )}
+
+          {isBreakdownMode ? (
+            <SuggestionPicker
+              placeholder="E.g., Launch personal website..."
+              generate={(project) => suggestTasks(project, visibleCategories.map(c => c.name))}
+              renderItem={(suggestion) => (
+                <>
+                  <div className="flex items-center gap-2">
+                    <span className="truncate">{suggestion.title}</span>
+                    <PriorityBadge priority={suggestion.priority} />
+                  </div>
+                  <div className="flex gap-3 text-[10px] font-mono text-slate-500 uppercase mt-0.5">
+                    <span>→ {suggestion.category || activeCategory?.name}</span>
+                    {suggestion.effort && <span>~{suggestion.effort}</span>}
+                    {suggestion.subtasks.length > 0 && <span>{suggestion.subtasks.length} SUBTASKS</span>}
+                  </div>
+                </>
+              )}
+              onAccept={handleAcceptBreakdown}
+            />
+          ) : (
+            <div className="flex gap-2 justify-end">
+              <Button onClick={handleAddTask}>CONFIRM</Button>
+            </div>
+          )}
         </div>
       </Modal>
 
+      {/* Import Tasks Modal */}
+      <Modal
+        isOpen={isImportModalOpen}
+        onClose={() => setIsImportModalOpen(false)}
+        title="IMPORT TASKS"
+      >
+        <TaskImportPanel categories={categories} defaultCategory={activeCategory} onImport={handleImportTasks} />
+      </Modal>
+
       {/* Add Category Modal */}
       <Modal 
         isOpen={isCategoryModalOpen} 
@@ -408,6 +887,7 @@ export const TaskBoard: React.FC<TaskBoardProps> = ({
             onKeyDown={(e) => e.key === 'Enter' && handleAddCategory(newCategoryName)}
             autoFocus
           />
+          <CategoryStylePicker color={newCategoryStyle.color} icon={newCategoryStyle.icon} onChange={setNewCategoryStyle} />
           <div className="flex gap-2 justify-end">
             <Button onClick={() => handleAddCategory(newCategoryName)}>INITIALIZE</Button>
           </div>
@@ -428,69 +908,78 @@ export const TaskBoard: React.FC<TaskBoardProps> = ({
             {categories.length === 0 ? (
                 <p className="text-slate-500 text-sm text-center py-4">No sectors available.</p>
             ) : (
-                categories.map((cat) => (
+                [...visibleCategories, ...archivedCategories].map((cat, i) => (
+                    <React.Fragment key={cat.id}>
+                    {i === visibleCategories.length && (
+                        <p className="text-[10px] font-mono text-slate-500 uppercase tracking-widest mt-2">Archived</p>
+                    )}
                     <motion.div 
-                        key={cat} 
                         initial={{ opacity: 0, y: 5 }}
                         animate={{ opacity: 1, y: 0 }}
                         className={cn(
                           "flex items-center justify-between p-3 border transition-colors",
-                          deletingCategory === cat 
+                          deletingCategory === cat.id 
                             ? "bg-red-950/20 border-red-900/40" 
-                            : "bg-slate-900/30 border-blue-900/20 hover:bg-slate-900/50"
+                            : "bg-slate-900/30 border-blue-900/20 hover:bg-slate-900/50",
+                          cat.archived && deletingCategory !== cat.id && "opacity-60"
                         )}
                     >
-                        {editingCategory === cat ? (
-                            <div className="flex items-center gap-2 w-full animate-in fade-in">
-                                <Input 
-                                    value={editValue} 
-                                    onChange={(e) => setEditValue(e.target.value)}
-                                    className="h-8 text-sm py-1"
-                                    autoFocus
-                                    onKeyDown={(e) => e.key === 'Enter' && saveEdit(cat)}
-                                />
-                                <button onClick={() => saveEdit(cat)} className="text-green-500 hover:text-green-400 p-1">
-                                    <Check size={16}/>
-                                </button>
-                                <button onClick={() => setEditingCategory(null)} className="text-red-500 hover:text-red-400 p-1">
-                                    <X size={16}/>
-                                </button>
-                            </div>
-                        ) : deletingCategory === cat ? (
-                            <div className="flex items-center justify-between w-full animate-in fade-in">
-                                <span className="font-mono text-sm text-red-400 font-bold flex items-center gap-2">
-                                  <AlertTriangle size={14} /> DELETE?
-                                </span>
+                        {editingCategory === cat.id ? (
+                            <div className="flex flex-col gap-3 w-full animate-in fade-in">
                                 <div className="flex items-center gap-2">
-                                    <button 
-                                      onClick={() => confirmDeleteCategory(cat)} 
-                                      className="text-red-500 hover:text-red-400 bg-red-950/50 p-1.5 rounded-sm"
-                                    >
-                                        <Check size={14}/>
+                                    <Input 
+                                        value={editValue} 
+                                        onChange={(e) => setEditValue(e.target.value)}
+                                        className="h-8 text-sm py-1"
+                                        autoFocus
+                                        onKeyDown={(e) => e.key === 'Enter' && saveEdit(cat)}
+                                    />
+                                    <button onClick={() => saveEdit(cat)} className="text-green-500 hover:text-green-400 p-1">
+                                        <Check size={16}/>
                                     </button>
-                                    <button 
-                                      onClick={() => setDeletingCategory(null)} 
-                                      className="text-slate-500 hover:text-slate-300 bg-slate-900 p-1.5 rounded-sm"
-                                    >
-                                        <X size={14}/>
+                                    <button onClick={() => setEditingCategory(null)} className="text-red-500 hover:text-red-400 p-1">
+                                        <X size={16}/>
                                     </button>
                                 </div>
+                                <CategoryStylePicker color={editStyle.color} icon={editStyle.icon} onChange={setEditStyle} />
                             </div>
+                        ) : deletingCategory === cat.id ? (
+                            <DeleteCategoryPanel
+                                category={cat}
+                                taskCount={tasks.filter(t => t.categoryId === cat.id).length}
+                                targets={getSortedCategories(categories).filter(c => c.id !== cat.id)}
+                                choice={deleteChoice}
+                                target={deleteTarget}
+                                onChoiceChange={setDeleteChoice}
+                                onTargetChange={setDeleteTarget}
+                                onConfirm={(choice) => confirmDeleteCategory(cat.id, choice)}
+                                onCancel={() => setDeletingCategory(null)}
+                            />
                         ) : (
                             <>
-                                <span className="font-mono text-sm text-slate-300 truncate mr-2">{cat}</span>
+                                <span className="flex items-center gap-2 min-w-0 mr-2">
+                                    <CategoryIconView category={cat} />
+                                    <span className="font-mono text-sm text-slate-300 truncate">{cat.name}</span>
+                                </span>
                                 <div className="flex items-center gap-2 flex-shrink-0">
                                     <button 
                                         onClick={() => startEdit(cat)} 
                                         className="text-slate-600 hover:text-blue-400 p-1 transition-colors"
-                                        title="Rename Sector"
+                                        title="Edit Sector"
                                     >
                                         <Pencil size={14}/>
                                     </button>
+                                    <button 
+                                        onClick={() => onUpdateCategory(cat.id, { archived: !cat.archived })} 
+                                        className="text-slate-600 hover:text-amber-400 p-1 transition-colors"
+                                        title={cat.archived ? "Restore Sector" : "Archive Sector"}
+                                    >
+                                        {cat.archived ? <ArchiveRestore size={14}/> : <Archive size={14}/>}
+                                    </button>
                                     <button 
                                         onClick={(e) => {
                                           e.stopPropagation();
-                                          setDeletingCategory(cat);
+                                          startDelete(cat);
                                         }} 
                                         className="text-slate-600 hover:text-red-400 p-1 transition-colors cursor-pointer"
                                         title="Delete Sector"
@@ -502,11 +991,12 @@ export const TaskBoard: React.FC<TaskBoardProps> = ({
                             </>
                         )}
                     </motion.div>
+                    </React.Fragment>
                 ))
             )}
         </div>
         <div className="mt-4 pt-4 border-t border-blue-900/20 text-xs text-slate-600 text-center font-mono">
-            Modifying sectors will update all associated directives.
+            Drag tabs to reorder. Archived sectors keep their directives off the board.
         </div>
       </Modal>
     </div>
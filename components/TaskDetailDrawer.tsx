@@ -0,0 +1,310 @@
+import React, { useState } from 'react';
+import { Task, TaskPriority, Subtask, RecurrenceFrequency, RecurrenceRule } from '../types';
+import { describeRecurrence, getNextDueDate } from '../services/recurrence';
+import { Button, Input, cn } from './ui';
+import { Markdown } from './Markdown';
+import { Check, Plus, Trash2, X, Tag, CalendarDays, Repeat } from 'lucide-react';
+import { parseISO } from 'date-fns';
+import { motion } from 'framer-motion';
+
+interface TaskDetailDrawerProps {
+  task: Task;
+  onClose: () => void;
+  onUpdateTask: (id: string, updates: Partial<Task>) => void;
+}
+
+// The fields the drawer edits, held locally until saved
+type DrawerFields = Pick<Task, 'title' | 'priority' | 'description' | 'dueDate' | 'tags' | 'subtasks' | 'recurrence'>;
+
+const FREQUENCIES: RecurrenceFrequency[] = ['DAILY', 'WEEKDAYS', 'WEEKLY', 'MONTHLY', 'YEARLY'];
+const MONTHS = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+
+// Anchors month/day based rules on the due date, or today when there is none
+const createRule = (frequency: RecurrenceFrequency, dueDate?: string): RecurrenceRule => {
+  const anchor = dueDate ? parseISO(dueDate) : new Date();
+  switch (frequency) {
+    case 'WEEKLY':
+      return { frequency, interval: 1 };
+    case 'MONTHLY':
+      return { frequency, dayOfMonth: anchor.getDate() };
+    case 'YEARLY':
+      return { frequency, month: anchor.getMonth(), dayOfMonth: anchor.getDate() };
+    default:
+      return { frequency };
+  }
+};
+
+const toDrawerFields = (task: Task): DrawerFields => ({
+  title: task.title,
+  priority: task.priority,
+  description: task.description || '',
+  dueDate: task.dueDate || '',
+  tags: task.tags || [],
+  subtasks: task.subtasks || [],
+  recurrence: task.recurrence
+});
+
+export const TaskDetailDrawer: React.FC<TaskDetailDrawerProps> = ({ task, onClose, onUpdateTask }) => {
+  const [draft, setDraft] = useState<DrawerFields>(() => toDrawerFields(task));
+  const [isPreview, setIsPreview] = useState(!!task.description);
+  const [tagInput, setTagInput] = useState('');
+  const [subtaskInput, setSubtaskInput] = useState('');
+
+  const update = (changes: Partial<DrawerFields>) => setDraft(prev => ({ ...prev, ...changes }));
+
+  const addTag = () => {
+    const tag = tagInput.trim().replace(/^#/, '');
+    if (tag && !draft.tags?.includes(tag)) update({ tags: [...(draft.tags || []), tag] });
+    setTagInput('');
+  };
+
+  const addSubtask = () => {
+    if (!subtaskInput.trim()) return;
+    const subtask: Subtask = { id: crypto.randomUUID(), title: subtaskInput.trim(), completed: false };
+    update({ subtasks: [...(draft.subtasks || []), subtask] });
+    setSubtaskInput('');
+  };
+
+  const handleSave = () => {
+    if (!draft.title.trim()) return;
+    // Empty optional fields are cleared rather than stored as blanks
+    onUpdateTask(task.id, {
+      title: draft.title.trim(),
+      priority: draft.priority,
+      description: draft.description?.trim() || undefined,
+      dueDate: draft.dueDate || undefined,
+      tags: draft.tags?.length ? draft.tags : undefined,
+      subtasks: draft.subtasks?.length ? draft.subtasks : undefined,
+      recurrence: draft.recurrence
+    });
+    onClose();
+  };
+
+  const completedSubtasks = (draft.subtasks || []).filter(s => s.completed).length;
+  const updateRule = (changes: Partial<RecurrenceRule>) => update({ recurrence: { ...draft.recurrence!, ...changes } });
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end bg-black/60 backdrop-blur-sm" onClick={onClose}>
+      <motion.aside
+        initial={{ x: '100%' }}
+        animate={{ x: 0 }}
+        exit={{ x: '100%' }}
+        transition={{ type: 'tween', duration: 0.2 }}
+        onClick={(e) => e.stopPropagation()}
+        className="w-full max-w-lg h-full bg-slate-950 border-l border-blue-900 shadow-2xl shadow-blue-900/20 flex flex-col"
+      >
+        <div className="flex justify-between items-center p-4 border-b border-blue-900/30">
+          <h3 className="text-lg font-bold text-blue-50 uppercase tracking-widest">DIRECTIVE DETAIL</h3>
+          <button onClick={onClose} className="text-slate-500 hover:text-white">✕</button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-6 flex flex-col gap-6">
+          {/* Title */}
+          <div className="flex flex-col gap-2">
+            <label className="text-[10px] font-mono text-slate-500 uppercase tracking-widest">Title</label>
+            <Input value={draft.title} onChange={(e) => update({ title: e.target.value })} />
+          </div>
+
+          {/* Priority */}
+          <div className="flex gap-2">
+            {(['HIGH', 'MEDIUM', 'LOW'] as TaskPriority[]).map(p => (
+              <button
+                key={p}
+                onClick={() => update({ priority: p })}
+                className={cn(
+                  "flex-1 py-2 text-xs font-mono uppercase border transition-all",
+                  draft.priority === p
+                    ? "bg-blue-900/40 border-blue-500 text-white"
+                    : "bg-slate-950 border-slate-800 text-slate-500 hover:border-slate-600"
+                )}
+              >
+                {p}
+              </button>
+            ))}
+          </div>
+
+          {/* Due Date */}
+          <div className="flex flex-col gap-2">
+            <label className="text-[10px] font-mono text-slate-500 uppercase tracking-widest flex items-center gap-2">
+              <CalendarDays size={12} /> Due Date
+            </label>
+            <div className="flex gap-2">
+              <Input type="date" value={draft.dueDate} onChange={(e) => update({ dueDate: e.target.value })} className="[color-scheme:dark]" />
+              {draft.dueDate && (
+                <Button variant="ghost" size="icon" onClick={() => update({ dueDate: '' })} title="Clear Due Date">
+                  <X size={14} />
+                </Button>
+              )}
+            </div>
+          </div>
+
+          {/* Recurrence */}
+          <div className="flex flex-col gap-2">
+            <label className="text-[10px] font-mono text-slate-500 uppercase tracking-widest flex items-center justify-between">
+              <span className="flex items-center gap-2"><Repeat size={12} /> Repeat</span>
+              {draft.recurrence && (
+                <button onClick={() => update({ recurrence: undefined })} className="text-red-400/70 hover:text-red-400" title="Stop Series">
+                  STOP SERIES
+                </button>
+              )}
+            </label>
+            <div className="flex flex-wrap gap-1">
+              {FREQUENCIES.map(f => (
+                <button
+                  key={f}
+                  onClick={() => update({ recurrence: draft.recurrence?.frequency === f ? undefined : createRule(f, draft.dueDate) })}
+                  className={cn(
+                    "flex-1 py-1.5 text-[10px] font-mono uppercase border transition-all",
+                    draft.recurrence?.frequency === f
+                      ? "bg-blue-900/40 border-blue-500 text-white"
+                      : "bg-slate-950 border-slate-800 text-slate-500 hover:border-slate-600"
+                  )}
+                >
+                  {f}
+                </button>
+              ))}
+            </div>
+            {draft.recurrence?.frequency === 'WEEKLY' && (
+              <div className="flex items-center gap-2 text-xs font-mono text-slate-400">
+                EVERY
+                <Input
+                  type="number"
+                  min={1}
+                  value={draft.recurrence.interval ?? 1}
+                  onChange={(e) => updateRule({ interval: Math.max(1, parseInt(e.target.value) || 1) })}
+                  className="w-20 py-1"
+                />
+                WEEK(S)
+              </div>
+            )}
+            {(draft.recurrence?.frequency === 'MONTHLY' || draft.recurrence?.frequency === 'YEARLY') && (
+              <div className="flex items-center gap-2 text-xs font-mono text-slate-400">
+                ON
+                {draft.recurrence.frequency === 'YEARLY' && (
+                  <select
+                    value={draft.recurrence.month ?? 0}
+                    onChange={(e) => updateRule({ month: parseInt(e.target.value) })}
+                    className="bg-slate-950 border border-blue-900/30 text-white px-2 py-1 text-sm focus:outline-none focus:border-blue-500 rounded-none"
+                  >
+                    {MONTHS.map((m, i) => <option key={m} value={i}>{m}</option>)}
+                  </select>
+                )}
+                DAY
+                <Input
+                  type="number"
+                  min={1}
+                  max={31}
+                  value={draft.recurrence.dayOfMonth ?? 1}
+                  onChange={(e) => updateRule({ dayOfMonth: Math.min(31, Math.max(1, parseInt(e.target.value) || 1)) })}
+                  className="w-20 py-1"
+                />
+              </div>
+            )}
+            {draft.recurrence && (
+              <p className="text-[10px] font-mono text-slate-500">
+                {describeRecurrence(draft.recurrence).toUpperCase()} · NEXT AFTER COMPLETION: {getNextDueDate(draft.recurrence, draft.dueDate || undefined)}
+              </p>
+            )}
+          </div>
+
+          {/* Tags */}
+          <div className="flex flex-col gap-2">
+            <label className="text-[10px] font-mono text-slate-500 uppercase tracking-widest flex items-center gap-2">
+              <Tag size={12} /> Tags
+            </label>
+            {(draft.tags || []).length > 0 && (
+              <div className="flex flex-wrap gap-1">
+                {draft.tags!.map(tag => (
+                  <span key={tag} className="flex items-center gap-1 text-[10px] font-mono px-1.5 py-0.5 border border-blue-900/50 bg-blue-950/30 text-blue-300">
+                    #{tag}
+                    <button onClick={() => update({ tags: draft.tags!.filter(t => t !== tag) })} className="hover:text-white">
+                      <X size={10} />
+                    </button>
+                  </span>
+                ))}
+              </div>
+            )}
+            <Input
+              placeholder="Add tag and press Enter..."
+              value={tagInput}
+              onChange={(e) => setTagInput(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && addTag()}
+            />
+          </div>
+
+          {/* Subtasks */}
+          <div className="flex flex-col gap-2">
+            <label className="text-[10px] font-mono text-slate-500 uppercase tracking-widest flex justify-between">
+              <span>Subtasks</span>
+              {(draft.subtasks || []).length > 0 && <span>{completedSubtasks}/{draft.subtasks!.length}</span>}
+            </label>
+            {(draft.subtasks || []).map(subtask => (
+              <div key={subtask.id} className="group flex items-center gap-3 p-2 bg-slate-900/30 border border-blue-900/20">
+                <button
+                  onClick={() => update({ subtasks: draft.subtasks!.map(s => s.id === subtask.id ? { ...s, completed: !s.completed } : s) })}
+                  className={cn(
+                    "w-4 h-4 flex-shrink-0 border flex items-center justify-center transition-all",
+                    subtask.completed ? "bg-blue-600 border-blue-500 text-white" : "border-slate-600 text-transparent hover:border-blue-400"
+                  )}
+                >
+                  <Check size={10} />
+                </button>
+                <span className={cn("flex-1 text-sm text-slate-300 truncate", subtask.completed && "line-through text-slate-500")}>
+                  {subtask.title}
+                </span>
+                <button
+                  onClick={() => update({ subtasks: draft.subtasks!.filter(s => s.id !== subtask.id) })}
+                  className="opacity-0 group-hover:opacity-100 text-slate-600 hover:text-red-400 transition-all"
+                  title="Remove Subtask"
+                >
+                  <Trash2 size={12} />
+                </button>
+              </div>
+            ))}
+            <div className="flex gap-2">
+              <Input
+                placeholder="Add subtask..."
+                value={subtaskInput}
+                onChange={(e) => setSubtaskInput(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && addSubtask()}
+              />
+              <Button variant="secondary" size="icon" onClick={addSubtask} title="Add Subtask">
+                <Plus size={14} />
+              </Button>
+            </div>
+          </div>
+
+          {/* Description */}
+          <div className="flex flex-col gap-2">
+            <div className="flex justify-between items-center">
+              <label className="text-[10px] font-mono text-slate-500 uppercase tracking-widest">Description</label>
+              <div className="flex gap-2 text-[10px] font-mono">
+                <button onClick={() => setIsPreview(false)} className={cn(!isPreview ? "text-blue-400" : "text-slate-600 hover:text-slate-300")}>WRITE</button>
+                <button onClick={() => setIsPreview(true)} className={cn(isPreview ? "text-blue-400" : "text-slate-600 hover:text-slate-300")}>PREVIEW</button>
+              </div>
+            </div>
+            {isPreview ? (
+              <div className="min-h-[10rem] p-4 bg-slate-900/30 border border-blue-900/20 cursor-text" onClick={() => setIsPreview(false)}>
+                {draft.description?.trim()
+                  ? <Markdown source={draft.description} />
+                  : <p className="text-sm text-slate-600">Nothing to preview.</p>}
+              </div>
+            ) : (
+              <textarea
+                value={draft.description}
+                onChange={(e) => update({ description: e.target.value })}
+                placeholder="Markdown supported: **bold**, *italic*, `code`, - lists, # headings..."
+                className="min-h-[10rem] bg-slate-950 border border-blue-900/30 text-white px-4 py-2 text-sm font-mono placeholder:text-slate-600 focus:outline-none focus:border-blue-500 transition-colors w-full rounded-none resize-y"
+              />
+            )}
+          </div>
+        </div>
+
+        <div className="p-4 border-t border-blue-900/30 flex gap-2 justify-end">
+          <Button variant="ghost" onClick={onClose}>CANCEL</Button>
+          <Button onClick={handleSave}>SAVE</Button>
+        </div>
+      </motion.aside>
+    </div>
+  );
+};
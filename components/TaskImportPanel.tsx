@@ -0,0 +1,232 @@
+import React, { useState, useRef } from 'react';
+import { Category, TaskDraft } from '../types';
+import { createCategory, findCategoryByName } from '../services/categories';
+import { ImportedTask, TaskImportSource, parseMarkdownChecklist, parseTodoistCsv, parseTrelloBoard, toTaskDraft } from '../services/taskImport';
+import { AlertCircle, Check, FileUp } from 'lucide-react';
+import { Button, cn } from './ui';
+
+interface TaskImportPanelProps {
+  categories: Category[];
+  // Where tasks without a list or heading go by default
+  defaultCategory?: Category;
+  onImport: (drafts: TaskDraft[], newCategories: Category[]) => void;
+}
+
+const SOURCES: { source: TaskImportSource; label: string; accept: string; hint: string }[] = [
+  { source: 'MARKDOWN', label: 'MARKDOWN', accept: '.md,.markdown,.txt,text/markdown,text/plain', hint: 'Paste a checklist or choose a .md file. Headings become lists.' },
+  { source: 'TRELLO', label: 'TRELLO', accept: '.json,application/json', hint: 'Board menu → Print, export and share → Export as JSON.' },
+  { source: 'TODOIST', label: 'TODOIST', accept: '.csv,text/csv', hint: 'Project menu → Export as a template → CSV. Sections become lists.' }
+];
+
+// Group targets besides the ids of existing categories
+const SKIP = '__skip__';
+const CREATE = '__create__';
+
+const PRIORITY_COLORS = {
+  HIGH: 'text-red-400',
+  MEDIUM: 'text-amber-400',
+  LOW: 'text-blue-300'
+};
+
+// Fallback name for tasks that came without a list or heading
+const getGroupName = (group: string, defaultCategory?: Category) => group || defaultCategory?.name || 'Imported';
+
+const parseSource = (source: TaskImportSource, text: string, filename: string): ImportedTask[] => {
+  switch (source) {
+    case 'MARKDOWN':
+      return parseMarkdownChecklist(text);
+    case 'TRELLO': {
+      let raw: unknown;
+      try {
+        raw = JSON.parse(text);
+      } catch {
+        throw new Error("The file is not valid JSON");
+      }
+      return parseTrelloBoard(raw);
+    }
+    case 'TODOIST':
+      return parseTodoistCsv(text, filename.replace(/\.[^.]+$/, ''));
+  }
+};
+
+// Two steps: read tasks from another tool, then map each of its lists onto a
+// category (existing, new, or skipped) and pick which tasks to bring over.
+export const TaskImportPanel: React.FC<TaskImportPanelProps> = ({ categories, defaultCategory, onImport }) => {
+  const [source, setSource] = useState<TaskImportSource>('MARKDOWN');
+  const [text, setText] = useState('');
+  const [items, setItems] = useState<ImportedTask[] | null>(null);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [targets, setTargets] = useState<Record<string, string>>({});
+  const [error, setError] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const sourceInfo = SOURCES.find(s => s.source === source)!;
+
+  const load = (content: string, filename: string) => {
+    setError('');
+    try {
+      const parsed = parseSource(source, content, filename);
+      const groups = [...new Set(parsed.map(t => t.group))];
+      setItems(parsed);
+      // Finished tasks are listed but left out unless picked
+      setSelected(new Set(parsed.flatMap((t, i) => t.completed ? [] : [i])));
+      setTargets(Object.fromEntries(groups.map(group => {
+        const existing = findCategoryByName(categories, getGroupName(group, defaultCategory));
+        return [group, existing?.id ?? CREATE];
+      })));
+    } catch (e) {
+      setItems(null);
+      setError(e instanceof Error ? e.message : 'Unreadable file');
+    }
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) load(await file.text(), file.name);
+  };
+
+  const toggle = (index: number) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(index)) next.delete(index);
+      else next.add(index);
+      return next;
+    });
+  };
+
+  const groups = items ? [...new Set<string>(items.map((t: ImportedTask) => t.group))] : [];
+  const included = items ? items.filter((t, i) => selected.has(i) && targets[t.group] !== SKIP) : [];
+
+  const handleImport = () => {
+    // Groups mapped to "new" share a category when their names match
+    const newCategories: Category[] = [];
+    const resolve = (group: string) => {
+      if (targets[group] !== CREATE) return targets[group];
+      const name = getGroupName(group, defaultCategory);
+      const created = findCategoryByName(newCategories, name) ?? createCategory(name, [...categories, ...newCategories]);
+      if (!newCategories.includes(created)) newCategories.push(created);
+      return created.id;
+    };
+    const drafts = included.map(t => toTaskDraft(t, resolve(t.group)));
+    onImport(drafts, newCategories);
+  };
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="flex gap-1">
+        {SOURCES.map(option => (
+          <button
+            key={option.source}
+            onClick={() => {
+              setSource(option.source);
+              setItems(null);
+              setError('');
+            }}
+            className={cn(
+              "flex-1 py-2 text-[10px] font-mono uppercase border transition-all",
+              source === option.source
+                ? "bg-blue-900/40 border-blue-500 text-white"
+                : "bg-slate-950 border-slate-800 text-slate-500 hover:border-slate-600"
+            )}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      <p className="text-xs text-slate-500">{sourceInfo.hint}</p>
+
+      {source === 'MARKDOWN' && !items && (
+        <textarea
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          placeholder={"## Launch\n- [ ] Write announcement !high\n- [x] Freeze features\n  - [ ] Sub-step"}
+          className="min-h-[8rem] bg-slate-950 border border-blue-900/30 text-white px-4 py-2 text-sm font-mono placeholder:text-slate-600 focus:outline-none focus:border-blue-500 transition-colors w-full rounded-none resize-y"
+        />
+      )}
+
+      {!items && (
+        <div className="flex gap-2 justify-end">
+          <Button variant="secondary" size="sm" onClick={() => fileInputRef.current?.click()} className="flex items-center gap-2">
+            <FileUp size={12} /> CHOOSE FILE
+          </Button>
+          {source === 'MARKDOWN' && (
+            <Button size="sm" onClick={() => load(text, '')} disabled={!text.trim()}>PREVIEW</Button>
+          )}
+          <input ref={fileInputRef} type="file" accept={sourceInfo.accept} className="hidden" onChange={handleFile} />
+        </div>
+      )}
+
+      {error && (
+        <div className="flex items-center gap-2 text-red-400 text-xs font-mono bg-red-950/20 p-2 border border-red-900/50">
+          <AlertCircle size={14} className="flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {items && (
+        <>
+          <div className="flex flex-col gap-1">
+            <p className="text-[10px] font-mono text-slate-500 uppercase tracking-widest">Map lists to sectors</p>
+            {groups.map(group => (
+              <div key={group} className="flex items-center gap-2 text-xs">
+                <span className="flex-1 truncate text-slate-300 font-mono uppercase" title={group}>{group || 'NO LIST'}</span>
+                <span className="text-[10px] font-mono text-slate-600">{items.filter(t => t.group === group).length}</span>
+                <select
+                  value={targets[group]}
+                  onChange={(e) => setTargets(prev => ({ ...prev, [group]: e.target.value }))}
+                  className="w-44 bg-slate-950 border border-blue-900/30 text-white px-2 py-1 text-xs focus:outline-none focus:border-blue-500 rounded-none"
+                >
+                  {!findCategoryByName(categories, getGroupName(group, defaultCategory)) && (
+                    <option value={CREATE}>+ NEW: {getGroupName(group, defaultCategory)}</option>
+                  )}
+                  {categories.map((c: Category) => <option key={c.id} value={c.id}>{c.name}{c.archived ? ' (ARCHIVED)' : ''}</option>)}
+                  <option value={SKIP}>SKIP</option>
+                </select>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex flex-col border border-blue-900/30 max-h-56 overflow-y-auto custom-scrollbar">
+            {items.map((task, i) => {
+              const isSkipped = targets[task.group] === SKIP;
+              const isOn = selected.has(i) && !isSkipped;
+              return (
+                <button
+                  key={i}
+                  onClick={() => toggle(i)}
+                  disabled={isSkipped}
+                  className="flex items-start gap-3 px-3 py-2 text-left text-sm border-b border-blue-900/20 last:border-b-0 hover:bg-white/[0.02] transition-colors disabled:opacity-40"
+                >
+                  <div className={cn(
+                    "w-4 h-4 mt-0.5 border flex items-center justify-center flex-shrink-0 transition-all",
+                    isOn ? "bg-blue-600 border-blue-500" : "border-slate-700"
+                  )}>
+                    {isOn && <Check size={12} className="text-white" />}
+                  </div>
+                  <div className={cn("min-w-0 flex-1", isOn ? "text-slate-200" : "text-slate-500")}>
+                    <div className={cn("truncate", task.completed && "line-through")}>{task.title}</div>
+                    <div className="flex gap-3 text-[10px] font-mono uppercase mt-0.5 text-slate-500">
+                      <span className={PRIORITY_COLORS[task.priority]}>{task.priority}</span>
+                      {task.completed && <span>DONE</span>}
+                      {task.dueDate && <span>DUE {task.dueDate}</span>}
+                      {task.subtasks && <span>{task.subtasks.length} SUBTASKS</span>}
+                      {task.tags && <span className="truncate">#{task.tags.join(' #')}</span>}
+                    </div>
+                  </div>
+                </button>
+              );
+            })}
+          </div>
+
+          <div className="flex gap-2 justify-end">
+            <Button variant="ghost" size="sm" onClick={() => setItems(null)}>BACK</Button>
+            <Button size="sm" onClick={handleImport} disabled={included.length === 0}>
+              IMPORT {included.length} TASK{included.length === 1 ? '' : 'S'}
+            </Button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
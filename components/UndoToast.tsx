@@ -0,0 +1,46 @@
+import React, { useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Undo2, X } from 'lucide-react';
+import { HistoryEntry } from '../services/history';
+
+interface UndoToastProps {
+  // The deletion to offer undoing, or null to hide the toast
+  entry: HistoryEntry | null;
+  onUndo: () => void;
+  onDismiss: () => void;
+}
+
+const TOAST_DURATION = 6000;
+
+export const UndoToast: React.FC<UndoToastProps> = ({ entry, onUndo, onDismiss }) => {
+  useEffect(() => {
+    if (!entry) return;
+    const timer = setTimeout(onDismiss, TOAST_DURATION);
+    return () => clearTimeout(timer);
+  }, [entry]);
+
+  return (
+    <AnimatePresence>
+      {entry && (
+        <motion.div
+          initial={{ opacity: 0, y: 16 }}
+          animate={{ opacity: 1, y: 0 }}
+          exit={{ opacity: 0, y: 16 }}
+          className="fixed bottom-6 left-1/2 -translate-x-1/2 z-[60] flex items-center gap-4 bg-slate-950 border border-blue-900/50 shadow-lg shadow-black/50 px-4 py-3 font-mono text-xs"
+        >
+          <span className="text-slate-300 uppercase tracking-wider">{entry.label}</span>
+          <button
+            onClick={onUndo}
+            className="flex items-center gap-1.5 text-blue-400 hover:text-blue-300 uppercase font-bold transition-colors"
+            title="Undo (Ctrl+Z)"
+          >
+            <Undo2 size={14} /> Undo
+          </button>
+          <button onClick={onDismiss} className="text-slate-600 hover:text-slate-300 transition-colors" title="Dismiss">
+            <X size={14} />
+          </button>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
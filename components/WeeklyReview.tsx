@@ -0,0 +1,136 @@
+import React, { useState, useMemo } from 'react';
+import { Category, Habit, ProtocolType, Task } from '../types';
+import { StreakChange, getWeeklyReviewStats } from '../services/weeklyReview';
+import { WeeklyReviewSummary, getAiProviderName, summarizeWeek } from '../services/ai';
+import { format } from 'date-fns';
+import { AlertCircle, Sparkles } from 'lucide-react';
+import { Button, cn } from './ui';
+
+interface WeeklyReviewProps {
+  habitsByType: Record<ProtocolType, Habit[]>;
+  tasks: Task[];
+  categories: Category[];
+}
+
+const CHANGE_STYLES: Record<StreakChange, string> = {
+  KEPT: "text-blue-300 border-blue-900/50 bg-blue-950/30",
+  STARTED: "text-emerald-400 border-emerald-900/50 bg-emerald-950/30",
+  BROKEN: "text-red-400 border-red-900/50 bg-red-950/30",
+  NONE: "text-slate-500 border-slate-800 bg-slate-900/30"
+};
+
+const formatRate = (rate: number | null) => rate === null ? '–' : `${Math.round(rate * 100)}%`;
+
+const Stat: React.FC<{ label: string; value: string }> = ({ label, value }) => (
+  <div className="border border-blue-900/30 bg-slate-950/50 p-4 flex flex-col gap-1">
+    <span className="text-[10px] font-mono text-slate-500 uppercase tracking-widest">{label}</span>
+    <span className="text-2xl font-bold text-white font-mono">{value}</span>
+  </div>
+);
+
+// Last seven days at a glance. The numbers are computed locally; the AI only
+// adds a narrative on request, so the review works without an API key.
+export const WeeklyReview: React.FC<WeeklyReviewProps> = ({ habitsByType, tasks, categories }) => {
+  const stats = useMemo(() => getWeeklyReviewStats(habitsByType, tasks, categories), [habitsByType, tasks, categories]);
+  const [summary, setSummary] = useState<WeeklyReviewSummary | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+  const providerName = getAiProviderName();
+
+  const handleSummarize = async () => {
+    setIsLoading(true);
+    setError('');
+    try {
+      setSummary(await summarizeWeek(stats));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Summary unavailable');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-6">
+      <div className="font-mono text-xs text-slate-500">
+        {format(stats.start, 'MMM d').toUpperCase()} – {format(stats.end, 'MMM d, yyyy').toUpperCase()}
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <Stat label="Daily completion" value={formatRate(stats.dailyRate)} />
+        <Stat label="Streaks kept" value={String(stats.habits.filter(h => h.change === 'KEPT' || h.change === 'STARTED').length)} />
+        <Stat label="Tasks added" value={String(stats.tasksAdded)} />
+        <Stat label="Tasks completed" value={String(stats.tasksCompleted)} />
+      </div>
+
+      <div className="border border-blue-900/30 bg-slate-950/50 backdrop-blur p-4">
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="text-[10px] font-mono text-slate-500 uppercase tracking-widest">Summary</h3>
+          <div className="flex items-center gap-3">
+            {providerName && <span className="text-[10px] font-mono text-slate-600 uppercase">VIA {providerName}</span>}
+            <Button size="sm" variant="secondary" onClick={handleSummarize} disabled={isLoading} className="flex items-center gap-2">
+              <Sparkles size={12} /> {summary ? 'REGENERATE' : 'GENERATE SUMMARY'}
+            </Button>
+          </div>
+        </div>
+        {isLoading && (
+          <div className="flex items-center gap-3 py-4 text-xs font-mono text-slate-500">
+            <div className="w-4 h-4 border-2 border-blue-500/30 border-t-blue-500 rounded-full animate-spin" />
+            ANALYZING WEEK...
+          </div>
+        )}
+        {error && !isLoading && (
+          <div className="flex items-center gap-2 text-red-400 text-xs font-mono bg-red-950/20 p-2 border border-red-900/50">
+            <AlertCircle size={14} />
+            <span>{error}</span>
+          </div>
+        )}
+        {summary && !isLoading && (
+          <div className="flex flex-col gap-3">
+            <p className="text-sm text-slate-300 leading-relaxed">{summary.summary}</p>
+            {summary.adjustments.length > 0 && (
+              <ul className="flex flex-col gap-1">
+                {summary.adjustments.map((adjustment, i) => (
+                  <li key={i} className="text-sm text-slate-400 flex gap-2">
+                    <span className="text-blue-500 font-mono">→</span> {adjustment}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+        {!summary && !isLoading && !error && (
+          <p className="text-xs font-mono text-slate-600">Generate a narrative summary and suggested adjustments from the stats below.</p>
+        )}
+      </div>
+
+      <div className="grid gap-6 md:grid-cols-2">
+        <div className="border border-blue-900/30 bg-slate-950/50 backdrop-blur">
+          <h3 className="text-[10px] font-mono text-slate-500 uppercase tracking-widest px-4 py-2 border-b border-blue-900/50">Habits</h3>
+          {stats.habits.length === 0 && <p className="text-xs font-mono text-slate-600 p-4">NO PROTOCOLS DEFINED</p>}
+          {stats.habits.map((habit, i) => (
+            <div key={i} className="flex items-center gap-3 px-4 py-2 border-b border-blue-900/20 last:border-b-0 text-sm">
+              <span className="flex-1 text-slate-300 truncate">{habit.title}</span>
+              <span className="text-[10px] font-mono text-slate-600">{habit.type}</span>
+              <span className="w-10 text-right font-mono text-xs text-blue-300">{formatRate(habit.rate)}</span>
+              <span className={cn("w-20 text-center text-[10px] font-mono px-1.5 py-0.5 border", CHANGE_STYLES[habit.change])}>
+                {habit.change === 'NONE' ? 'NO STREAK' : `${habit.change} ${habit.streak.length}${habit.streak.unit[0]}`}
+              </span>
+            </div>
+          ))}
+        </div>
+
+        <div className="border border-blue-900/30 bg-slate-950/50 backdrop-blur">
+          <h3 className="text-[10px] font-mono text-slate-500 uppercase tracking-widest px-4 py-2 border-b border-blue-900/50">Tasks by category</h3>
+          {stats.categories.length === 0 && <p className="text-xs font-mono text-slate-600 p-4">NO TASK ACTIVITY THIS WEEK</p>}
+          {stats.categories.map(category => (
+            <div key={category.category} className="flex items-center gap-3 px-4 py-2 border-b border-blue-900/20 last:border-b-0 text-sm">
+              <span className="flex-1 text-slate-300 uppercase font-mono text-xs truncate">{category.category}</span>
+              <span className="font-mono text-xs text-slate-500">+{category.added} ADDED</span>
+              <span className="font-mono text-xs text-blue-300 w-24 text-right">{category.completed} DONE</span>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
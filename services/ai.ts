@@ -1,69 +1,173 @@
-import { GoogleGenAI, Type } from "@google/genai";
+import { format } from "date-fns";
+import { ProtocolType, TaskPriority } from "../types";
+import { AiError, AiProvider, AiRequest, createConfiguredProvider } from "./aiProviders";
+import { WeeklyReviewStats } from "./weeklyReview";
 
-// Helper to get safe API key
-const getApiKey = (): string | undefined => {
-  return process.env.API_KEY;
+const DEFAULT_TIMEOUT_MS = 20000;
+
+let provider: AiProvider | null = null;
+
+// The provider is created on first use, so a misconfiguration surfaces as an
+// AiError from the suggestion call rather than at startup.
+const getProvider = () => {
+  if (!provider) provider = createConfiguredProvider();
+  return provider;
 };
 
-export const suggestHabits = async (goal: string): Promise<string[]> => {
-  const apiKey = getApiKey();
-  if (!apiKey) {
-    console.warn("No API Key found");
-    return ["Drink 2L water", "Read 10 pages", "10 min meditation"]; // Fallback
+// Name of the active provider (e.g. "mock"), or null when it is misconfigured
+export const getAiProviderName = (): string | null => {
+  try {
+    return getProvider().name;
+  } catch {
+    return null;
   }
+};
 
-  const ai = new GoogleGenAI({ apiKey });
-  
+// Replaces the configured provider, e.g. with a mock in tests; null restores the configured one
+export const setAiProvider = (next: AiProvider | null) => {
+  provider = next;
+};
+
+const getTimeout = () => Number(process.env.AI_TIMEOUT_MS) || DEFAULT_TIMEOUT_MS;
+
+const generate = async (request: AiRequest): Promise<unknown> => {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), getTimeout());
   try {
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
-      contents: `Suggest 5 short, actionable daily habits for someone who wants to: ${goal}. Keep them under 5 words each.`,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.ARRAY,
-          items: {
-            type: Type.STRING
-          }
-        }
-      }
-    });
+    return await getProvider().generateJson(request, controller.signal);
+  } finally {
+    clearTimeout(timer);
+  }
+};
 
-    const text = response.text;
-    if (!text) return [];
-    return JSON.parse(text) as string[];
+const asString = (value: unknown) => typeof value === 'string' && value.trim() ? value.trim() : undefined;
+
+export const suggestHabits = async (goal: string, type: ProtocolType = 'DAILY'): Promise<string[]> => {
+  try {
+    const raw = await generate({
+      kind: 'habits',
+      prompt: `Suggest 5 short, actionable ${type.toLowerCase()} habits for someone who wants to: ${goal}. Keep them under 5 words each.`,
+      schema: { type: 'array', items: { type: 'string' } }
+    });
+    if (!Array.isArray(raw)) throw new AiError("Expected a list of habits", 'BAD_RESPONSE');
+    return raw.map(asString).filter((s): s is string => !!s);
   } catch (error) {
     console.error("AI Habit Generation Error:", error);
-    return [];
+    throw error;
   }
 };
 
-export const suggestTasks = async (project: string): Promise<string[]> => {
-  const apiKey = getApiKey();
-  if (!apiKey) return ["Plan project", "Execute phase 1", "Review"];
+export interface TaskSuggestion {
+  title: string;
+  priority: TaskPriority;
+  // Free-form estimate, e.g. "2h" or "1 day"
+  effort?: string;
+  subtasks: string[];
+  // One of the user's existing categories, when the model picked a valid one
+  category?: string;
+}
+
+const PRIORITIES: TaskPriority[] = ['HIGH', 'MEDIUM', 'LOW'];
 
-  const ai = new GoogleGenAI({ apiKey });
+// The model's output is untrusted: malformed items are dropped and fields that
+// fall outside the allowed values are defaulted or left out.
+export const parseTaskSuggestions = (raw: unknown, categories: string[]): TaskSuggestion[] => {
+  if (!Array.isArray(raw)) throw new AiError("Expected a list of tasks", 'BAD_RESPONSE');
+
+  return raw.flatMap((item): TaskSuggestion[] => {
+    if (!item || typeof item !== 'object') return [];
+    const record = item as Record<string, unknown>;
+    const title = asString(record.title);
+    if (!title) return [];
+
+    const priority = asString(record.priority)?.toUpperCase() as TaskPriority | undefined;
+    const category = asString(record.category)?.toLowerCase();
+    return [{
+      title,
+      priority: priority && PRIORITIES.includes(priority) ? priority : 'MEDIUM',
+      effort: asString(record.effort),
+      subtasks: Array.isArray(record.subtasks)
+        ? record.subtasks.map(asString).filter((s): s is string => !!s)
+        : [],
+      category: categories.find(c => c.toLowerCase() === category)
+    }];
+  });
+};
+
+export const suggestTasks = async (project: string, categories: string[] = []): Promise<TaskSuggestion[]> => {
+  const categoryHint = categories.length > 0
+    ? ` Assign each task the best fitting category from: ${categories.join(', ')}.`
+    : '';
 
   try {
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
-      contents: `Break down this project into 3-5 high-level tasks: ${project}.`,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.ARRAY,
-          items: {
-            type: Type.STRING
-          }
+    const raw = await generate({
+      kind: 'tasks',
+      prompt: `Break down this project into an actionable plan of 3-8 tasks, ordered as they should be done: ${project}. ` +
+        `Give each task a priority (HIGH, MEDIUM or LOW), a short effort estimate such as "2h" or "1 day", ` +
+        `and up to 5 subtasks when the task has distinct steps.${categoryHint}`,
+      schema: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            title: { type: 'string' },
+            priority: { type: 'string', enum: PRIORITIES },
+            effort: { type: 'string' },
+            subtasks: { type: 'array', items: { type: 'string' } },
+            ...(categories.length > 0 && { category: { type: 'string', enum: categories } })
+          },
+          required: ["title", "priority"]
         }
       }
     });
-
-    const text = response.text;
-    if (!text) return [];
-    return JSON.parse(text) as string[];
+    return parseTaskSuggestions(raw, categories);
   } catch (error) {
     console.error("AI Task Generation Error:", error);
-    return [];
+    throw error;
+  }
+};
+
+export interface WeeklyReviewSummary {
+  summary: string;
+  adjustments: string[];
+}
+
+const formatRate = (rate: number | null) => rate === null ? 'n/a' : `${Math.round(rate * 100)}%`;
+
+// Narrative summary of the raw weekly stats. Habit titles and aggregates are sent;
+// task titles stay local.
+export const summarizeWeek = async (stats: WeeklyReviewStats): Promise<WeeklyReviewSummary> => {
+  const habitLines = stats.habits.map(h =>
+    `- ${h.title} (${h.type.toLowerCase()}): ${formatRate(h.rate)} done, streak ${h.previousStreak} -> ${h.streak.length} ${h.streak.unit.toLowerCase()}s (${h.change.toLowerCase()})`);
+  const categoryLines = stats.categories.map(c => `- ${c.category}: ${c.added} added, ${c.completed} completed`);
+
+  try {
+    const raw = await generate({
+      kind: 'weeklyReview',
+      prompt: `Write a short weekly review (2-4 sentences, second person, encouraging but honest) of this habit and task data ` +
+        `for ${format(stats.start, 'MMM d')} - ${format(stats.end, 'MMM d')}, then suggest up to 3 concrete adjustments for next week.\n` +
+        `Daily habit completion: ${formatRate(stats.dailyRate)}\nHabits:\n${habitLines.join('\n') || '- none'}\n` +
+        `Tasks: ${stats.tasksAdded} added, ${stats.tasksCompleted} completed\nBy category:\n${categoryLines.join('\n') || '- none'}`,
+      schema: {
+        type: 'object',
+        properties: {
+          summary: { type: 'string' },
+          adjustments: { type: 'array', items: { type: 'string' } }
+        },
+        required: ["summary", "adjustments"]
+      }
+    });
+    const record = raw && typeof raw === 'object' ? raw as Record<string, unknown> : {};
+    const summary = asString(record.summary);
+    if (!summary) throw new AiError("The review is missing its summary", 'BAD_RESPONSE');
+    return {
+      summary,
+      adjustments: Array.isArray(record.adjustments)
+        ? record.adjustments.map(asString).filter((s): s is string => !!s)
+        : []
+    };
+  } catch (error) {
+    console.error("AI Weekly Review Error:", error);
+    throw error;
   }
-};
\ No newline at end of file
+};
@@ -0,0 +1,72 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { AiError, createConfiguredProvider, createMockProvider } from './aiProviders';
+
+const configure = (env: Record<string, string>) => {
+  for (const key of ['AI_PROVIDER', 'AI_MODEL', 'AI_BASE_URL', 'AI_API_KEY', 'API_KEY']) vi.stubEnv(key, env[key] ?? '');
+};
+
+const getConfigError = () => {
+  try {
+    createConfiguredProvider();
+  } catch (error) {
+    return error;
+  }
+  throw new Error('Expected a configuration error');
+};
+
+describe('createConfiguredProvider', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('refuses to run without any configuration instead of falling back to the mock', () => {
+    configure({});
+    const error = getConfigError();
+    expect(error).toBeInstanceOf(AiError);
+    expect(error).toMatchObject({ code: 'NOT_CONFIGURED', message: expect.stringContaining('AI not configured') });
+  });
+
+  it('uses the mock only when asked for it', () => {
+    configure({ AI_PROVIDER: 'Mock' });
+    expect(createConfiguredProvider().name).toBe('mock');
+  });
+
+  it('uses Gemini when a key is set', () => {
+    configure({ API_KEY: 'key', AI_MODEL: 'gemini-test' });
+    expect(createConfiguredProvider().name).toBe('gemini:gemini-test');
+  });
+
+  it('names GEMINI_API_KEY when Gemini is selected without a key', () => {
+    configure({ AI_PROVIDER: 'gemini' });
+    expect(getConfigError()).toMatchObject({ code: 'NOT_CONFIGURED', message: expect.stringContaining('GEMINI_API_KEY') });
+  });
+
+  it('needs a base URL and model for OpenAI-compatible servers', () => {
+    configure({ AI_PROVIDER: 'openai', AI_MODEL: 'llama3' });
+    expect(getConfigError()).toMatchObject({ code: 'NOT_CONFIGURED' });
+
+    configure({ AI_PROVIDER: 'openai', AI_MODEL: 'llama3', AI_BASE_URL: 'http://localhost:11434/v1' });
+    expect(createConfiguredProvider().name).toBe('openai:llama3');
+  });
+
+  it('rejects unknown providers', () => {
+    configure({ AI_PROVIDER: 'claude' });
+    expect(getConfigError()).toMatchObject({ code: 'NOT_CONFIGURED', message: 'Unknown AI provider "claude"' });
+  });
+});
+
+describe('createMockProvider', () => {
+  it('answers known request kinds with a copy of the canned response', async () => {
+    const responses = { habits: ['Stretch'] };
+    const provider = createMockProvider(responses);
+    const result = await provider.generateJson({ kind: 'habits', prompt: '', schema: { type: 'array' } }, new AbortController().signal);
+    expect(result).toEqual(['Stretch']);
+    expect(result).not.toBe(responses.habits);
+  });
+
+  it('fails for kinds it has no answer for', async () => {
+    const provider = createMockProvider({});
+    await expect(provider.generateJson({ kind: 'tasks', prompt: '', schema: { type: 'array' } }, new AbortController().signal))
+      .rejects.toMatchObject({ code: 'BAD_RESPONSE' });
+  });
+});
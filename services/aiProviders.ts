@@ -0,0 +1,164 @@
+import { GoogleGenAI } from "@google/genai";
+
+// The subset of JSON Schema the suggestion prompts need, understood by both
+// Gemini (`responseJsonSchema`) and OpenAI-compatible servers (`json_schema`).
+export interface AiSchema {
+  type: 'array' | 'object' | 'string' | 'number';
+  items?: AiSchema;
+  properties?: Record<string, AiSchema>;
+  required?: string[];
+  enum?: string[];
+}
+
+export interface AiRequest {
+  // Identifies the prompt, so the mock provider can answer it without a model
+  kind: string;
+  prompt: string;
+  schema: AiSchema;
+}
+
+export interface AiProvider {
+  name: string;
+  // Resolves with the parsed JSON response; rejects with an AiError
+  generateJson(request: AiRequest, signal: AbortSignal): Promise<unknown>;
+}
+
+export type AiErrorCode = 'NOT_CONFIGURED' | 'TIMEOUT' | 'NETWORK' | 'PROVIDER' | 'BAD_RESPONSE';
+
+export class AiError extends Error {
+  constructor(message: string, public readonly code: AiErrorCode) {
+    super(message);
+    this.name = 'AiError';
+  }
+}
+
+const parseJson = (text: string | undefined | null): unknown => {
+  if (!text) throw new AiError("The model returned an empty response", 'BAD_RESPONSE');
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new AiError("The model returned malformed JSON", 'BAD_RESPONSE');
+  }
+};
+
+// Aborts surface as TIMEOUT, since the only caller that aborts is the timeout
+const toAiError = (error: unknown, signal: AbortSignal): AiError => {
+  if (error instanceof AiError) return error;
+  if (signal.aborted) return new AiError("The AI request timed out", 'TIMEOUT');
+  if (error instanceof TypeError) return new AiError("Could not reach the AI provider", 'NETWORK');
+  return new AiError(error instanceof Error ? error.message : String(error), 'PROVIDER');
+};
+
+export const createGeminiProvider = (apiKey: string, model = "gemini-2.5-flash"): AiProvider => {
+  const ai = new GoogleGenAI({ apiKey });
+  return {
+    name: `gemini:${model}`,
+    generateJson: async ({ prompt, schema }, signal) => {
+      try {
+        const response = await ai.models.generateContent({
+          model,
+          contents: prompt,
+          config: {
+            responseMimeType: "application/json",
+            responseJsonSchema: schema,
+            abortSignal: signal
+          }
+        });
+        return parseJson(response.text);
+      } catch (error) {
+        throw toAiError(error, signal);
+      }
+    }
+  };
+};
+
+// Any server speaking the OpenAI chat completions API, e.g. a local llama.cpp,
+// Ollama or LM Studio instance.
+export const createOpenAiCompatibleProvider = (baseUrl: string, model: string, apiKey?: string): AiProvider => ({
+  name: `openai:${model}`,
+  generateJson: async ({ kind, prompt, schema }, signal) => {
+    try {
+      const response = await fetch(`${baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(apiKey && { Authorization: `Bearer ${apiKey}` })
+        },
+        body: JSON.stringify({
+          model,
+          messages: [{ role: 'user', content: prompt }],
+          response_format: {
+            type: 'json_schema',
+            // OpenAI requires an object at the root, so lists are wrapped
+            json_schema: { name: kind, schema: { type: 'object', properties: { result: schema }, required: ['result'] } }
+          }
+        }),
+        signal
+      });
+      if (!response.ok) {
+        throw new AiError(`AI provider responded with ${response.status}`, response.status === 401 || response.status === 403 ? 'NOT_CONFIGURED' : 'PROVIDER');
+      }
+      const body = await response.json();
+      const content = parseJson(body?.choices?.[0]?.message?.content);
+      if (!content || typeof content !== 'object' || !('result' in content)) {
+        throw new AiError("The model response is missing its result", 'BAD_RESPONSE');
+      }
+      return content.result;
+    } catch (error) {
+      throw toAiError(error, signal);
+    }
+  }
+});
+
+// Canned answers per request kind, for offline development and tests
+export const MOCK_RESPONSES: Record<string, unknown> = {
+  habits: ["Drink 2L water", "Read 10 pages", "10 min meditation"],
+  tasks: [
+    { title: "Plan project", priority: 'HIGH', effort: "1h", subtasks: ["Define scope", "List milestones"] },
+    { title: "Execute phase 1", priority: 'MEDIUM', subtasks: [] },
+    { title: "Review", priority: 'LOW', subtasks: [] }
+  ],
+  weeklyReview: {
+    summary: "A steady week: most daily habits held, and more tasks were closed than opened.",
+    adjustments: ["Schedule the weakest habit earlier in the day", "Clear one stale task per category"]
+  }
+};
+
+export const createMockProvider = (responses: Record<string, unknown> = MOCK_RESPONSES): AiProvider => ({
+  name: 'mock',
+  generateJson: async ({ kind }) => {
+    if (!(kind in responses)) throw new AiError(`No mock response for "${kind}"`, 'BAD_RESPONSE');
+    return structuredClone(responses[kind]);
+  }
+});
+
+// AI_PROVIDER selects the backend: "gemini", "openai" or "mock". Without it,
+// Gemini is used when a key is set; with nothing configured there is no
+// provider, and suggestions fail with NOT_CONFIGURED instead of inventing data.
+export const createConfiguredProvider = (): AiProvider => {
+  const provider = process.env.AI_PROVIDER?.toLowerCase();
+  const model = process.env.AI_MODEL || undefined;
+
+  switch (provider) {
+    case 'mock':
+      return createMockProvider();
+    case 'openai': {
+      const baseUrl = process.env.AI_BASE_URL;
+      if (!baseUrl || !model) throw new AiError("AI_BASE_URL and AI_MODEL must be set for the openai provider", 'NOT_CONFIGURED');
+      return createOpenAiCompatibleProvider(baseUrl, model, process.env.AI_API_KEY || undefined);
+    }
+    case 'gemini':
+    case undefined:
+    case '': {
+      // vite.config.ts passes GEMINI_API_KEY from .env.local to the app as API_KEY
+      const apiKey = process.env.API_KEY;
+      if (apiKey) return createGeminiProvider(apiKey, model);
+      if (provider === 'gemini') {
+        throw new AiError("GEMINI_API_KEY is not set in .env.local (vite.config.ts exposes it as API_KEY)", 'NOT_CONFIGURED');
+      }
+      throw new AiError("AI not configured: set GEMINI_API_KEY or AI_PROVIDER in .env.local", 'NOT_CONFIGURED');
+    }
+    default:
+      throw new AiError(`Unknown AI provider "${provider}"`, 'NOT_CONFIGURED');
+  }
+};
@@ -0,0 +1,124 @@
+import { describe, expect, it } from 'vitest';
+import { Habit, HabitSchedule, ProtocolType } from '../types';
+import { getCompletionRate, getPeriodsBetween, getRangePeriods, getTrend, getWeekdayBreakdown, getYearHeatmap } from './analytics';
+import { getDateKey } from './habitSchedule';
+import { makeHabit } from './testData';
+
+// 2024-01-01 is a Monday
+const day = (date: number, month = 0, year = 2024) => new Date(year, month, date);
+
+const checked = (...keys: string[]): Habit['completions'] => Object.fromEntries(keys.map(k => [k, true]));
+
+const scheduled = (schedule: HabitSchedule, ...keys: string[]) => makeHabit({ schedule, completions: checked(...keys) });
+
+const keys = (type: ProtocolType, periods: Date[]) => periods.map(p => getDateKey(p, type));
+
+describe('getPeriodsBetween', () => {
+  it.each<[ProtocolType, Date, Date, string[]]>([
+    ['DAILY', day(30, 11, 2023), day(2), ['2023-12-30', '2023-12-31', '2024-01-01', '2024-01-02']],
+    // Every ISO week the interval touches, as its Monday
+    ['WEEKLY', day(3), day(17), ['2024-W01', '2024-W02', '2024-W03']],
+    ['WEEKLY', day(30, 11, 2020), day(5, 0, 2021), ['2020-W53', '2021-W01']],
+    ['WEEKLY', day(29, 11), day(30, 11), ['2024-W52', '2025-W01']],
+    ['MONTHLY', day(31), day(1, 2), ['2024-01', '2024-02', '2024-03']]
+  ])('lists %s periods from %s to %s', (type, start, end, expected) => {
+    expect(keys(type, getPeriodsBetween(type, start, end))).toEqual(expected);
+  });
+
+  it('starts weeks on the Monday', () => {
+    expect(getPeriodsBetween('WEEKLY', day(7), day(7))).toEqual([day(1)]);
+  });
+});
+
+describe('getRangePeriods', () => {
+  it.each<[ProtocolType, number, Date, number, string, string]>([
+    ['DAILY', 1, day(15, 2), 29, '2024-02-16', '2024-03-15'],
+    ['DAILY', 1, day(31, 2), 31, '2024-03-01', '2024-03-31'],
+    ['DAILY', 12, day(10), 365, '2023-01-11', '2024-01-10'],
+    ['DAILY', 12, day(1, 2), 366, '2023-03-02', '2024-03-01'],
+    ['WEEKLY', 1, day(17), 5, '2023-W51', '2024-W03'],
+    ['MONTHLY', 3, day(31, 2), 3, '2024-01', '2024-03'],
+    ['MONTHLY', 12, day(10), 12, '2023-02', '2024-01']
+  ])('covers %s periods over %s month(s) to %s', (type, months, today, count, first, last) => {
+    const periods = keys(type, getRangePeriods(type, months, today));
+    expect(periods).toHaveLength(count);
+    expect([periods[0], periods[periods.length - 1]]).toEqual([first, last]);
+  });
+});
+
+describe('getCompletionRate', () => {
+  // Monday 1st to Sunday 7th
+  const week = getPeriodsBetween('DAILY', day(1), day(7));
+
+  it.each<[string, Habit[], number | null]>([
+    ['every day', [makeHabit({ completions: checked('2024-01-01', '2024-01-02') })], 2 / 7],
+    ['only due days', [scheduled({ kind: 'DAYS_OF_WEEK', days: [1, 3] }, '2024-01-01', '2024-01-02')], 1 / 2],
+    ['a weekly quota, due on the done days and the last open ones', [scheduled({ kind: 'TIMES_PER_WEEK', count: 3 }, '2024-01-01', '2024-01-02')], 2 / 3],
+    ['a met weekly quota', [scheduled({ kind: 'TIMES_PER_WEEK', count: 2 }, '2024-01-03', '2024-01-05')], 1],
+    ['a goal only when reached', [makeHabit({ target: { goal: 10, unit: 'pages' }, completions: { '2024-01-01': 10, '2024-01-02': 5 } })], 1 / 7],
+    ['all habits together', [makeHabit({ completions: checked('2024-01-01') }), makeHabit({ id: 'h2', completions: checked('2024-01-01') })], 2 / 14],
+    ['nothing when nothing is due', [scheduled({ kind: 'DAYS_OF_WEEK', days: [] })], null],
+    ['nothing without habits', [], null]
+  ])('counts %s', (_case, habits, rate) => {
+    const result = getCompletionRate(habits, 'DAILY', week);
+    if (rate === null) expect(result).toBeNull();
+    else expect(result).toBeCloseTo(rate);
+  });
+
+  it('keys weekly habits by ISO week across the turn of the year', () => {
+    const habit = makeHabit({ type: 'WEEKLY', completions: checked('2020-W53', '2021-W02') });
+    const periods = getPeriodsBetween('WEEKLY', day(28, 11, 2020), day(17, 0, 2021));
+    expect(getCompletionRate([habit], 'WEEKLY', periods)).toBe(2 / 3);
+  });
+
+  it('keys monthly habits by month', () => {
+    const habit = makeHabit({ type: 'MONTHLY', completions: checked('2024-02') });
+    expect(getCompletionRate([habit], 'MONTHLY', getPeriodsBetween('MONTHLY', day(1), day(31, 2)))).toBe(1 / 3);
+  });
+});
+
+describe('getWeekdayBreakdown', () => {
+  it('rates each weekday, Sunday first, with null for days never due', () => {
+    const habit = scheduled({ kind: 'DAYS_OF_WEEK', days: [1, 2, 3, 4, 5] }, '2024-01-01', '2024-01-08', '2024-01-02');
+    const days = getPeriodsBetween('DAILY', day(1), day(14));
+    expect(getWeekdayBreakdown([habit], days)).toEqual([null, 1, 0.5, 0, 0, 0, null]);
+  });
+});
+
+describe('getTrend', () => {
+  it('splits the periods into chunks, oldest first', () => {
+    const habit = makeHabit({ completions: checked('2024-01-01', '2024-01-02', '2024-01-03', '2024-01-10') });
+    const periods = getPeriodsBetween('DAILY', day(1), day(10));
+    expect(getTrend([habit], 'DAILY', periods, 4)).toEqual([
+      { date: day(1), rate: 1 },
+      { date: day(4), rate: 0 },
+      { date: day(7), rate: 0 },
+      { date: day(10), rate: 1 }
+    ]);
+  });
+
+  it('gives every period a point when there are fewer than asked for', () => {
+    expect(getTrend([makeHabit()], 'DAILY', getPeriodsBetween('DAILY', day(1), day(3)))).toHaveLength(3);
+  });
+});
+
+describe('getYearHeatmap', () => {
+  const today = day(10);
+
+  it('has a cell for every day of the year', () => {
+    expect(getYearHeatmap([makeHabit()], 2024, today)).toHaveLength(366);
+    expect(getYearHeatmap([makeHabit()], 2023, today)).toHaveLength(365);
+  });
+
+  it.each<[string, Habit[], Date, number | null]>([
+    ['a done day', [makeHabit({ completions: checked('2024-01-02') })], day(2), 1],
+    ['a missed day', [makeHabit()], day(3), 0],
+    ['the future', [makeHabit({ completions: checked('2024-01-11') })], day(11), null],
+    ['a day nothing was due', [scheduled({ kind: 'DAYS_OF_WEEK', days: [1] })], day(2), null],
+    ['a half-met goal', [makeHabit({ target: { goal: 10, unit: 'km' }, completions: { '2024-01-02': 5 } })], day(2), 0.5],
+    ['the habits due that day', [makeHabit({ completions: checked('2024-01-02') }), makeHabit({ id: 'h2' }), scheduled({ kind: 'DAYS_OF_WEEK', days: [1] })], day(2), 0.5]
+  ])('shades %s', (_case, habits, date, value) => {
+    const cell = getYearHeatmap(habits, 2024, today).find(c => c.date.getTime() === date.getTime());
+    expect(cell?.value).toBe(value);
+  });
+});
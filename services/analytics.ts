@@ -0,0 +1,89 @@
+import { addDays, eachDayOfInterval, eachMonthOfInterval, eachWeekOfInterval, endOfYear, getDay, isAfter, startOfYear, subMonths } from 'date-fns';
+import { Habit, ProtocolType } from '../types';
+import { getDateKey, getCompletionRatio, isCompletedOn, isExpectedOn } from './habitSchedule';
+
+export interface AnalyticsRange {
+  id: string;
+  label: string;
+  months: number;
+}
+
+export const ANALYTICS_RANGES: AnalyticsRange[] = [
+  { id: '1M', label: '1 MONTH', months: 1 },
+  { id: '3M', label: '3 MONTHS', months: 3 },
+  { id: '6M', label: '6 MONTHS', months: 6 },
+  { id: '1Y', label: '1 YEAR', months: 12 }
+];
+
+export interface HeatmapCell {
+  date: Date;
+  // Share of the due habits completed that day, or null when nothing was due
+  value: number | null;
+}
+
+export interface TrendPoint {
+  date: Date;
+  rate: number | null;
+}
+
+// The days, ISO weeks (as Mondays) or months (as their first day) touching the interval
+export const getPeriodsBetween = (type: ProtocolType, start: Date, end: Date): Date[] => {
+  switch (type) {
+    case 'DAILY':
+      return eachDayOfInterval({ start, end });
+    case 'WEEKLY':
+      return eachWeekOfInterval({ start, end }, { weekStartsOn: 1 });
+    case 'MONTHLY':
+      return eachMonthOfInterval({ start, end });
+  }
+};
+
+// The periods covered by the last `months` months; monthly habits get exactly `months` months
+export const getRangePeriods = (type: ProtocolType, months: number, today: Date = new Date()): Date[] =>
+  type === 'MONTHLY'
+    ? getPeriodsBetween(type, subMonths(today, months - 1), today)
+    : getPeriodsBetween(type, addDays(subMonths(today, months), 1), today);
+
+// Share of due (habit, period) slots that were completed, or null when none were due
+export const getCompletionRate = (habits: Habit[], type: ProtocolType, periods: Date[]): number | null => {
+  let expected = 0;
+  let completed = 0;
+  for (const habit of habits) {
+    for (const period of periods) {
+      if (!isExpectedOn(habit, period, type)) continue;
+      expected++;
+      if (isCompletedOn(habit, getDateKey(period, type))) completed++;
+    }
+  }
+  return expected > 0 ? completed / expected : null;
+};
+
+// Completion rate per weekday (0 = Sunday) over the given days
+export const getWeekdayBreakdown = (habits: Habit[], days: Date[]): (number | null)[] =>
+  Array.from({ length: 7 }, (_, weekday) =>
+    getCompletionRate(habits, 'DAILY', days.filter(d => getDay(d) === weekday)));
+
+// Completion rate over consecutive chunks of the periods, oldest first
+export const getTrend = (habits: Habit[], type: ProtocolType, periods: Date[], points = 12): TrendPoint[] => {
+  const size = Math.max(1, Math.ceil(periods.length / points));
+  const trend: TrendPoint[] = [];
+  for (let i = 0; i < periods.length; i += size) {
+    const chunk = periods.slice(i, i + size);
+    trend.push({ date: chunk[0], rate: getCompletionRate(habits, type, chunk) });
+  }
+  return trend;
+};
+
+// One cell per day of the year for daily habits. Quantitative habits add partial
+// credit, so a half-met goal shades the cell half as much.
+export const getYearHeatmap = (habits: Habit[], year: number, today: Date = new Date()): HeatmapCell[] => {
+  const yearStart = startOfYear(new Date(year, 0, 1));
+  return eachDayOfInterval({ start: yearStart, end: endOfYear(yearStart) }).map(date => {
+    if (isAfter(date, today)) return { date, value: null };
+    const due = habits.filter(h => isExpectedOn(h, date, 'DAILY'));
+    if (due.length === 0) return { date, value: null };
+    const key = getDateKey(date, 'DAILY');
+    const total = due.reduce((sum, h) => sum + getCompletionRatio(h, key), 0);
+    return { date, value: total / due.length };
+  });
+};
@@ -0,0 +1,150 @@
+import { describe, expect, it } from 'vitest';
+import { WorkspaceData } from './dataStore';
+import { BACKUP_VERSION, BackupError, createBackup, findConflicts, mergeWorkspace, parseBackup } from './backup';
+import { withStorableIds } from './ids';
+import { createMemoryStore } from './localStore';
+import { makeCategory, makeHabit, makeTask, makeWorkspace } from './testData';
+
+// A backup file as it comes out of JSON.parse
+const toFile = (data: WorkspaceData, version = BACKUP_VERSION) =>
+  JSON.parse(JSON.stringify({ ...createBackup(data, new Date(2024, 0, 10)), version }));
+
+// The same workspace with UUIDs, which parsing keeps as they are
+const storable = (data: WorkspaceData = makeWorkspace()) => withStorableIds(data);
+
+const getParseError = (raw: unknown) => {
+  try {
+    parseBackup(raw);
+  } catch (error) {
+    expect(error).toBeInstanceOf(BackupError);
+    return (error as BackupError).message;
+  }
+  throw new Error('Expected the backup to be rejected');
+};
+
+describe('parseBackup', () => {
+  it('reads back what was exported', () => {
+    const data = storable();
+    expect(parseBackup(toFile(data))).toEqual(data);
+  });
+
+  it.each([
+    ['nothing', null],
+    ['a list', []],
+    ['another format', { format: 'other-app', version: 1, data: {} }]
+  ])('rejects %s as not a backup', (_case, raw) => {
+    expect(getParseError(raw)).toBe('This is not a DO IT workspace backup');
+  });
+
+  it('rejects a backup from a newer version of the app', () => {
+    expect(getParseError(toFile(makeWorkspace(), BACKUP_VERSION + 1))).toBe(`The backup is from a newer version (${BACKUP_VERSION + 1}) of the app`);
+  });
+
+  it.each<[string, (file: any) => void, string]>([
+    ['a missing list', file => { delete file.data.tasks; }, 'tasks must be a list'],
+    ['a task priority', file => { file.data.tasks[1].priority = 'URGENT'; }, 'tasks[1].priority must be HIGH, MEDIUM or LOW'],
+    ['a due date', file => { file.data.tasks[0].dueDate = '12/01/2024'; }, 'tasks[0].dueDate must be YYYY-MM-DD'],
+    ['a check-in', file => { file.data.habits[0].completions['2024-01-01'] = 'yes'; }, 'habits[0].completions.2024-01-01 must be a check or a number'],
+    ['a habit schedule', file => { file.data.habits[0].schedule = { kind: 'SOMETIMES' }; }, 'habits[0].schedule is invalid'],
+    ['a category color', file => { file.data.categories[1].color = 'BEIGE'; }, 'categories[1].color is not a known color'],
+    ['a category name', file => { file.data.categories[0].name = '  '; }, 'categories[0].name is missing']
+  ])('names the field when %s is malformed', (_case, corrupt, message) => {
+    const file = toFile(makeWorkspace());
+    corrupt(file);
+    expect(getParseError(file)).toBe(message);
+  });
+
+  it('reads a file without weekly habits, from before they existed', () => {
+    const file = toFile(storable());
+    delete file.data.weeklyHabits;
+    expect(parseBackup(file).weeklyHabits).toEqual([]);
+  });
+
+  it('upgrades version 1 category names to categories linked by id', () => {
+    const file = toFile(makeWorkspace({ tasks: [] }), 1);
+    file.data.categories = ['Work', 'Home'];
+    file.data.tasks = [
+      { ...makeTask({ id: 't1' }), categoryId: undefined, column: 'Home' },
+      // A category only a task still named
+      { ...makeTask({ id: 't2' }), categoryId: undefined, column: 'Errands' }
+    ];
+
+    const { categories, tasks } = parseBackup(file);
+    expect(categories.map(c => [c.name, c.position])).toEqual([['Work', 1024], ['Home', 2048], ['Errands', 3072]]);
+    expect(tasks.map(t => categories.find(c => c.id === t.categoryId)?.name)).toEqual(['Home', 'Errands']);
+    expect(tasks.every(t => !('column' in t))).toBe(true);
+  });
+
+  it.each<[string, WorkspaceData, string]>([
+    ['an id used twice', makeWorkspace({ tasks: [makeTask(), makeTask({ title: 'Copy' })] }), 'The id t1 is used more than once'],
+    ['an id shared by a habit and a task', makeWorkspace({ habits: [makeHabit({ id: 't1' })] }), 'The id t1 is used more than once'],
+    ['a task without its category', makeWorkspace({ tasks: [makeTask(), makeTask({ id: 't2', categoryId: 'c9' })] }), 'tasks[1].categoryId does not match a category']
+  ])('rejects %s', (_case, data, message) => {
+    expect(getParseError(toFile(data))).toBe(message);
+  });
+
+  it('gives ids the tables cannot hold fresh UUIDs, and links follow them', () => {
+    const uuid = crypto.randomUUID();
+    const data = parseBackup(toFile(makeWorkspace({
+      habits: [makeHabit({ id: '1' }), makeHabit({ id: uuid })],
+      tasks: [
+        makeTask({ id: 't1', recurrence: { frequency: 'DAILY' }, seriesId: 't1' }),
+        makeTask({ id: 't2', categoryId: 'c2', seriesId: 't1', position: 2048 })
+      ]
+    })));
+
+    expect(data.habits[0].id).not.toBe('1');
+    expect(data.habits[1].id).toBe(uuid);
+    expect(data.categories.map(c => c.id)).not.toContain('c1');
+    expect(data.tasks.map(t => t.categoryId)).toEqual(data.categories.map(c => c.id));
+    expect(data.tasks.map(t => t.seriesId)).toEqual([data.tasks[0].id, data.tasks[0].id]);
+  });
+});
+
+describe('findConflicts', () => {
+  it('finds habits of every type and tasks by id', () => {
+    const current = makeWorkspace({ monthlyHabits: [makeHabit({ id: 'm1', title: 'Budget', type: 'MONTHLY' })] });
+    const incoming = makeWorkspace({
+      habits: [makeHabit({ id: 'h2', title: 'Read' })],
+      monthlyHabits: [makeHabit({ id: 'm1', title: 'Budget review', type: 'MONTHLY' })],
+      tasks: [makeTask({ id: 't2', title: 'Taxes' }), makeTask({ id: 't9' })]
+    });
+    expect(findConflicts(current, incoming)).toEqual([
+      { kind: 'HABIT', id: 'm1', current: 'Budget', incoming: 'Budget review' },
+      { kind: 'TASK', id: 't2', current: 'File taxes', incoming: 'Taxes' }
+    ]);
+  });
+
+  it('does not match records by title', () => {
+    expect(findConflicts(makeWorkspace(), storable())).toEqual([]);
+  });
+});
+
+describe('importing', () => {
+  const current = makeWorkspace({ habits: [makeHabit(), makeHabit({ id: 'h2', title: 'Stretch' })] });
+  const imported = makeWorkspace({
+    habits: [makeHabit({ title: 'Read more' }), makeHabit({ id: 'h3', title: 'Walk' })],
+    categories: [makeCategory({ id: 'c9', name: 'HOME' })],
+    tasks: [makeTask({ id: 't9', categoryId: 'c9' })]
+  });
+
+  it('merges by replacing records in place, appending new ones and keeping the rest', () => {
+    const merged = mergeWorkspace(current, imported);
+    expect(merged.habits.map(h => [h.id, h.title])).toEqual([['h1', 'Read more'], ['h2', 'Stretch'], ['h3', 'Walk']]);
+    // "HOME" folds into the existing "Home" and its task follows
+    expect(merged.categories.map(c => c.id)).toEqual(['c1', 'c2']);
+    expect(merged.tasks.map(t => [t.id, t.categoryId])).toEqual([['t1', 'c1'], ['t3', 'c2'], ['t2', 'c1'], ['t9', 'c2']]);
+  });
+
+  it('replaces the whole workspace, dropping what the file does not have', async () => {
+    const store = createMemoryStore(current);
+    await store.importData(imported, 'REPLACE');
+    expect(await store.load()).toEqual(imported);
+  });
+
+  it('merges through the store the same way', async () => {
+    const store = createMemoryStore(current);
+    await store.importData(imported, 'MERGE');
+    expect((await store.load()).habits.map(h => h.id)).toEqual(['h1', 'h2', 'h3']);
+  });
+});
@@ -0,0 +1,225 @@
+import { Category, CategoryColor, CategoryIcon, Habit, HabitSchedule, ProtocolType, Task, TaskPriority } from '../types';
+import { WorkspaceData } from './dataStore';
+import { normalizePositions } from './ordering';
+import { CATEGORY_COLORS, CATEGORY_ICONS, foldCategoriesByName, upgradeCategoryNames } from './categories';
+import { withStorableIds } from './ids';
+
+export const BACKUP_FORMAT = 'doit-workspace';
+// 2: categories are objects with ids and tasks link to them by `categoryId`
+export const BACKUP_VERSION = 2;
+
+export interface WorkspaceBackup {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: string;
+  data: WorkspaceData;
+}
+
+export interface BackupConflict {
+  kind: 'HABIT' | 'TASK';
+  id: string;
+  current: string;
+  incoming: string;
+}
+
+export class BackupError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BackupError';
+  }
+}
+
+export const createBackup = (data: WorkspaceData, now: Date = new Date()): WorkspaceBackup => ({
+  format: BACKUP_FORMAT,
+  version: BACKUP_VERSION,
+  exportedAt: now.toISOString(),
+  data
+});
+
+export const getBackupFilename = (now: Date = new Date()) =>
+  `doit-backup-${now.toISOString().slice(0, 10)}.json`;
+
+// --- Validation ---
+
+type Json = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Json =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const PRIORITIES: TaskPriority[] = ['HIGH', 'MEDIUM', 'LOW'];
+const SCHEDULE_KINDS: HabitSchedule['kind'][] = ['EVERY_DAY', 'DAYS_OF_WEEK', 'TIMES_PER_WEEK', 'TIMES_PER_MONTH'];
+
+const expect = (condition: boolean, message: string) => {
+  if (!condition) throw new BackupError(message);
+};
+
+const expectArray = (value: unknown, path: string): unknown[] => {
+  expect(Array.isArray(value), `${path} must be a list`);
+  return value as unknown[];
+};
+
+const parseHabit = (value: unknown, type: ProtocolType, path: string): Habit => {
+  expect(isObject(value), `${path} must be an object`);
+  const h = value as Json;
+  expect(typeof h.id === 'string' && !!h.id, `${path}.id is missing`);
+  expect(typeof h.title === 'string', `${path}.title must be text`);
+  expect(isObject(h.completions), `${path}.completions must be an object`);
+  for (const [key, entry] of Object.entries(h.completions as Json)) {
+    expect(typeof entry === 'boolean' || typeof entry === 'number', `${path}.completions.${key} must be a check or a number`);
+  }
+  if (h.schedule !== undefined) {
+    expect(isObject(h.schedule) && SCHEDULE_KINDS.includes((h.schedule as Json).kind as HabitSchedule['kind']), `${path}.schedule is invalid`);
+  }
+  if (h.target !== undefined) {
+    const target = h.target as Json;
+    expect(isObject(target) && typeof target.goal === 'number' && typeof target.unit === 'string', `${path}.target is invalid`);
+  }
+  return {
+    id: h.id as string,
+    title: h.title as string,
+    completions: h.completions as Habit['completions'],
+    type,
+    ...(h.schedule !== undefined && { schedule: h.schedule as HabitSchedule }),
+    ...(h.target !== undefined && { target: h.target as Habit['target'] })
+  };
+};
+
+const OPTIONAL_TASK_FIELDS = ['completedAt', 'description', 'dueDate', 'tags', 'subtasks', 'recurrence', 'seriesId'] as const;
+
+const parseCategory = (value: unknown, path: string): Category => {
+  expect(isObject(value), `${path} must be an object`);
+  const c = value as Json;
+  expect(typeof c.id === 'string' && !!c.id, `${path}.id is missing`);
+  expect(typeof c.name === 'string' && !!c.name.trim(), `${path}.name is missing`);
+  expect(CATEGORY_COLORS.includes(c.color as CategoryColor), `${path}.color is not a known color`);
+  expect(CATEGORY_ICONS.includes(c.icon as CategoryIcon), `${path}.icon is not a known icon`);
+  expect(typeof c.position === 'number', `${path}.position must be a number`);
+  expect(typeof c.archived === 'boolean', `${path}.archived must be true or false`);
+  return {
+    id: c.id as string,
+    name: c.name as string,
+    color: c.color as CategoryColor,
+    icon: c.icon as CategoryIcon,
+    position: c.position as number,
+    archived: c.archived as boolean
+  };
+};
+
+// Version 1 tasks name their category in `column` instead of linking its id
+const parseTask = (value: unknown, path: string, version: number): Task => {
+  expect(isObject(value), `${path} must be an object`);
+  const t = value as Json;
+  const categoryField = version < 2 ? 'column' : 'categoryId';
+  expect(typeof t.id === 'string' && !!t.id, `${path}.id is missing`);
+  expect(typeof t.title === 'string', `${path}.title must be text`);
+  expect(typeof t[categoryField] === 'string', `${path}.${categoryField} must be text`);
+  expect(typeof t.completed === 'boolean', `${path}.completed must be true or false`);
+  expect(PRIORITIES.includes(t.priority as TaskPriority), `${path}.priority must be HIGH, MEDIUM or LOW`);
+  expect(typeof t.createdAt === 'number', `${path}.createdAt must be a timestamp`);
+  expect(t.position === undefined || typeof t.position === 'number', `${path}.position must be a number`);
+  expect(t.dueDate === undefined || (typeof t.dueDate === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(t.dueDate)), `${path}.dueDate must be YYYY-MM-DD`);
+  expect(t.tags === undefined || (Array.isArray(t.tags) && t.tags.every(tag => typeof tag === 'string')), `${path}.tags must be a list of text`);
+  expect(t.subtasks === undefined || Array.isArray(t.subtasks), `${path}.subtasks must be a list`);
+
+  const task = {
+    id: t.id,
+    title: t.title,
+    [categoryField]: t[categoryField],
+    completed: t.completed,
+    priority: t.priority,
+    createdAt: t.createdAt,
+    position: t.position
+  } as unknown as Task;
+  for (const field of OPTIONAL_TASK_FIELDS) {
+    if (t[field] !== undefined && t[field] !== null) (task as unknown as Json)[field] = t[field];
+  }
+  return task;
+};
+
+// Checks a parsed backup file and returns its workspace. Unknown fields are
+// dropped; anything malformed rejects the whole file with the offending path.
+// Ids the Supabase tables cannot hold get fresh UUIDs here, so the preview
+// shows what an import will write in either storage mode.
+export const parseBackup = (raw: unknown): WorkspaceData => {
+  expect(isObject(raw) && raw.format === BACKUP_FORMAT, "This is not a DO IT workspace backup");
+  const backup = raw as Json;
+  expect(typeof backup.version === 'number', "The backup has no version");
+  expect((backup.version as number) <= BACKUP_VERSION, `The backup is from a newer version (${backup.version}) of the app`);
+  expect(isObject(backup.data), "The backup has no data");
+
+  const version = backup.version as number;
+  const data = backup.data as Json;
+  const rawCategories = expectArray(data.categories, 'categories');
+  if (version < 2) {
+    expect(rawCategories.every(c => typeof c === 'string' && c.trim()), "categories must be a list of names");
+  }
+
+  const habits = expectArray(data.habits, 'habits').map((h, i) => parseHabit(h, 'DAILY', `habits[${i}]`));
+  // Weekly habits arrived after the first exports
+  const weeklyHabits = data.weeklyHabits === undefined
+    ? []
+    : expectArray(data.weeklyHabits, 'weeklyHabits').map((h, i) => parseHabit(h, 'WEEKLY', `weeklyHabits[${i}]`));
+  const monthlyHabits = expectArray(data.monthlyHabits, 'monthlyHabits').map((h, i) => parseHabit(h, 'MONTHLY', `monthlyHabits[${i}]`));
+  const parsedTasks = expectArray(data.tasks, 'tasks').map((t, i) => parseTask(t, `tasks[${i}]`, version));
+
+  const { categories, tasks } = version < 2
+    ? upgradeCategoryNames(rawCategories as string[], parsedTasks)
+    : { categories: rawCategories.map((c, i) => parseCategory(c, `categories[${i}]`)), tasks: parsedTasks };
+
+  const ids = [...habits, ...weeklyHabits, ...monthlyHabits, ...tasks, ...categories].map(item => item.id);
+  const duplicate = ids.find((id, i) => ids.indexOf(id) !== i);
+  expect(!duplicate, `The id ${duplicate} is used more than once`);
+  const categoryIds = new Set(categories.map(c => c.id));
+  const orphan = tasks.findIndex(t => !categoryIds.has(t.categoryId));
+  expect(orphan < 0, `tasks[${orphan}].categoryId does not match a category`);
+
+  return withStorableIds({
+    habits,
+    weeklyHabits,
+    monthlyHabits,
+    categories,
+    tasks: normalizePositions(tasks)
+  });
+};
+
+// --- Applying ---
+
+const allHabits = (data: WorkspaceData) => [...data.habits, ...data.weeklyHabits, ...data.monthlyHabits];
+
+// Records that exist on both sides, which a merge will overwrite
+export const findConflicts = (current: WorkspaceData, incoming: WorkspaceData): BackupConflict[] => {
+  const currentHabits = new Map(allHabits(current).map(h => [h.id, h]));
+  const currentTasks = new Map(current.tasks.map(t => [t.id, t]));
+  return [
+    ...allHabits(incoming).filter(h => currentHabits.has(h.id)).map((h): BackupConflict => ({
+      kind: 'HABIT', id: h.id, current: currentHabits.get(h.id)!.title, incoming: h.title
+    })),
+    ...incoming.tasks.filter(t => currentTasks.has(t.id)).map((t): BackupConflict => ({
+      kind: 'TASK', id: t.id, current: currentTasks.get(t.id)!.title, incoming: t.title
+    }))
+  ];
+};
+
+// Imported records replace existing ones with the same id in place; new ones
+// are appended. Categories also match existing ones by name.
+export const mergeWorkspace = (current: WorkspaceData, imported: WorkspaceData): WorkspaceData => {
+  const incoming = foldCategoriesByName(current.categories, imported);
+  const incomingIds = new Set([...allHabits(incoming), ...incoming.tasks].map(item => item.id));
+
+  const mergeList = <T extends { id: string }>(existing: T[], imported: T[]): T[] => {
+    const byId = new Map(imported.map(item => [item.id, item]));
+    const kept = existing
+      .filter(item => !incomingIds.has(item.id) || byId.has(item.id))
+      .map(item => byId.get(item.id) ?? item);
+    const keptIds = new Set(kept.map(item => item.id));
+    return [...kept, ...imported.filter(item => !keptIds.has(item.id))];
+  };
+
+  return {
+    habits: mergeList(current.habits, incoming.habits),
+    weeklyHabits: mergeList(current.weeklyHabits, incoming.weeklyHabits),
+    monthlyHabits: mergeList(current.monthlyHabits, incoming.monthlyHabits),
+    categories: mergeList(current.categories, incoming.categories),
+    tasks: mergeList(current.tasks, incoming.tasks)
+  };
+};
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { findCategoryByName, foldCategoriesByName, upgradeCategoryNames } from './categories';
+import { makeCategory, makeTask, makeWorkspace } from './testData';
+
+describe('upgradeCategoryNames', () => {
+  const legacyTask = (id: string, column: string) => {
+    const { categoryId, ...task } = makeTask({ id });
+    return { ...task, column };
+  };
+
+  it('links tasks to a category per name, including names only tasks use', () => {
+    const { categories, tasks } = upgradeCategoryNames(['Work', 'Home'], [legacyTask('t1', 'Home'), legacyTask('t2', 'Errands')]);
+    expect(categories.map(c => [c.name, c.position])).toEqual([['Work', 1024], ['Home', 2048], ['Errands', 3072]]);
+    expect(tasks.map(t => categories.find(c => c.id === t.categoryId)?.name)).toEqual(['Home', 'Errands']);
+  });
+
+  it('treats names that differ only in case or spacing as one category', () => {
+    const { categories, tasks } = upgradeCategoryNames(['Work', 'work', ' WORK '], [legacyTask('t1', 'wOrK'), legacyTask('t2', 'Work')]);
+    expect(categories.map(c => c.name)).toEqual(['Work']);
+    expect(tasks.map(t => t.categoryId)).toEqual([categories[0].id, categories[0].id]);
+  });
+
+  it('keeps tasks that already link a category', () => {
+    const { tasks } = upgradeCategoryNames(['Work'], [makeTask({ categoryId: 'c9' })]);
+    expect(tasks[0].categoryId).toBe('c9');
+  });
+});
+
+describe('foldCategoriesByName', () => {
+  it('folds incoming categories into existing ones of the same name, whatever the case', () => {
+    const incoming = makeWorkspace({
+      categories: [makeCategory({ id: 'c9', name: 'HOME' }), makeCategory({ id: 'c8', name: 'Garden' })],
+      tasks: [makeTask({ categoryId: 'c9' }), makeTask({ id: 't2', categoryId: 'c8' })]
+    });
+    const folded = foldCategoriesByName(makeWorkspace().categories, incoming);
+    expect(folded.categories.map(c => c.id)).toEqual(['c8']);
+    expect(folded.tasks.map(t => t.categoryId)).toEqual(['c2', 'c8']);
+  });
+
+  it('finds categories by name regardless of case and spacing', () => {
+    expect(findCategoryByName(makeWorkspace().categories, ' home ')?.id).toBe('c2');
+  });
+});
@@ -0,0 +1,88 @@
+import { Category, CategoryColor, CategoryIcon, Task } from '../types';
+import { WorkspaceData } from './dataStore';
+import { POSITION_STEP, getNextCategoryPosition, getSortedCategories } from './ordering';
+
+export const CATEGORY_COLORS: CategoryColor[] = ['BLUE', 'CYAN', 'EMERALD', 'AMBER', 'ORANGE', 'RED', 'PINK', 'VIOLET', 'SLATE'];
+export const CATEGORY_ICONS: CategoryIcon[] = ['FOLDER', 'BRIEFCASE', 'HOME', 'HEART', 'BOOK', 'CODE', 'WALLET', 'STAR', 'TARGET', 'CALENDAR'];
+
+// A new category at the end of the tabs; colors rotate so neighbours differ
+export const createCategory = (name: string, existing: Category[], id: string = crypto.randomUUID()): Category => ({
+  id,
+  name: name.trim(),
+  color: CATEGORY_COLORS[existing.length % CATEGORY_COLORS.length],
+  icon: 'FOLDER',
+  position: getNextCategoryPosition(existing),
+  archived: false
+});
+
+// The board's tabs, in order
+export const getActiveCategories = (categories: Category[]) =>
+  getSortedCategories(categories).filter(c => !c.archived);
+
+export const findCategoryByName = (categories: Category[], name: string) =>
+  categories.find(c => c.name.toLowerCase() === name.trim().toLowerCase());
+
+export const getCategoryName = (categories: Category[], id: string) =>
+  categories.find(c => c.id === id)?.name ?? '';
+
+// --- Deleting ---
+
+// What happens to the tasks of a deleted category
+export type CategoryTaskDisposal =
+  | { kind: 'MOVE'; categoryId: string }
+  // Moved into the archived "Archive" category, created when missing
+  | { kind: 'ARCHIVE' }
+  | { kind: 'DELETE' };
+
+export const ARCHIVE_CATEGORY_NAME = 'Archive';
+
+// --- Legacy data ---
+
+type LegacyTask = Omit<Task, 'categoryId'> & { categoryId?: string; column?: string };
+
+// Workspaces saved before categories had ids kept a list of names, and tasks
+// named their category in `column`. Gives every name a category (including ones
+// only tasks still used) and links the tasks by id.
+export const upgradeCategoryNames = (names: string[], tasks: LegacyTask[]): { categories: Category[]; tasks: Task[] } => {
+  const categories: Category[] = [];
+  const byName = new Map<string, Category>();
+  // Names match regardless of case, as in findCategoryByName; the first spelling wins
+  const add = (name: string) => {
+    const key = name.trim().toLowerCase();
+    if (!byName.has(key)) {
+      const category = { ...createCategory(name, categories), position: (categories.length + 1) * POSITION_STEP };
+      categories.push(category);
+      byName.set(key, category);
+    }
+    return byName.get(key)!;
+  };
+
+  names.forEach(add);
+  return {
+    categories,
+    tasks: tasks.map(({ column, ...task }) => ({ ...task, categoryId: task.categoryId ?? add(column ?? '').id }))
+  };
+};
+
+// --- Merging ---
+
+// `incoming` with its categories folded into existing ones of the same name, so
+// a merge does not end up with two tabs called "Work". Tasks follow the fold.
+export const foldCategoriesByName = (current: Category[], incoming: WorkspaceData): WorkspaceData => {
+  const currentIds = new Set(current.map(c => c.id));
+  const replacements = new Map<string, string>();
+  const categories = incoming.categories.filter(category => {
+    if (currentIds.has(category.id)) return true;
+    const existing = findCategoryByName(current, category.name);
+    if (!existing) return true;
+    replacements.set(category.id, existing.id);
+    return false;
+  });
+
+  if (replacements.size === 0) return incoming;
+  return {
+    ...incoming,
+    categories,
+    tasks: incoming.tasks.map(t => replacements.has(t.categoryId) ? { ...t, categoryId: replacements.get(t.categoryId)! } : t)
+  };
+};
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { CsvError, parseCsv, toCsv } from './csv';
+
+describe('parseCsv', () => {
+  it.each<[string, string, string[][]]>([
+    ['plain fields', 'a,b,c\r\n1,2,3\r\n', [['a', 'b', 'c'], ['1', '2', '3']]],
+    ['bare \\n line ends and no final line end', 'a,b\n1,2', [['a', 'b'], ['1', '2']]],
+    ['a byte order mark', '\uFEFFa,b\n', [['a', 'b']]],
+    ['empty fields', 'a,,c\n,,\n', [['a', '', 'c']]],
+    ['a comma in quotes', '"Buy milk, eggs",x', [['Buy milk, eggs', 'x']]],
+    ['line breaks in quotes', '"one\r\ntwo\nthree",x\n', [['one\r\ntwo\nthree', 'x']]],
+    ['doubled quotes', '"say ""hi""",""""', [['say "hi"', '"']]],
+    ['an empty quoted field', '"",x', [['', 'x']]],
+    ['blank lines', 'a\n\n  \nb\n', [['a'], ['b']]]
+  ])('reads %s', (_case, text, rows) => {
+    expect(parseCsv(text)).toEqual(rows);
+  });
+
+  it('reads back what toCsv writes', () => {
+    const rows = [['Title', 'Notes'], ['Call "Bob"', 'first, then\nsecond'], ['Plain', '']];
+    expect(parseCsv(toCsv(rows))).toEqual(rows);
+  });
+
+  it('reports a quote that is never closed', () => {
+    expect(() => parseCsv('a,"b\nc')).toThrow(CsvError);
+  });
+});
@@ -0,0 +1,106 @@
+import { format } from 'date-fns';
+import { Category, Habit, ProtocolType, Task } from '../types';
+import { getDateKey, getValue, isExpectedOn } from './habitSchedule';
+import { compareByPosition, getSortedCategories } from './ordering';
+import { getCategoryName } from './categories';
+
+export class CsvError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CsvError';
+  }
+}
+
+// RFC 4180: fields with separators, quotes or line breaks are quoted, quotes doubled
+const escapeField = (value: string) =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export const toCsv = (rows: string[][]) =>
+  rows.map(row => row.map(escapeField).join(',')).join('\r\n') + '\r\n';
+
+const TASK_HEADER = ['Title', 'Category', 'Priority', 'Completed', 'Created', 'Due', 'Completed At'];
+
+// One row per task, grouped by category in board order
+export const tasksToCsv = (tasks: Task[], categories: Category[]) => {
+  const sortedCategories = getSortedCategories(categories);
+  const order = (categoryId: string) => {
+    const index = sortedCategories.findIndex(c => c.id === categoryId);
+    return index === -1 ? categories.length : index;
+  };
+  const sorted = [...tasks].sort((a, b) => order(a.categoryId) - order(b.categoryId) || compareByPosition(a, b));
+
+  return toCsv([
+    TASK_HEADER,
+    ...sorted.map(t => [
+      t.title,
+      getCategoryName(categories, t.categoryId),
+      t.priority,
+      t.completed ? 'yes' : 'no',
+      format(t.createdAt, 'yyyy-MM-dd'),
+      t.dueDate ?? '',
+      t.completedAt ? format(t.completedAt, 'yyyy-MM-dd') : ''
+    ])
+  ]);
+};
+
+// The tracker grid for the given periods: one row per habit, one column per
+// period. Checks export as 1/0, measured habits as the recorded value, and
+// cells the habit was not due on are left blank.
+export const habitGridToCsv = (habits: Habit[], type: ProtocolType, periods: Date[]) =>
+  toCsv([
+    ['Habit', 'Target', ...periods.map(p => getDateKey(p, type))],
+    ...habits.map(habit => [
+      habit.title,
+      habit.target ? `${habit.target.goal} ${habit.target.unit}` : '',
+      ...periods.map(period => {
+        const key = getDateKey(period, type);
+        if (!isExpectedOn(habit, period, type) && habit.completions[key] === undefined) return '';
+        if (habit.target) return String(getValue(habit, key));
+        return habit.completions[key] ? '1' : '0';
+      })
+    ])
+  ]);
+
+// Reads RFC 4180 text into rows. Tolerates a byte order mark and bare \n line ends;
+// a quote that is never closed throws a CsvError.
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (inQuotes) throw new CsvError("The file has a quoted field that is never closed");
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  // Blank lines carry no data
+  return rows.filter(r => r.some(cell => cell.trim()));
+};
@@ -0,0 +1,159 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DataStore, WorkspaceData } from './dataStore';
+import { createMemoryStorage, createMemoryStore } from './localStore';
+import { SyncQueue, createSyncQueue } from './syncQueue';
+import { makeCategory, makeHabit, makeTask, makeWorkspace } from './testData';
+
+interface StoreFixture {
+  store: DataStore;
+  // Resolves once writes have reached the backend, for stores that defer them
+  settle: () => Promise<void>;
+}
+
+const waitForDrain = async (queue: SyncQueue) => {
+  for (;;) {
+    let busy = true;
+    queue.subscribe(status => { busy = status.pending > 0 || status.isFlushing; })();
+    if (!busy) return;
+    await new Promise(resolve => setTimeout(resolve, 0));
+  }
+};
+
+const createQueue = (seed: WorkspaceData) =>
+  createSyncQueue(createMemoryStore(seed), { storageKey: 'outbox', storage: createMemoryStorage() });
+
+const backends: [string, (seed: WorkspaceData) => StoreFixture][] = [
+  ['memory store', seed => ({ store: createMemoryStore(seed), settle: async () => {} })],
+  // Never started, so every write stays in the outbox and load() replays it
+  ['sync queue (offline)', seed => ({ store: createQueue(seed), settle: async () => {} })],
+  ['sync queue (flushed)', seed => {
+    const queue = createQueue(seed);
+    queue.start();
+    return { store: queue, settle: () => waitForDrain(queue) };
+  }]
+];
+
+describe.each(backends)('DataStore contract: %s', (_name, create) => {
+  let store: DataStore;
+  let load: () => Promise<WorkspaceData>;
+
+  beforeEach(() => {
+    // The sync queue listens for connectivity changes on window
+    vi.stubGlobal('window', new EventTarget());
+    const fixture = create(makeWorkspace());
+    store = fixture.store;
+    load = async () => {
+      await fixture.settle();
+      return store.load();
+    };
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('loads the seeded workspace', async () => {
+    expect(await load()).toEqual(makeWorkspace());
+  });
+
+  describe('habits', () => {
+    it('adds a habit to the list of its type', async () => {
+      await store.addHabit(makeHabit({ id: 'h2', type: 'WEEKLY' }), 'WEEKLY');
+      const data = await load();
+      expect(data.habits.map(h => h.id)).toEqual(['h1']);
+      expect(data.weeklyHabits.map(h => h.id)).toEqual(['h2']);
+    });
+
+    it('merges updates and clears fields set to undefined', async () => {
+      await store.updateHabit('h1', { target: { goal: 20, unit: 'pages' } });
+      await store.updateHabit('h1', { title: 'Read more' });
+      expect((await load()).habits[0]).toMatchObject({ title: 'Read more', target: { goal: 20, unit: 'pages' } });
+
+      await store.updateHabit('h1', { target: undefined });
+      expect((await load()).habits[0].target).toBeUndefined();
+    });
+
+    it('deletes a habit', async () => {
+      await store.deleteHabit('h1');
+      expect((await load()).habits).toEqual([]);
+    });
+
+    it('sets and clears single completion cells', async () => {
+      await store.setCompletion('h1', '2024-05-01', true);
+      await store.setCompletion('h1', '2024-05-02', 12);
+      await store.setCompletion('h1', '2024-05-01', null);
+      expect((await load()).habits[0].completions).toEqual({ '2024-05-02': 12 });
+    });
+  });
+
+  describe('tasks', () => {
+    it('adds, updates and deletes tasks', async () => {
+      await store.addTask(makeTask({ id: 't4', categoryId: 'c2', position: 2048 }));
+      await store.updateTask('t1', { completed: true, completedAt: 5 });
+      await store.deleteTask('t2');
+      const data = await load();
+      expect(data.tasks.map(t => t.id)).toEqual(['t1', 't3', 't4']);
+      expect(data.tasks[0]).toMatchObject({ completed: true, completedAt: 5 });
+    });
+
+    it('clears fields set to undefined', async () => {
+      await store.updateTask('t1', { completed: true, completedAt: 5 });
+      await store.updateTask('t1', { completed: false, completedAt: undefined });
+      const task = (await load()).tasks.find(t => t.id === 't1')!;
+      expect(task.completed).toBe(false);
+      expect('completedAt' in task).toBe(false);
+    });
+  });
+
+  describe('categories', () => {
+    it('adds a category once per id', async () => {
+      const category = makeCategory({ id: 'c3', name: 'Errands', position: 3072 });
+      await store.addCategory(category);
+      await store.addCategory(category);
+      expect((await load()).categories.map(c => c.id)).toEqual(['c1', 'c2', 'c3']);
+    });
+
+    it('updates a category', async () => {
+      await store.updateCategory('c2', { name: 'House', archived: true });
+      expect((await load()).categories[1]).toMatchObject({ name: 'House', archived: true });
+    });
+
+    it('deletes a category together with its tasks', async () => {
+      await store.deleteCategory('c1');
+      const data = await load();
+      expect(data.categories.map(c => c.id)).toEqual(['c2']);
+      expect(data.tasks.map(t => t.id)).toEqual(['t3']);
+    });
+
+    it('moves the tasks of a deleted category to the end of another, in order', async () => {
+      await store.deleteCategory('c1', 'c2');
+      const data = await load();
+      expect(data.categories.map(c => c.id)).toEqual(['c2']);
+      expect(data.tasks.map(t => [t.id, t.categoryId, t.position])).toEqual([
+        ['t3', 'c2', 1024],
+        ['t1', 'c2', 2048],
+        ['t2', 'c2', 3072]
+      ]);
+    });
+  });
+
+  describe('importData', () => {
+    it('replaces the workspace', async () => {
+      const imported = makeWorkspace({ habits: [], tasks: [makeTask({ id: 't9' })] });
+      await store.importData(imported, 'REPLACE');
+      expect(await load()).toEqual(imported);
+    });
+
+    it('merges by id and folds categories with the same name', async () => {
+      await store.importData(makeWorkspace({
+        habits: [makeHabit({ title: 'Read daily' })],
+        categories: [makeCategory({ id: 'c9', name: 'work' })],
+        tasks: [makeTask({ id: 't9', categoryId: 'c9', position: 4096 })]
+      }), 'MERGE');
+      const data = await load();
+      expect(data.habits).toEqual([makeHabit({ title: 'Read daily' })]);
+      expect(data.categories.map(c => c.id)).toEqual(['c1', 'c2']);
+      expect(data.tasks.find(t => t.id === 't9')?.categoryId).toBe('c1');
+    });
+  });
+});
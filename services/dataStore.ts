@@ -0,0 +1,53 @@
+import { Category, Habit, Task, ProtocolType } from '../types';
+
+// Everything the app keeps per user, as loaded from a backend.
+export interface WorkspaceData {
+  habits: Habit[];
+  weeklyHabits: Habit[];
+  monthlyHabits: Habit[];
+  categories: Category[];
+  tasks: Task[];
+}
+
+// How an imported workspace is applied: MERGE adds the imported records and
+// overwrites existing ones with the same id, REPLACE discards everything first.
+export type ImportMode = 'MERGE' | 'REPLACE';
+
+// A persistence backend. App applies every change to React state optimistically
+// and then hands it to the active store, so implementations only have to write.
+// Arguments must stay JSON-serialisable so mutations can be queued and replayed.
+export interface DataStore {
+  load(): Promise<WorkspaceData>;
+
+  addHabit(habit: Habit, type: ProtocolType): Promise<void>;
+  updateHabit(id: string, updates: Partial<Habit>): Promise<void>;
+  deleteHabit(id: string): Promise<void>;
+  // Writes a single completion cell (null clears it). Unlike updateHabit with a
+  // whole map, this cannot undo a check-in made meanwhile on another device.
+  setCompletion(id: string, key: string, value: boolean | number | null): Promise<void>;
+
+  addTask(task: Task): Promise<void>;
+  updateTask(id: string, updates: Partial<Task>): Promise<void>;
+  deleteTask(id: string): Promise<void>;
+
+  addCategory(category: Category): Promise<void>;
+  // Renames, restyles, reorders and archives
+  updateCategory(id: string, updates: Partial<Category>): Promise<void>;
+  // Moves the category's tasks to the end of `moveTasksTo` in the same write,
+  // or deletes them with it when no target is given
+  deleteCategory(id: string, moveTasksTo?: string): Promise<void>;
+
+  // Bulk write of a validated backup, see services/backup.ts
+  importData(data: WorkspaceData, mode: ImportMode): Promise<void>;
+}
+
+export type DataStoreMutation = Exclude<keyof DataStore, 'load'>;
+
+// Raised by stores so callers can tell transient failures (offline, timeouts,
+// server hiccups) from writes the backend refused outright.
+export class StoreError extends Error {
+  constructor(message: string, public readonly retryable: boolean) {
+    super(message);
+    this.name = 'StoreError';
+  }
+}
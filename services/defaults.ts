@@ -0,0 +1,26 @@
+import { Category, Habit, Task } from '../types';
+import { POSITION_STEP } from './ordering';
+
+// Default Data Generators (Fallback)
+export const getDefaultHabits = (): Habit[] => [
+  { id: '1', title: 'Deep Work (4h)', completions: {} },
+  { id: '2', title: 'Physical Training', completions: {} },
+  { id: '3', title: 'Zero Sugar', completions: {} }
+];
+
+export const getDefaultMonthlyHabits = (): Habit[] => [
+  { id: 'm1', title: 'Financial Audit', completions: {} },
+  { id: 'm2', title: 'Network Review', completions: {} }
+];
+
+export const getDefaultCategories = (): Category[] => [
+  { id: 'c1', name: 'Complete It', color: 'BLUE', icon: 'TARGET', position: POSITION_STEP, archived: false },
+  { id: 'c2', name: 'Monthly', color: 'EMERALD', icon: 'CALENDAR', position: POSITION_STEP * 2, archived: false },
+  { id: 'c3', name: 'Yearly', color: 'VIOLET', icon: 'STAR', position: POSITION_STEP * 3, archived: false }
+];
+
+export const getDefaultTasks = (): Task[] => [
+  { id: 't1', title: 'Deploy Production Build', categoryId: 'c1', completed: false, priority: 'HIGH', createdAt: Date.now(), position: POSITION_STEP },
+  { id: 't2', title: 'Q3 Financial Review', categoryId: 'c2', completed: false, priority: 'MEDIUM', createdAt: Date.now(), position: POSITION_STEP },
+  { id: 't3', title: 'Launch Mobile App', categoryId: 'c3', completed: false, priority: 'HIGH', createdAt: Date.now(), position: POSITION_STEP }
+];
@@ -0,0 +1,175 @@
+import { describe, expect, it } from 'vitest';
+import { Habit, HabitSchedule } from '../types';
+import { describeSchedule, formatValue, getCompletionRatio, getDateKey, getLongestStreak, getStreak, getValue, isCompletedOn, isExpectedOn, withCompletion } from './habitSchedule';
+import { makeHabit } from './testData';
+
+// 2024-01-01 is a Monday
+const day = (date: number, month = 0) => new Date(2024, month, date);
+
+const checked = (...keys: string[]): Habit['completions'] => Object.fromEntries(keys.map(k => [k, true]));
+
+const scheduled = (schedule: HabitSchedule, ...keys: string[]) => makeHabit({ schedule, completions: checked(...keys) });
+
+describe('isExpectedOn', () => {
+  it('expects every day without a schedule', () => {
+    expect(isExpectedOn(makeHabit(), day(6), 'DAILY')).toBe(true);
+  });
+
+  it.each([
+    [day(1), true],
+    [day(2), false],
+    [day(3), true],
+    [day(7), false]
+  ])('expects days of the week only on those days (%s)', (date, expected) => {
+    expect(isExpectedOn(scheduled({ kind: 'DAYS_OF_WEEK', days: [1, 3] }), date, 'DAILY')).toBe(expected);
+  });
+
+  it.each<[string, string[], number[]]>([
+    ['nothing done: the last three days', [], [5, 6, 7]],
+    ['one done: that day and the last two', ['2024-01-01'], [1, 6, 7]],
+    ['quota met: only the done days', ['2024-01-01', '2024-01-02', '2024-01-03'], [1, 2, 3]],
+    ['over quota: every done day', ['2024-01-01', '2024-01-02', '2024-01-03', '2024-01-04'], [1, 2, 3, 4]]
+  ])('3x per week, %s', (_case, done, expectedDays) => {
+    const habit = scheduled({ kind: 'TIMES_PER_WEEK', count: 3 }, ...done);
+    const expected = [1, 2, 3, 4, 5, 6, 7].filter(d => isExpectedOn(habit, day(d), 'DAILY'));
+    expect(expected).toEqual(expectedDays);
+  });
+
+  it('counts a weekly quota within the ISO week, not the calendar week', () => {
+    // Sunday the 7th closes the week that started on Monday the 1st
+    const habit = scheduled({ kind: 'TIMES_PER_WEEK', count: 1 }, '2024-01-01');
+    expect(isExpectedOn(habit, day(7), 'DAILY')).toBe(false);
+    expect(isExpectedOn(habit, day(14), 'DAILY')).toBe(true);
+  });
+
+  it('places the remaining monthly quota at the end of the month', () => {
+    const habit = scheduled({ kind: 'TIMES_PER_MONTH', count: 2 }, '2024-02-03');
+    const expected = Array.from({ length: 29 }, (_, i) => i + 1).filter(d => isExpectedOn(habit, day(d, 1), 'DAILY'));
+    expect(expected).toEqual([3, 29]);
+  });
+
+  it('ignores schedules for weekly and monthly habits', () => {
+    expect(isExpectedOn(scheduled({ kind: 'DAYS_OF_WEEK', days: [] }), day(2), 'WEEKLY')).toBe(true);
+  });
+});
+
+describe('getStreak', () => {
+  it.each<[string, Habit, Date, number]>([
+    ['counts back to the first gap', scheduled({ kind: 'EVERY_DAY' }, '2024-01-05', '2024-01-07', '2024-01-08', '2024-01-09'), day(9), 3],
+    ['is not broken by an unchecked today', makeHabit({ completions: checked('2024-01-08', '2024-01-09') }), day(10), 2],
+    ['is broken by an unchecked yesterday', makeHabit({ completions: checked('2024-01-08') }), day(10), 0],
+    ['skips off days', scheduled({ kind: 'DAYS_OF_WEEK', days: [1, 3, 5] }, '2024-01-01', '2024-01-03', '2024-01-05', '2024-01-08'), day(9), 4],
+    ['is zero without completions', makeHabit(), day(9), 0]
+  ])('daily habit %s', (_case, habit, today, length) => {
+    expect(getStreak(habit, 'DAILY', today)).toEqual({ length, unit: 'DAY' });
+  });
+
+  it('counts weeks for a weekly quota, ignoring the unfinished current week', () => {
+    const done = ['2024-01-01', '2024-01-02', '2024-01-08', '2024-01-10', '2024-01-15'];
+    const habit = scheduled({ kind: 'TIMES_PER_WEEK', count: 2 }, ...done);
+    expect(getStreak(habit, 'DAILY', day(17))).toEqual({ length: 2, unit: 'WEEK' });
+
+    const completedWeek = scheduled({ kind: 'TIMES_PER_WEEK', count: 2 }, ...done, '2024-01-17');
+    expect(getStreak(completedWeek, 'DAILY', day(17))).toEqual({ length: 3, unit: 'WEEK' });
+  });
+
+  it('breaks a weekly quota streak on a week below quota', () => {
+    const habit = scheduled({ kind: 'TIMES_PER_WEEK', count: 2 }, '2024-01-01', '2024-01-02', '2024-01-08', '2024-01-15', '2024-01-16');
+    expect(getStreak(habit, 'DAILY', day(17))).toEqual({ length: 1, unit: 'WEEK' });
+  });
+
+  it('counts months for a monthly quota', () => {
+    const habit = scheduled({ kind: 'TIMES_PER_MONTH', count: 2 }, '2024-01-10', '2024-01-20', '2024-02-01');
+    expect(getStreak(habit, 'DAILY', day(15, 1))).toEqual({ length: 1, unit: 'MONTH' });
+  });
+});
+
+describe('getLongestStreak', () => {
+  it('finds the longest run, not the current one', () => {
+    const habit = makeHabit({ completions: checked('2024-01-01', '2024-01-02', '2024-01-03', '2024-01-04', '2024-01-06', '2024-01-07') });
+    expect(getLongestStreak(habit, 'DAILY', day(10))).toEqual({ length: 4, unit: 'DAY' });
+  });
+
+  it('does not count off days towards a run', () => {
+    const habit = scheduled({ kind: 'DAYS_OF_WEEK', days: [1, 3] }, '2024-01-01', '2024-01-03', '2024-01-08');
+    expect(getLongestStreak(habit, 'DAILY', day(9))).toEqual({ length: 3, unit: 'DAY' });
+  });
+});
+
+describe('describeSchedule', () => {
+  it.each<[HabitSchedule | undefined, string]>([
+    [undefined, 'Every day'],
+    [{ kind: 'EVERY_DAY' }, 'Every day'],
+    [{ kind: 'DAYS_OF_WEEK', days: [5, 4, 3, 2, 1] }, 'Weekdays'],
+    [{ kind: 'DAYS_OF_WEEK', days: [6, 0] }, 'SUN SAT'],
+    [{ kind: 'TIMES_PER_WEEK', count: 3 }, '3x per week'],
+    [{ kind: 'TIMES_PER_MONTH', count: 10 }, '10x per month']
+  ])('%j reads "%s"', (schedule, expected) => {
+    expect(describeSchedule(schedule)).toBe(expected);
+  });
+});
+
+describe('quantitative habits', () => {
+  const pages = makeHabit({ target: { goal: 20, unit: 'pages' }, completions: { a: 10, b: 25, c: true, d: 0 } });
+
+  it.each([
+    ['a', 10, 0.5, false],
+    ['b', 25, 1, true],
+    // A plain check from before the target was set counts as the goal
+    ['c', 20, 1, true],
+    ['d', 0, 0, false],
+    ['missing', 0, 0, false]
+  ])('reads %s as %s (ratio %s)', (key, value, ratio, completed) => {
+    expect(getValue(pages, key)).toBe(value);
+    expect(getCompletionRatio(pages, key)).toBe(ratio);
+    expect(isCompletedOn(pages, key)).toBe(completed);
+  });
+
+  it('treats a zero goal as never reached', () => {
+    expect(getCompletionRatio(makeHabit({ target: { goal: 0, unit: 'km' }, completions: { a: 3 } }), 'a')).toBe(0);
+  });
+
+  it('sets, overwrites and clears cells without touching the others', () => {
+    const completions = { a: 3, b: true };
+    expect(withCompletion(completions, 'a', 5)).toEqual({ a: 5, b: true });
+    expect(withCompletion(completions, 'a', null)).toEqual({ b: true });
+    expect(withCompletion(completions, 'b', false)).toEqual({ a: 3 });
+    expect(completions).toEqual({ a: 3, b: true });
+  });
+
+  it.each([[3, '3'], [2.5, '2.5'], [1.25, '1.3'], [0, '0']])('formats %s as %s', (value, expected) => {
+    expect(formatValue(value)).toBe(expected);
+  });
+});
+
+describe('weekly protocol', () => {
+  it.each([
+    [new Date(2024, 0, 10), '2024-W02'],
+    [new Date(2026, 9, 19), '2026-W43'],
+    // Early January can belong to the last week of the previous ISO year...
+    [new Date(2021, 0, 1), '2020-W53'],
+    [new Date(2023, 0, 1), '2022-W52'],
+    // ...and late December to the first week of the next one
+    [new Date(2024, 11, 30), '2025-W01'],
+    [new Date(2024, 11, 29), '2024-W52']
+  ])('keys %s as %s', (date, expected) => {
+    expect(getDateKey(date, 'WEEKLY')).toBe(expected);
+  });
+
+  it('keys daily and monthly habits by date and month', () => {
+    expect(getDateKey(new Date(2024, 0, 5), 'DAILY')).toBe('2024-01-05');
+    expect(getDateKey(new Date(2024, 0, 5), 'MONTHLY')).toBe('2024-01');
+  });
+
+  it('produces keys that sort chronologically across ISO years', () => {
+    const keys = [new Date(2021, 0, 4), new Date(2020, 11, 28), new Date(2021, 0, 1)].map(d => getDateKey(d, 'WEEKLY'));
+    expect([...keys].sort()).toEqual(['2020-W53', '2020-W53', '2021-W01']);
+  });
+
+  it('counts a weekly streak across the turn of the year', () => {
+    const habit = makeHabit({ type: 'WEEKLY', completions: checked('2023-W51', '2023-W52', '2024-W01', '2024-W02') });
+    expect(getStreak(habit, 'WEEKLY', new Date(2024, 0, 10))).toEqual({ length: 4, unit: 'WEEK' });
+    expect(getStreak(habit, 'WEEKLY', new Date(2024, 0, 17))).toEqual({ length: 4, unit: 'WEEK' });
+    expect(getStreak(habit, 'WEEKLY', new Date(2024, 0, 24))).toEqual({ length: 0, unit: 'WEEK' });
+  });
+});
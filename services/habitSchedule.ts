@@ -0,0 +1,176 @@
+import { format, getDay, isSameDay, startOfISOWeek, endOfISOWeek, startOfMonth, endOfMonth, eachDayOfInterval, subDays, subMonths, subWeeks } from 'date-fns';
+import { Habit, HabitSchedule, ProtocolType } from '../types';
+
+export interface HabitStreak {
+  length: number;
+  unit: 'DAY' | 'WEEK' | 'MONTH';
+}
+
+type QuotaSchedule = Extract<HabitSchedule, { count: number }>;
+
+export const WEEKDAY_LABELS = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+
+// Completion keys: YYYY-MM-DD for daily habits, ISO week (e.g. 2026-W42) for
+// weekly ones and YYYY-MM for monthly ones. All of them sort chronologically.
+export const getDateKey = (date: Date, type: ProtocolType) => {
+  switch (type) {
+    case 'DAILY':
+      return format(date, 'yyyy-MM-dd');
+    case 'WEEKLY':
+      return format(date, "RRRR-'W'II");
+    case 'MONTHLY':
+      return format(date, 'yyyy-MM');
+  }
+};
+
+// The unit a protocol's grid and streaks are counted in
+export const getProtocolUnit = (type: ProtocolType): HabitStreak['unit'] =>
+  type === 'DAILY' ? 'DAY' : type === 'WEEKLY' ? 'WEEK' : 'MONTH';
+
+// Recorded value for a date. Plain checks (e.g. from before a target was set) count as the full goal.
+export const getValue = (habit: Habit, key: string): number => {
+  const entry = habit.completions[key];
+  if (typeof entry === 'number') return entry;
+  return entry ? habit.target?.goal ?? 1 : 0;
+};
+
+// Share of the target reached on a date, between 0 and 1
+export const getCompletionRatio = (habit: Habit, key: string): number => {
+  if (!habit.target) return habit.completions[key] ? 1 : 0;
+  return habit.target.goal > 0 ? Math.min(1, getValue(habit, key) / habit.target.goal) : 0;
+};
+
+export const isCompletedOn = (habit: Habit, key: string) => getCompletionRatio(habit, key) >= 1;
+
+// Completions with one cell set to a check or value, or cleared with null
+export const withCompletion = (completions: Habit['completions'], key: string, value: boolean | number | null): Habit['completions'] => {
+  const next = { ...completions };
+  if (value === null || value === false) delete next[key];
+  else next[key] = value;
+  return next;
+};
+
+export const formatValue = (value: number) => Number.isInteger(value) ? String(value) : value.toFixed(1);
+
+// Schedules only refine daily habits; weekly and monthly ones are due once per period
+const getSchedule = (habit: Habit, type: ProtocolType): HabitSchedule =>
+  type === 'DAILY' && habit.schedule ? habit.schedule : { kind: 'EVERY_DAY' };
+
+const getPeriodDays = (schedule: QuotaSchedule, date: Date) =>
+  schedule.kind === 'TIMES_PER_WEEK'
+    ? eachDayOfInterval({ start: startOfISOWeek(date), end: endOfISOWeek(date) })
+    : eachDayOfInterval({ start: startOfMonth(date), end: endOfMonth(date) });
+
+const countCompletions = (habit: Habit, days: Date[]) =>
+  days.filter(d => isCompletedOn(habit, getDateKey(d, 'DAILY'))).length;
+
+// Whether the habit is due on `date`, i.e. whether that cell counts towards the
+// completion rate. Quota habits ("3x per week") are due on the days they were
+// done, plus as many of the period's remaining unchecked days as the quota still
+// needs, taken from the end of the period.
+export const isExpectedOn = (habit: Habit, date: Date, type: ProtocolType): boolean => {
+  const schedule = getSchedule(habit, type);
+  switch (schedule.kind) {
+    case 'EVERY_DAY':
+      return true;
+    case 'DAYS_OF_WEEK':
+      return schedule.days.includes(getDay(date));
+    default: {
+      if (isCompletedOn(habit, getDateKey(date, type))) return true;
+      const days = getPeriodDays(schedule, date);
+      const open = days.filter(d => !isCompletedOn(habit, getDateKey(d, 'DAILY')));
+      const remaining = schedule.count - (days.length - open.length);
+      return remaining > 0 && open.slice(-remaining).some(d => isSameDay(d, date));
+    }
+  }
+};
+
+// Oldest completion key, so streak walks stop once there is nothing left to find
+const getEarliestKey = (habit: Habit) =>
+  Object.keys(habit.completions).filter(k => isCompletedOn(habit, k)).sort()[0];
+
+interface StreakSlots {
+  unit: HabitStreak['unit'];
+  previous: (date: Date) => Date;
+  // Latest completion key inside the slot, compared against the earliest completion
+  lastKey: (date: Date) => string;
+  isDue: (date: Date) => boolean;
+  isMet: (date: Date) => boolean;
+}
+
+// The slots a streak is counted in: days, weeks or months for plain habits, and
+// whole periods for quota habits, which are met once the quota is reached.
+const getStreakSlots = (habit: Habit, type: ProtocolType): StreakSlots => {
+  const schedule = getSchedule(habit, type);
+  if (schedule.kind === 'TIMES_PER_WEEK' || schedule.kind === 'TIMES_PER_MONTH') {
+    const unit = schedule.kind === 'TIMES_PER_WEEK' ? 'WEEK' : 'MONTH';
+    return {
+      unit,
+      previous: d => unit === 'WEEK' ? subWeeks(d, 1) : subMonths(d, 1),
+      lastKey: d => getDateKey(getPeriodDays(schedule, d).slice(-1)[0], 'DAILY'),
+      isDue: () => true,
+      isMet: d => countCompletions(habit, getPeriodDays(schedule, d)) >= schedule.count
+    };
+  }
+
+  const unit = getProtocolUnit(type);
+  return {
+    unit,
+    previous: d => unit === 'DAY' ? subDays(d, 1) : unit === 'WEEK' ? subWeeks(d, 1) : subMonths(d, 1),
+    lastKey: d => getDateKey(d, type),
+    // Off days are skipped, neither extending nor breaking a streak
+    isDue: d => schedule.kind !== 'DAYS_OF_WEEK' || schedule.days.includes(getDay(d)),
+    isMet: d => isCompletedOn(habit, getDateKey(d, type))
+  };
+};
+
+// Consecutive scheduled slots completed, counting back from today. The current
+// slot only counts once it is done, so an unchecked today does not break a streak.
+export const getStreak = (habit: Habit, type: ProtocolType, today: Date = new Date()): HabitStreak => {
+  const { unit, previous, lastKey, isDue, isMet } = getStreakSlots(habit, type);
+  const earliest = getEarliestKey(habit);
+  if (!earliest) return { length: 0, unit };
+
+  let length = 0;
+  let checkDate = isMet(today) ? today : previous(today);
+  while (lastKey(checkDate) >= earliest) {
+    if (isDue(checkDate)) {
+      if (!isMet(checkDate)) break;
+      length++;
+    }
+    checkDate = previous(checkDate);
+  }
+  return { length, unit };
+};
+
+// Longest run of consecutive scheduled slots completed, up to today
+export const getLongestStreak = (habit: Habit, type: ProtocolType, today: Date = new Date()): HabitStreak => {
+  const { unit, previous, lastKey, isDue, isMet } = getStreakSlots(habit, type);
+  const earliest = getEarliestKey(habit);
+  if (!earliest) return { length: 0, unit };
+
+  let longest = 0;
+  let run = 0;
+  for (let checkDate = today; lastKey(checkDate) >= earliest; checkDate = previous(checkDate)) {
+    if (!isDue(checkDate)) continue;
+    run = isMet(checkDate) ? run + 1 : 0;
+    longest = Math.max(longest, run);
+  }
+  return { length: longest, unit };
+};
+
+export const describeSchedule = (schedule?: HabitSchedule): string => {
+  if (!schedule) return 'Every day';
+  switch (schedule.kind) {
+    case 'EVERY_DAY':
+      return 'Every day';
+    case 'DAYS_OF_WEEK':
+      return schedule.days.length === 5 && [1, 2, 3, 4, 5].every(d => schedule.days.includes(d))
+        ? 'Weekdays'
+        : schedule.days.slice().sort().map(d => WEEKDAY_LABELS[d]).join(' ');
+    case 'TIMES_PER_WEEK':
+      return `${schedule.count}x per week`;
+    case 'TIMES_PER_MONTH':
+      return `${schedule.count}x per month`;
+  }
+};
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { EMPTY_HISTORY, HistoryEntry, afterRedo, afterUndo, applyCalls, getRedoEntry, getRevertUpdates, getUndoEntry, pushEntry, storeCall } from './history';
+import { makeCategory, makeHabit, makeTask, makeWorkspace } from './testData';
+
+const entry = (label: string): HistoryEntry => ({ label, redo: [], undo: [], isDestructive: false });
+
+describe('history stacks', () => {
+  it('undoes and redoes in order', () => {
+    let history = pushEntry(pushEntry(EMPTY_HISTORY, entry('a')), entry('b'));
+    expect(getUndoEntry(history).label).toBe('b');
+
+    history = afterUndo(history);
+    expect(getUndoEntry(history).label).toBe('a');
+    expect(getRedoEntry(history).label).toBe('b');
+
+    history = afterUndo(history);
+    expect(history.past).toEqual([]);
+    expect(history.future.map(e => e.label)).toEqual(['a', 'b']);
+
+    history = afterRedo(history);
+    expect(getUndoEntry(history).label).toBe('a');
+    expect(getRedoEntry(history).label).toBe('b');
+  });
+
+  it('drops the redo stack on a new action', () => {
+    const history = pushEntry(afterUndo(pushEntry(EMPTY_HISTORY, entry('a'))), entry('b'));
+    expect(history.past.map(e => e.label)).toEqual(['b']);
+    expect(history.future).toEqual([]);
+  });
+
+  it('leaves empty stacks alone', () => {
+    expect(afterUndo(EMPTY_HISTORY)).toBe(EMPTY_HISTORY);
+    expect(afterRedo(EMPTY_HISTORY)).toBe(EMPTY_HISTORY);
+    expect(getUndoEntry(EMPTY_HISTORY)).toBeUndefined();
+    expect(getRedoEntry(EMPTY_HISTORY)).toBeUndefined();
+  });
+
+  it('keeps only the most recent 100 entries', () => {
+    let history = EMPTY_HISTORY;
+    for (let i = 0; i < 105; i++) history = pushEntry(history, entry(String(i)));
+    expect(history.past).toHaveLength(100);
+    expect(history.past[0].label).toBe('5');
+  });
+});
+
+describe('getRevertUpdates', () => {
+  it.each([
+    ['changed fields', { title: 'New', priority: 'HIGH' as const }, { title: 'Write report', priority: 'MEDIUM' }],
+    ['a field the task did not have', { dueDate: '2024-01-01' }, { dueDate: undefined }],
+    ['a field being cleared', { completedAt: undefined }, { completedAt: 5 }],
+    ['no fields', {}, {}]
+  ])('reverts %s', (_case, updates, expected) => {
+    const revert = getRevertUpdates(makeTask({ completedAt: 5 }), updates);
+    expect(revert).toEqual(expected);
+    expect(Object.keys(revert)).toEqual(Object.keys(updates));
+  });
+});
+
+describe('applyCalls', () => {
+  it('applies an entry and its inverse back to the original workspace', async () => {
+    const original = makeWorkspace();
+    const category = makeCategory({ id: 'c3', name: 'Imported', position: 3072 });
+    const task = makeTask({ id: 't9', categoryId: 'c3' });
+    const redo = [storeCall('addCategory', category), storeCall('addTask', task), storeCall('deleteTask', 't2')];
+    const undo = [storeCall('addTask', original.tasks[2]), storeCall('deleteTask', 't9'), storeCall('deleteCategory', 'c3')];
+
+    const changed = await applyCalls(original, redo);
+    expect(changed.categories.map(c => c.id)).toEqual(['c1', 'c2', 'c3']);
+    expect(changed.tasks.map(t => t.id)).toEqual(['t1', 't3', 't9']);
+
+    expect(await applyCalls(changed, undo)).toEqual(original);
+  });
+
+  it('restores a cleared check-in and an edited habit', async () => {
+    const original = makeWorkspace({ habits: [makeHabit({ completions: { '2024-01-01': true } })] });
+    const updates = { title: 'Read more', target: { goal: 10, unit: 'pages' } };
+    const changed = await applyCalls(original, [
+      storeCall('setCompletion', 'h1', '2024-01-01', null),
+      storeCall('updateHabit', 'h1', updates)
+    ]);
+    const restored = await applyCalls(changed, [
+      storeCall('updateHabit', 'h1', getRevertUpdates(original.habits[0], updates)),
+      storeCall('setCompletion', 'h1', '2024-01-01', true)
+    ]);
+    expect(restored).toEqual(original);
+  });
+
+  it('does not modify the workspace it was given', async () => {
+    const original = makeWorkspace();
+    await applyCalls(original, [storeCall('deleteCategory', 'c1')]);
+    expect(original).toEqual(makeWorkspace());
+  });
+});
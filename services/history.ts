@@ -0,0 +1,72 @@
+import { DataStore, DataStoreMutation, WorkspaceData } from './dataStore';
+import { createMemoryStore } from './localStore';
+
+// Undo history. Every recorded action keeps the store writes that redo it and
+// the ones that revert it, so both directions go through the same persistence
+// path (and the offline outbox) as the original change.
+
+// One store write, in the same shape the sync queue records
+export interface StoreCall<M extends DataStoreMutation = DataStoreMutation> {
+  method: M;
+  args: Parameters<DataStore[M]>;
+}
+
+export interface HistoryEntry {
+  // Shown in the undo toast, e.g. "Directive deleted"
+  label: string;
+  redo: StoreCall[];
+  undo: StoreCall[];
+  // Deletions, which get an undo toast
+  isDestructive: boolean;
+}
+
+export interface History {
+  past: HistoryEntry[];
+  // Undone entries, most recent first; cleared by any new action
+  future: HistoryEntry[];
+}
+
+export const EMPTY_HISTORY: History = { past: [], future: [] };
+
+const MAX_HISTORY = 100;
+
+export const storeCall = <M extends DataStoreMutation>(method: M, ...args: Parameters<DataStore[M]>): StoreCall =>
+  ({ method, args }) as StoreCall;
+
+export const pushEntry = (history: History, entry: HistoryEntry): History => ({
+  past: [...history.past, entry].slice(-MAX_HISTORY),
+  future: []
+});
+
+export const getUndoEntry = (history: History) => history.past[history.past.length - 1];
+
+export const getRedoEntry = (history: History) => history.future[0];
+
+export const afterUndo = (history: History): History => history.past.length === 0 ? history : {
+  past: history.past.slice(0, -1),
+  future: [getUndoEntry(history), ...history.future]
+};
+
+export const afterRedo = (history: History): History => history.future.length === 0 ? history : {
+  past: [...history.past, getRedoEntry(history)],
+  future: history.future.slice(1)
+};
+
+export const runCalls = async (store: DataStore, calls: StoreCall[]) => {
+  for (const { method, args } of calls) {
+    await (store[method] as (...args: unknown[]) => Promise<void>)(...args);
+  }
+};
+
+// `data` with the calls applied, for updating state without waiting on the backend
+export const applyCalls = async (data: WorkspaceData, calls: StoreCall[]): Promise<WorkspaceData> => {
+  const snapshot = createMemoryStore(data);
+  await runCalls(snapshot, calls);
+  return snapshot.load();
+};
+
+// The current values of the fields `updates` changes, i.e. the update that
+// reverts it. Fields the record did not have come back as undefined, which
+// stores treat as "clear this field".
+export const getRevertUpdates = <T extends object>(record: T, updates: Partial<T>): Partial<T> =>
+  Object.fromEntries(Object.keys(updates).map(key => [key, record[key as keyof T]])) as Partial<T>;
@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import { Habit, ProtocolType, RecurrenceRule, Task } from '../types';
+import { workspaceToICalendar } from './ical';
+import { makeCategory, makeHabit, makeTask } from './testData';
+
+// A Wednesday
+const NOW = new Date(2024, 0, 10, 9, 30);
+
+const noHabits: Record<ProtocolType, Habit[]> = { DAILY: [], WEEKLY: [], MONTHLY: [] };
+
+const exportTasks = (...tasks: Task[]) => workspaceToICalendar(noHabits, tasks, [makeCategory()], NOW);
+
+// Properties of each component of the given type, unfolded
+const getComponents = (ics: string, type: 'VTODO' | 'VEVENT') => {
+  const lines = ics.replace(/\r\n /g, '').split('\r\n');
+  const components: Record<string, string>[] = [];
+  let current: Record<string, string> | null = null;
+  for (const line of lines) {
+    if (line === `BEGIN:${type}`) current = {};
+    else if (line === `END:${type}`) {
+      components.push(current!);
+      current = null;
+    } else if (current) {
+      const separator = line.indexOf(':');
+      current[line.slice(0, separator)] = line.slice(separator + 1);
+    }
+  }
+  return components;
+};
+
+describe('workspaceToICalendar tasks', () => {
+  it('exports only tasks with a due date', () => {
+    expect(getComponents(exportTasks(makeTask(), makeTask({ id: 't2', dueDate: '2024-01-12' })), 'VTODO')).toHaveLength(1);
+  });
+
+  it.each([
+    ['2024-01-12', '20240112', '20240113'],
+    ['2024-02-29', '20240229', '20240301'],
+    ['2024-12-31', '20241231', '20250101']
+  ])('makes %s an all-day todo that is due after it starts', (dueDate, start, due) => {
+    const [todo] = getComponents(exportTasks(makeTask({ dueDate })), 'VTODO');
+    expect(todo['DTSTART;VALUE=DATE']).toBe(start);
+    expect(todo['DUE;VALUE=DATE']).toBe(due);
+    expect(todo['DUE;VALUE=DATE'] > todo['DTSTART;VALUE=DATE']).toBe(true);
+  });
+
+  it.each<[RecurrenceRule, string]>([
+    [{ frequency: 'DAILY' }, 'FREQ=DAILY'],
+    [{ frequency: 'WEEKDAYS' }, 'FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR'],
+    [{ frequency: 'WEEKLY', interval: 2 }, 'FREQ=WEEKLY;INTERVAL=2'],
+    [{ frequency: 'MONTHLY' }, 'FREQ=MONTHLY'],
+    [{ frequency: 'MONTHLY', dayOfMonth: 15 }, 'FREQ=MONTHLY;BYMONTHDAY=15'],
+    [{ frequency: 'MONTHLY', dayOfMonth: 28 }, 'FREQ=MONTHLY;BYMONTHDAY=28'],
+    // The last existing day among 28..31, as the app clamps short months
+    [{ frequency: 'MONTHLY', dayOfMonth: 30 }, 'FREQ=MONTHLY;BYMONTHDAY=28,29,30;BYSETPOS=-1'],
+    [{ frequency: 'MONTHLY', dayOfMonth: 31 }, 'FREQ=MONTHLY;BYMONTHDAY=28,29,30,31;BYSETPOS=-1'],
+    [{ frequency: 'YEARLY', month: 1, dayOfMonth: 29 }, 'FREQ=YEARLY;BYMONTH=2;BYMONTHDAY=28,29;BYSETPOS=-1'],
+    [{ frequency: 'YEARLY' }, 'FREQ=YEARLY']
+  ])('repeats %j as %s', (recurrence, rrule) => {
+    const [todo] = getComponents(exportTasks(makeTask({ dueDate: '2024-01-31', recurrence })), 'VTODO');
+    expect(todo.RRULE).toBe(rrule);
+    expect(todo['DTSTART;VALUE=DATE']).toBe('20240131');
+  });
+
+  it('carries status, priority, category and escaped text', () => {
+    const [todo] = getComponents(exportTasks(makeTask({
+      title: 'Call Bob; then, Alice',
+      description: 'Line one\nLine two',
+      priority: 'HIGH',
+      dueDate: '2024-01-12',
+      completed: true,
+      completedAt: Date.UTC(2024, 0, 11, 8)
+    })), 'VTODO');
+    expect(todo).toMatchObject({
+      SUMMARY: 'Call Bob\\; then\\, Alice',
+      DESCRIPTION: 'Line one\\nLine two',
+      PRIORITY: '1',
+      CATEGORIES: 'Work',
+      STATUS: 'COMPLETED',
+      COMPLETED: '20240111T080000Z'
+    });
+  });
+
+  it('folds long lines at 75 octets', () => {
+    const ics = exportTasks(makeTask({ title: 'é'.repeat(100), dueDate: '2024-01-12' }));
+    const encoder = new TextEncoder();
+    expect(ics.split('\r\n').every(line => encoder.encode(line).length <= 75)).toBe(true);
+    expect(getComponents(ics, 'VTODO')[0].SUMMARY).toBe('é'.repeat(100));
+  });
+});
+
+describe('workspaceToICalendar habits', () => {
+  const exportHabit = (habit: Habit, type: ProtocolType) =>
+    getComponents(workspaceToICalendar({ ...noHabits, [type]: [habit] }, [], [], NOW), 'VEVENT')[0];
+
+  it.each<[string, Habit, ProtocolType, string, string]>([
+    ['every day from today', makeHabit(), 'DAILY', '20240110', 'FREQ=DAILY'],
+    ['fixed weekdays from the next due day', makeHabit({ schedule: { kind: 'DAYS_OF_WEEK', days: [5, 1] } }), 'DAILY', '20240112', 'FREQ=WEEKLY;BYDAY=MO,FR'],
+    ['a weekly quota per ISO week', makeHabit({ schedule: { kind: 'TIMES_PER_WEEK', count: 3 } }), 'DAILY', '20240108', 'FREQ=WEEKLY'],
+    ['a monthly quota per month', makeHabit({ schedule: { kind: 'TIMES_PER_MONTH', count: 3 } }), 'DAILY', '20240101', 'FREQ=MONTHLY'],
+    ['a weekly habit per ISO week', makeHabit(), 'WEEKLY', '20240108', 'FREQ=WEEKLY'],
+    ['a monthly habit per month', makeHabit(), 'MONTHLY', '20240101', 'FREQ=MONTHLY']
+  ])('repeats %s', (_case, habit, type, start, rrule) => {
+    const event = exportHabit(habit, type);
+    expect(event['DTSTART;VALUE=DATE']).toBe(start);
+    expect(event.RRULE).toBe(rrule);
+  });
+
+  it('lasts one day', () => {
+    expect(exportHabit(makeHabit(), 'DAILY')['DTEND;VALUE=DATE']).toBe('20240111');
+  });
+});
@@ -0,0 +1,146 @@
+import { addDays, format, getDay, parseISO, startOfDay, startOfISOWeek, startOfMonth } from 'date-fns';
+import { Category, Habit, HabitSchedule, ProtocolType, RecurrenceRule, Task, TaskPriority } from '../types';
+import { describeSchedule } from './habitSchedule';
+import { getCategoryName } from './categories';
+
+// iCalendar (RFC 5545) export: tasks with a due date become VTODOs and habits
+// become repeating all-day VEVENTs, so both show up in calendar apps.
+
+const PRODUCT_ID = '-//DO IT//Workspace Export//EN';
+const BYDAY = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+// 1 is the highest iCalendar priority, 9 the lowest
+const PRIORITY_LEVELS: Record<TaskPriority, number> = { HIGH: 1, MEDIUM: 5, LOW: 9 };
+
+const escapeText = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// Content lines are folded at 75 octets; continuation lines start with a space
+const foldLine = (line: string) => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let size = 0;
+  for (const char of line) {
+    const charSize = encoder.encode(char).length;
+    if (size + charSize > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = '';
+      size = 0;
+    }
+    current += char;
+    size += charSize;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+const formatDate = (date: Date) => format(date, 'yyyyMMdd');
+const formatTimestamp = (time: number | Date) => new Date(time).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+// Day-of-month rules clamp to the end of shorter months, as in services/recurrence.ts
+const byMonthDay = (day: number) => day <= 28
+  ? `BYMONTHDAY=${day}`
+  : `BYMONTHDAY=${Array.from({ length: day - 27 }, (_, i) => 28 + i).join(',')};BYSETPOS=-1`;
+
+const recurrenceToRRule = (rule: RecurrenceRule): string => {
+  switch (rule.frequency) {
+    case 'DAILY':
+      return 'FREQ=DAILY';
+    case 'WEEKDAYS':
+      return 'FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR';
+    case 'WEEKLY':
+      return `FREQ=WEEKLY;INTERVAL=${Math.max(1, rule.interval ?? 1)}`;
+    case 'MONTHLY':
+      return rule.dayOfMonth ? `FREQ=MONTHLY;${byMonthDay(rule.dayOfMonth)}` : 'FREQ=MONTHLY';
+    case 'YEARLY':
+      return rule.month !== undefined && rule.dayOfMonth
+        ? `FREQ=YEARLY;BYMONTH=${rule.month + 1};${byMonthDay(rule.dayOfMonth)}`
+        : 'FREQ=YEARLY';
+  }
+};
+
+// A due date is an all-day todo: it starts on that day and, since DUE must come
+// after DTSTART, is due at the start of the next one (like DTEND for events).
+const taskToVTodo = (task: Task, categoryName: string, stamp: string): string[] => [
+  'BEGIN:VTODO',
+  `UID:${task.id}@doit`,
+  `DTSTAMP:${stamp}`,
+  `CREATED:${formatTimestamp(task.createdAt)}`,
+  `SUMMARY:${escapeText(task.title)}`,
+  ...(task.description ? [`DESCRIPTION:${escapeText(task.description)}`] : []),
+  `CATEGORIES:${escapeText(categoryName)}`,
+  `PRIORITY:${PRIORITY_LEVELS[task.priority]}`,
+  `DTSTART;VALUE=DATE:${formatDate(parseISO(task.dueDate!))}`,
+  `DUE;VALUE=DATE:${formatDate(addDays(parseISO(task.dueDate!), 1))}`,
+  ...(task.recurrence ? [`RRULE:${recurrenceToRRule(task.recurrence)}`] : []),
+  ...(task.completed
+    ? ['STATUS:COMPLETED', ...(task.completedAt ? [`COMPLETED:${formatTimestamp(task.completedAt)}`] : [])]
+    : ['STATUS:NEEDS-ACTION']),
+  'END:VTODO'
+];
+
+// The current period (or, for fixed weekdays, the next due day) and the rule that repeats it
+const getHabitRecurrence = (habit: Habit, type: ProtocolType, today: Date): { start: Date; rule: string } => {
+  if (type === 'WEEKLY') return { start: startOfISOWeek(today), rule: 'FREQ=WEEKLY' };
+  if (type === 'MONTHLY') return { start: startOfMonth(today), rule: 'FREQ=MONTHLY' };
+
+  const schedule: HabitSchedule = habit.schedule ?? { kind: 'EVERY_DAY' };
+  switch (schedule.kind) {
+    case 'EVERY_DAY':
+      return { start: today, rule: 'FREQ=DAILY' };
+    case 'DAYS_OF_WEEK': {
+      if (schedule.days.length === 0) return { start: today, rule: 'FREQ=DAILY' };
+      let start = today;
+      while (!schedule.days.includes(getDay(start))) start = addDays(start, 1);
+      return { start, rule: `FREQ=WEEKLY;BYDAY=${[...schedule.days].sort().map(d => BYDAY[d]).join(',')}` };
+    }
+    // Quotas have no fixed days; one entry per period carries the count
+    case 'TIMES_PER_WEEK':
+      return { start: startOfISOWeek(today), rule: 'FREQ=WEEKLY' };
+    case 'TIMES_PER_MONTH':
+      return { start: startOfMonth(today), rule: 'FREQ=MONTHLY' };
+  }
+};
+
+const habitToVEvent = (habit: Habit, type: ProtocolType, stamp: string, today: Date): string[] => {
+  const { start, rule } = getHabitRecurrence(habit, type, today);
+  const details = [
+    type === 'DAILY' ? describeSchedule(habit.schedule) : `Once per ${type === 'WEEKLY' ? 'week' : 'month'}`,
+    ...(habit.target ? [`Goal: ${habit.target.goal} ${habit.target.unit}`] : [])
+  ];
+  return [
+    'BEGIN:VEVENT',
+    `UID:${habit.id}@doit`,
+    `DTSTAMP:${stamp}`,
+    `SUMMARY:${escapeText(habit.title)}`,
+    `DESCRIPTION:${escapeText(details.join('\n'))}`,
+    `DTSTART;VALUE=DATE:${formatDate(start)}`,
+    `DTEND;VALUE=DATE:${formatDate(addDays(start, 1))}`,
+    `RRULE:${rule}`,
+    'TRANSP:TRANSPARENT',
+    'END:VEVENT'
+  ];
+};
+
+// Open and completed tasks with a due date, plus every habit from today onwards
+export const workspaceToICalendar = (
+  habitsByType: Record<ProtocolType, Habit[]>,
+  tasks: Task[],
+  categories: Category[],
+  now: Date = new Date()
+): string => {
+  const stamp = formatTimestamp(now);
+  const today = startOfDay(now);
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    ...tasks.filter(t => t.dueDate).flatMap(t => taskToVTodo(t, getCategoryName(categories, t.categoryId), stamp)),
+    ...(Object.keys(habitsByType) as ProtocolType[]).flatMap(type =>
+      habitsByType[type].flatMap(h => habitToVEvent(h, type, stamp, today))),
+    'END:VCALENDAR'
+  ];
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
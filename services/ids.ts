@@ -0,0 +1,43 @@
+import { Category, Habit, Task } from '../types';
+import { WorkspaceData } from './dataStore';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// The Supabase tables key every row by a uuid
+export const isUuid = (id: string) => UUID_PATTERN.test(id);
+
+// Copy of the workspace with ids the tables can hold. Ids that are not UUIDs
+// (the starter data uses "1", "t1", ...) or that are already `taken` are
+// replaced with fresh ones; tasks follow their category's new id.
+export const withStorableIds = (data: WorkspaceData, taken: Set<string> = new Set()): WorkspaceData => {
+  const used = new Set(taken);
+  const replacements = new Map<string, string>();
+
+  const replace = (id: string) => {
+    if (!replacements.has(id)) replacements.set(id, crypto.randomUUID());
+    return replacements.get(id)!;
+  };
+  const remap = (id: string) => {
+    if (!isUuid(id) || used.has(id)) return replace(id);
+    used.add(id);
+    return id;
+  };
+
+  const habits = data.habits.map((h): Habit => ({ ...h, id: remap(h.id) }));
+  const weeklyHabits = data.weeklyHabits.map((h): Habit => ({ ...h, id: remap(h.id) }));
+  const monthlyHabits = data.monthlyHabits.map((h): Habit => ({ ...h, id: remap(h.id) }));
+  const categories = data.categories.map((c): Category => ({ ...c, id: remap(c.id) }));
+  const tasks = data.tasks.map((t): Task => ({ ...t, id: remap(t.id), categoryId: replacements.get(t.categoryId) ?? t.categoryId }));
+
+  // A series id is the id of its first task, so it follows that task's new id
+  const remapSeries = (seriesId: string) =>
+    replacements.get(seriesId) ?? (isUuid(seriesId) ? seriesId : replace(seriesId));
+
+  return {
+    habits,
+    weeklyHabits,
+    monthlyHabits,
+    categories,
+    tasks: tasks.map(t => t.seriesId ? { ...t, seriesId: remapSeries(t.seriesId) } : t)
+  };
+};
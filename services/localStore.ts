@@ -0,0 +1,170 @@
+import { Category, Habit, Task, ProtocolType } from '../types';
+import { DataStore, WorkspaceData } from './dataStore';
+import { getDefaultHabits, getDefaultMonthlyHabits, getDefaultCategories, getDefaultTasks } from './defaults';
+import { getAppendPositions, normalizePositions } from './ordering';
+import { withCompletion } from './habitSchedule';
+import { mergeWorkspace } from './backup';
+import { getCategoryName, upgradeCategoryNames } from './categories';
+
+// The subset of the Web Storage API the local store relies on.
+export type KeyValueStorage = Pick<Storage, 'getItem' | 'setItem' | 'removeItem'>;
+
+// Non-persistent storage, handy for tests and throwaway sessions.
+export const createMemoryStorage = (): KeyValueStorage => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => { items.set(key, String(value)); },
+    removeItem: (key) => { items.delete(key); }
+  };
+};
+
+// Every key the offline backend writes, before namespacing
+export const LOCAL_DATA_KEYS = ['doit_habits', 'doit_weekly_habits', 'doit_monthly_habits', 'doit_categories', 'doit_tasks'];
+
+export const getLocalStorageKey = (key: string, user: string | null) => user ? `${key}_${user}` : key;
+
+// Offline backend: one JSON document per collection, namespaced by user.
+export const createLocalStore = (user: string | null, storage: KeyValueStorage = localStorage): DataStore => {
+  const getStorageKey = (key: string) => getLocalStorageKey(key, user);
+
+  const read = <T,>(key: string, fallback: () => T): T => {
+    const raw = storage.getItem(getStorageKey(key));
+    if (!raw) return fallback();
+    try {
+      return JSON.parse(raw) as T;
+    } catch (e) {
+      console.error(`Failed to parse local data for ${key}`, e);
+      return fallback();
+    }
+  };
+
+  const write = (key: string, value: unknown) => {
+    storage.setItem(getStorageKey(key), JSON.stringify(value));
+  };
+
+  // Workspaces written before categories had ids are converted once, in place
+  let isUpgraded = false;
+  const upgradeLegacyData = () => {
+    isUpgraded = true;
+    const storedCategories = read<unknown[] | null>('doit_categories', () => null);
+    const storedTasks = read<any[] | null>('doit_tasks', () => null);
+    const isLegacy = storedCategories?.some(c => typeof c === 'string') || storedTasks?.some(t => t.categoryId === undefined);
+    if (!isLegacy) return;
+
+    const defaults = getDefaultCategories();
+    const names = storedCategories
+      ? storedCategories.filter((c): c is string => typeof c === 'string')
+      : defaults.map(c => c.name);
+    const tasks = storedTasks ?? getDefaultTasks().map(({ categoryId, ...t }) => ({ ...t, column: getCategoryName(defaults, categoryId) }));
+    const upgraded = upgradeCategoryNames(names, tasks);
+    write('doit_categories', upgraded.categories);
+    write('doit_tasks', upgraded.tasks);
+  };
+
+  const load = (): WorkspaceData => {
+    if (!isUpgraded) upgradeLegacyData();
+    return {
+      habits: read('doit_habits', getDefaultHabits),
+      weeklyHabits: read('doit_weekly_habits', () => []),
+      monthlyHabits: read('doit_monthly_habits', getDefaultMonthlyHabits),
+      categories: read('doit_categories', getDefaultCategories),
+      tasks: normalizePositions(read('doit_tasks', getDefaultTasks))
+    };
+  };
+
+  const HABIT_KEYS: Record<ProtocolType, string> = {
+    DAILY: 'doit_habits',
+    WEEKLY: 'doit_weekly_habits',
+    MONTHLY: 'doit_monthly_habits'
+  };
+
+  const getHabitList = (data: WorkspaceData, type: ProtocolType) =>
+    type === 'DAILY' ? data.habits : type === 'WEEKLY' ? data.weeklyHabits : data.monthlyHabits;
+
+  // Defaults are only materialised once something is written, so a fresh
+  // profile keeps showing the starter data until the user changes it.
+  const updateHabits = (update: (list: Habit[]) => Habit[]) => {
+    const data = load();
+    write('doit_habits', update(data.habits));
+    write('doit_weekly_habits', update(data.weeklyHabits));
+    write('doit_monthly_habits', update(data.monthlyHabits));
+  };
+
+  const updateTasks = (update: (list: Task[]) => Task[]) => {
+    write('doit_tasks', update(load().tasks));
+  };
+
+  const updateCategories = (update: (list: Category[]) => Category[]) => {
+    write('doit_categories', update(load().categories));
+  };
+
+  return {
+    load: async () => load(),
+
+    addHabit: async (habit, type) => {
+      write(HABIT_KEYS[type], [...getHabitList(load(), type), habit]);
+    },
+
+    updateHabit: async (id, updates) => {
+      updateHabits(list => list.map(h => h.id === id ? { ...h, ...updates } : h));
+    },
+
+    deleteHabit: async (id) => {
+      updateHabits(list => list.filter(h => h.id !== id));
+    },
+
+    setCompletion: async (id, key, value) => {
+      updateHabits(list => list.map(h => h.id === id ? { ...h, completions: withCompletion(h.completions, key, value) } : h));
+    },
+
+    addTask: async (task) => {
+      updateTasks(list => [...list, task]);
+    },
+
+    updateTask: async (id, updates) => {
+      updateTasks(list => list.map(t => t.id === id ? { ...t, ...updates } : t));
+    },
+
+    deleteTask: async (id) => {
+      updateTasks(list => list.filter(t => t.id !== id));
+    },
+
+    addCategory: async (category) => {
+      updateCategories(list => list.some(c => c.id === category.id) ? list : [...list, category]);
+    },
+
+    updateCategory: async (id, updates) => {
+      updateCategories(list => list.map(c => c.id === id ? { ...c, ...updates } : c));
+    },
+
+    deleteCategory: async (id, moveTasksTo) => {
+      updateTasks(list => {
+        if (!moveTasksTo) return list.filter(t => t.categoryId !== id);
+        const positions = getAppendPositions(list, id, moveTasksTo);
+        return list.map(t => t.categoryId === id ? { ...t, categoryId: moveTasksTo, position: positions[t.id] } : t);
+      });
+      updateCategories(list => list.filter(c => c.id !== id));
+    },
+
+    importData: async (data, mode) => {
+      const next = mode === 'REPLACE' ? data : mergeWorkspace(load(), data);
+      write('doit_habits', next.habits);
+      write('doit_weekly_habits', next.weeklyHabits);
+      write('doit_monthly_habits', next.monthlyHabits);
+      write('doit_categories', next.categories);
+      write('doit_tasks', next.tasks);
+    }
+  };
+};
+
+// A local store over memory storage, seeded with a snapshot instead of the defaults.
+export const createMemoryStore = (seed: WorkspaceData): DataStore => {
+  const storage = createMemoryStorage();
+  storage.setItem('doit_habits', JSON.stringify(seed.habits));
+  storage.setItem('doit_weekly_habits', JSON.stringify(seed.weeklyHabits));
+  storage.setItem('doit_monthly_habits', JSON.stringify(seed.monthlyHabits));
+  storage.setItem('doit_categories', JSON.stringify(seed.categories));
+  storage.setItem('doit_tasks', JSON.stringify(seed.tasks));
+  return createLocalStore(null, storage);
+};
@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+import { WorkspaceData } from './dataStore';
+import { getDefaultCategories, getDefaultHabits, getDefaultMonthlyHabits, getDefaultTasks } from './defaults';
+import { isUuid } from './ids';
+import { createLocalStore, createMemoryStorage } from './localStore';
+import { findLocalWorkspace, getMigrationMarker, markMigrated, prepareMigration } from './migration';
+import { makeCategory, makeHabit, makeTask, makeWorkspace } from './testData';
+
+const EMPTY: WorkspaceData = { habits: [], weeklyHabits: [], monthlyHabits: [], categories: [], tasks: [] };
+
+const allIds = (data: WorkspaceData) =>
+  [...data.habits, ...data.weeklyHabits, ...data.monthlyHabits, ...data.categories, ...data.tasks].map(item => item.id);
+
+describe('prepareMigration', () => {
+  const starter: WorkspaceData = {
+    habits: getDefaultHabits(),
+    weeklyHabits: [],
+    monthlyHabits: getDefaultMonthlyHabits(),
+    categories: getDefaultCategories(),
+    tasks: getDefaultTasks()
+  };
+
+  it('replaces the starter ids with distinct UUIDs', () => {
+    const ids = allIds(prepareMigration(starter, EMPTY));
+    expect(ids.every(isUuid)).toBe(true);
+    expect(new Set(ids).size).toBe(ids.length);
+    expect(ids).not.toContain('1');
+    expect(ids).not.toContain('t1');
+  });
+
+  it('keeps every task in its category', () => {
+    const migrated = prepareMigration(starter, EMPTY);
+    const categoryNames = (data: WorkspaceData) =>
+      data.tasks.map(t => data.categories.find(c => c.id === t.categoryId)?.name);
+    expect(categoryNames(migrated)).toEqual(categoryNames(starter));
+  });
+
+  it('points a series at the new id of its first task', () => {
+    const local = makeWorkspace({
+      tasks: [
+        makeTask({ id: 't1', recurrence: { frequency: 'WEEKLY' }, seriesId: 't1', completed: true }),
+        makeTask({ id: 't2', recurrence: { frequency: 'WEEKLY' }, seriesId: 't1', position: 2048 }),
+        // The first task of this series was deleted
+        makeTask({ id: 't3', recurrence: { frequency: 'DAILY' }, seriesId: 't0', position: 3072 })
+      ]
+    });
+    const [first, next, orphan] = prepareMigration(local, EMPTY).tasks;
+    expect(first.seriesId).toBe(first.id);
+    expect(next.seriesId).toBe(first.id);
+    expect(isUuid(orphan.seriesId!)).toBe(true);
+    expect(orphan.seriesId).not.toBe(first.id);
+  });
+
+  it('keeps UUIDs the account does not use and replaces the ones it does', () => {
+    const [kept, taken] = [crypto.randomUUID(), crypto.randomUUID()];
+    const local = makeWorkspace({
+      habits: [makeHabit({ id: kept }), makeHabit({ id: taken })],
+      categories: [makeCategory({ id: taken })],
+      tasks: [makeTask({ categoryId: taken })]
+    });
+    const account = makeWorkspace({ habits: [], categories: [makeCategory({ id: taken })], tasks: [] });
+
+    const migrated = prepareMigration(local, account);
+    expect(migrated.habits[0].id).toBe(kept);
+    expect(migrated.habits[1].id).not.toBe(taken);
+    expect(migrated.categories[0].id).not.toBe(taken);
+    expect(migrated.tasks[0].categoryId).toBe(migrated.categories[0].id);
+  });
+
+  it('does not modify the local data', () => {
+    const local = makeWorkspace();
+    prepareMigration(local, EMPTY);
+    expect(local).toEqual(makeWorkspace());
+  });
+});
+
+describe('findLocalWorkspace', () => {
+  it('offers nothing when no data was ever written', async () => {
+    expect(await findLocalWorkspace(createMemoryStorage())).toBeNull();
+  });
+
+  it('offers the last offline user before the signed-out profile', async () => {
+    const storage = createMemoryStorage();
+    storage.setItem('doit_current_user', 'ada');
+    await createLocalStore(null, storage).addHabit(makeHabit({ id: 'h9' }), 'DAILY');
+    await createLocalStore('ada', storage).addHabit(makeHabit({ id: 'h8' }), 'DAILY');
+
+    const local = await findLocalWorkspace(storage);
+    expect(local?.owner).toBe('ada');
+    expect(local?.data.habits.map(h => h.id)).toContain('h8');
+  });
+
+  it('falls back to the signed-out profile', async () => {
+    const storage = createMemoryStorage();
+    storage.setItem('doit_current_user', 'ada');
+    await createLocalStore(null, storage).addTask(makeTask({ id: 't9' }));
+
+    const local = await findLocalWorkspace(storage);
+    expect(local?.owner).toBeNull();
+    expect(local?.data.tasks.map(t => t.id)).toContain('t9');
+  });
+
+  it('does not offer data a second time once it is marked migrated', async () => {
+    const storage = createMemoryStorage();
+    await createLocalStore(null, storage).addTask(makeTask({ id: 't9' }));
+    markMigrated(storage, null, 'account-1', 5);
+
+    expect(getMigrationMarker(storage, null)).toEqual({ userId: 'account-1', migratedAt: 5 });
+    expect(await findLocalWorkspace(storage)).toBeNull();
+    // The local copy is kept
+    expect((await createLocalStore(null, storage).load()).tasks.map(t => t.id)).toContain('t9');
+  });
+
+  it('ignores an unreadable marker', async () => {
+    const storage = createMemoryStorage();
+    await createLocalStore(null, storage).addTask(makeTask({ id: 't9' }));
+    storage.setItem('doit_migrated', '{not json');
+    expect(await findLocalWorkspace(storage)).not.toBeNull();
+  });
+});
@@ -0,0 +1,58 @@
+import { WorkspaceData } from './dataStore';
+import { withStorableIds } from './ids';
+import { KeyValueStorage, LOCAL_DATA_KEYS, createLocalStore, getLocalStorageKey } from './localStore';
+
+// Offline data left behind when a user switches to a Supabase account. The local
+// copy is never deleted; a marker stops it from being offered a second time.
+
+const CURRENT_USER_KEY = 'doit_current_user';
+const MIGRATED_KEY = 'doit_migrated';
+
+export interface LocalWorkspace {
+  // The offline user the data was saved under, null for the signed-out profile
+  owner: string | null;
+  data: WorkspaceData;
+}
+
+export interface MigrationMarker {
+  userId: string;
+  migratedAt: number;
+}
+
+const hasLocalData = (storage: KeyValueStorage, owner: string | null) =>
+  LOCAL_DATA_KEYS.some(key => storage.getItem(getLocalStorageKey(key, owner)) !== null);
+
+export const getMigrationMarker = (storage: KeyValueStorage, owner: string | null): MigrationMarker | null => {
+  const raw = storage.getItem(getLocalStorageKey(MIGRATED_KEY, owner));
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw) as MigrationMarker;
+  } catch {
+    return null;
+  }
+};
+
+export const markMigrated = (storage: KeyValueStorage, owner: string | null, userId: string, now: number = Date.now()) => {
+  const marker: MigrationMarker = { userId, migratedAt: now };
+  storage.setItem(getLocalStorageKey(MIGRATED_KEY, owner), JSON.stringify(marker));
+};
+
+// The last offline user's data, or else the signed-out profile's, unless it was
+// already migrated. Starter data that was never written does not count.
+export const findLocalWorkspace = async (storage: KeyValueStorage = localStorage): Promise<LocalWorkspace | null> => {
+  const owners = [storage.getItem(CURRENT_USER_KEY), null];
+  for (const owner of owners) {
+    if (owner === '' || !hasLocalData(storage, owner) || getMigrationMarker(storage, owner)) continue;
+    const data = await createLocalStore(owner, storage).load();
+    return { owner, data };
+  }
+  return null;
+};
+
+// Copy of the local data that can be merged into the account without touching
+// what is already there. Ids the tables cannot hold (the starter data uses "1",
+// "t1", ...) or that the account already uses are replaced with fresh UUIDs.
+export const prepareMigration = (local: WorkspaceData, account: WorkspaceData): WorkspaceData =>
+  withStorableIds(local, new Set([
+    ...account.habits, ...account.weeklyHabits, ...account.monthlyHabits, ...account.tasks, ...account.categories
+  ].map(item => item.id)));
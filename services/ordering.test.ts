@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { Task } from '../types';
+import { POSITION_STEP, getColumnTasks, getMovePositions, getNextPosition, normalizePositions } from './ordering';
+import { makeTask } from './testData';
+
+const column = (...positions: number[]) =>
+  positions.map((position, i) => makeTask({ id: `t${i + 1}`, position }));
+
+describe('getColumnTasks', () => {
+  it('sorts a category by position, then creation time', () => {
+    const tasks = [
+      makeTask({ id: 'late', position: 2048 }),
+      makeTask({ id: 'other', categoryId: 'c2', position: 0 }),
+      makeTask({ id: 'tie-new', position: 1024, createdAt: 5 }),
+      makeTask({ id: 'tie-old', position: 1024, createdAt: 1 })
+    ];
+    expect(getColumnTasks(tasks, 'c1').map(t => t.id)).toEqual(['tie-old', 'tie-new', 'late']);
+  });
+});
+
+describe('getNextPosition', () => {
+  it.each([
+    ['an empty category', [], POSITION_STEP],
+    ['after the last task', column(1024, 5000), 5000 + POSITION_STEP],
+    ['after negative positions', column(-2048), -1024]
+  ])('places a new task %s', (_case, tasks: Task[], expected) => {
+    expect(getNextPosition(tasks, 'c1')).toBe(expected);
+  });
+});
+
+describe('getMovePositions', () => {
+  it.each([
+    ['to the top', column(1024, 2048, 3072), 't3', 0, { t3: 0 }],
+    ['to the bottom', column(1024, 2048, 3072), 't1', 2, { t1: 4096 }],
+    ['between two tasks', column(1024, 2048, 3072), 't3', 1, { t3: 1536 }],
+    ['down past a neighbour', column(1024, 2048, 3072), 't1', 1, { t1: 2560 }],
+    ['into an empty category', [], 't9', 0, { t9: POSITION_STEP }],
+    ['beyond the end', column(1024), 't9', 7, { t9: 2048 }],
+    ['before the start', column(1024), 't9', -3, { t9: 0 }]
+  ])('moves a task %s with one write', (_case, tasks: Task[], taskId, index, expected) => {
+    expect(getMovePositions(tasks, taskId, 'c1', index)).toEqual(expected);
+  });
+
+  it('respaces the whole category once neighbours get too close', () => {
+    const tasks = column(1, 1 + 1e-7, 2);
+    expect(getMovePositions(tasks, 't3', 'c1', 1)).toEqual({ t1: 1024, t3: 2048, t2: 3072 });
+  });
+
+  it('keeps halving the gap for repeated inserts at the same spot', () => {
+    let tasks = column(1024, 2048);
+    for (let i = 0; i < 20; i++) {
+      const id = `n${i}`;
+      const positions = getMovePositions([...tasks, makeTask({ id })], id, 'c1', 1);
+      tasks = [...tasks.map(t => ({ ...t, position: positions[t.id] ?? t.position })), makeTask({ id, position: positions[id] })];
+    }
+    const order = getColumnTasks(tasks, 'c1').map(t => t.id);
+    expect(order[0]).toBe('t1');
+    expect(order[1]).toBe('n19');
+    expect(order[order.length - 1]).toBe('t2');
+  });
+});
+
+describe('normalizePositions', () => {
+  it('ranks tasks without a position after the ranked ones, per category', () => {
+    const unranked = (id: string, categoryId = 'c1') => ({ ...makeTask({ id, categoryId }), position: undefined }) as unknown as Task;
+    const result = normalizePositions([
+      unranked('a'),
+      makeTask({ id: 'b', position: 5000 }),
+      unranked('c', 'c2'),
+      unranked('d')
+    ]);
+    expect(result.map(t => [t.id, t.position])).toEqual([
+      ['c', 1024],
+      ['b', 5000],
+      ['a', 6024],
+      ['d', 7048]
+    ]);
+  });
+});
@@ -0,0 +1,87 @@
+import { Category, Task } from '../types';
+
+// Tasks are ordered by a fractional `position` within their category, and
+// categories among themselves. Moving an item gives it the midpoint of its new
+// neighbours, so a reorder normally writes one row.
+export const POSITION_STEP = 1024;
+
+// Below this gap midpoints stop being distinguishable and the list is respaced.
+const MIN_GAP = 1e-6;
+
+interface Ranked {
+  id: string;
+  position: number;
+}
+
+export const compareByPosition = (a: Task, b: Task) =>
+  a.position - b.position || a.createdAt - b.createdAt;
+
+export const getColumnTasks = (tasks: Task[], categoryId: string) =>
+  tasks.filter(t => t.categoryId === categoryId).sort(compareByPosition);
+
+const getPositionAfter = (sorted: Ranked[]) =>
+  sorted.length > 0 ? sorted[sorted.length - 1].position + POSITION_STEP : POSITION_STEP;
+
+export const getNextPosition = (tasks: Task[], categoryId: string) =>
+  getPositionAfter(getColumnTasks(tasks, categoryId));
+
+// New positions (by id) for placing `id` at `index` of the sorted `list`, where
+// `index` counts the list without the moved item.
+const getRankPositions = (list: Ranked[], id: string, index: number): Record<string, number> => {
+  const siblings = list.filter(item => item.id !== id);
+  const target = Math.max(0, Math.min(index, siblings.length));
+  const before = siblings[target - 1]?.position;
+  const after = siblings[target]?.position;
+
+  if (before === undefined && after === undefined) return { [id]: POSITION_STEP };
+  if (before === undefined) return { [id]: after - POSITION_STEP };
+  if (after === undefined) return { [id]: before + POSITION_STEP };
+  if (after - before > MIN_GAP) return { [id]: (before + after) / 2 };
+
+  const ids = siblings.map(item => item.id);
+  ids.splice(target, 0, id);
+  return Object.fromEntries(ids.map((itemId, i) => [itemId, (i + 1) * POSITION_STEP]));
+};
+
+// New positions (by task id) for placing `taskId` at `index` of the category,
+// where `index` counts the category's tasks without the moved one.
+export const getMovePositions = (tasks: Task[], taskId: string, categoryId: string, index: number): Record<string, number> =>
+  getRankPositions(getColumnTasks(tasks, categoryId), taskId, index);
+
+// Positions (by task id) for moving every task of `fromId` to the end of `toId`, in their current order
+export const getAppendPositions = (tasks: Task[], fromId: string, toId: string): Record<string, number> => {
+  const start = getNextPosition(tasks, toId);
+  return Object.fromEntries(getColumnTasks(tasks, fromId).map((t, i) => [t.id, start + i * POSITION_STEP]));
+};
+
+// --- Categories ---
+
+export const getSortedCategories = (categories: Category[]) =>
+  [...categories].sort((a, b) => a.position - b.position);
+
+export const getNextCategoryPosition = (categories: Category[]) =>
+  getPositionAfter(getSortedCategories(categories));
+
+// Same as getMovePositions, for the tab order
+export const getCategoryMovePositions = (categories: Category[], categoryId: string, index: number): Record<string, number> =>
+  getRankPositions(getSortedCategories(categories), categoryId, index);
+
+// Gives tasks saved before positions existed a place after the ranked ones,
+// keeping their stored order.
+export const normalizePositions = (tasks: Task[]): Task[] => {
+  const lastPosition: Record<string, number> = {};
+  tasks.forEach(t => {
+    if (typeof t.position === 'number') {
+      lastPosition[t.categoryId] = Math.max(lastPosition[t.categoryId] ?? 0, t.position);
+    }
+  });
+
+  return tasks
+    .map(t => {
+      if (typeof t.position === 'number') return t;
+      const position = (lastPosition[t.categoryId] ?? 0) + POSITION_STEP;
+      lastPosition[t.categoryId] = position;
+      return { ...t, position };
+    })
+    .sort(compareByPosition);
+};
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { parseQuickAdd } from './quickAdd';
+
+// A Wednesday
+const NOW = new Date(2024, 0, 10, 9, 30);
+
+const CATEGORIES = ['Complete It', 'Monthly', 'Side', 'Side Projects'];
+
+const parse = (text: string, now: Date = NOW) => parseQuickAdd(text, CATEGORIES, now);
+
+describe('parseQuickAdd', () => {
+  it('reads priority, category and due date out of the title', () => {
+    expect(parse('Ship release notes !high #Monthly tomorrow')).toEqual({
+      title: 'Ship release notes',
+      priority: 'HIGH',
+      category: 'Monthly',
+      dueDate: '2024-01-11',
+      tags: []
+    });
+  });
+
+  it('leaves plain text alone', () => {
+    expect(parse('  Call   the bank ')).toEqual({ title: 'Call the bank', tags: [] });
+  });
+
+  it.each([
+    ['!high', 'HIGH'], ['!h', 'HIGH'], ['!1', 'HIGH'], ['!HIGH', 'HIGH'],
+    ['!medium', 'MEDIUM'], ['!med', 'MEDIUM'], ['!m', 'MEDIUM'], ['!2', 'MEDIUM'],
+    ['!low', 'LOW'], ['!l', 'LOW'], ['!3', 'LOW']
+  ])('reads %s as %s priority', (token, priority) => {
+    expect(parse(`Task ${token}`)).toMatchObject({ title: 'Task', priority });
+  });
+
+  it('keeps unknown bang words in the title', () => {
+    expect(parse('Wow !urgent')).toEqual({ title: 'Wow !urgent', tags: [] });
+  });
+
+  it.each([
+    ['#Side Projects', 'Side Projects', 'Plan'],
+    ['#side projects', 'Side Projects', 'Plan'],
+    ['#Side', 'Side', 'Plan'],
+    ['#Complete It', 'Complete It', 'Plan']
+  ])('matches %s to the longest category', (token, category, title) => {
+    expect(parse(`Plan ${token}`)).toMatchObject({ title, category });
+  });
+
+  it('keeps words after a shorter category name', () => {
+    expect(parse('Plan #Side quests')).toMatchObject({ title: 'Plan quests', category: 'Side' });
+  });
+
+  it('turns hashtags that name no category into tags, once each', () => {
+    expect(parse('Buy milk #errands #Monthly #urgent #errands')).toEqual({
+      title: 'Buy milk',
+      category: 'Monthly',
+      tags: ['errands', 'urgent']
+    });
+  });
+
+  it.each<[string, string, Date?]>([
+    ['today', '2024-01-10'],
+    ['tonight', '2024-01-10'],
+    ['tmr', '2024-01-11'],
+    ['2024-03-05', '2024-03-05'],
+    ['friday', '2024-01-12'],
+    ['next friday', '2024-01-12'],
+    // A weekday is never today: a Wednesday means next week's
+    ['wednesday', '2024-01-17'],
+    ['monday', '2024-01-15', new Date(2024, 0, 8, 9)],
+    ['next week', '2024-01-17'],
+    ['next month', '2024-02-10'],
+    ['in 1 day', '2024-01-11'],
+    ['in 3 weeks', '2024-01-31'],
+    ['in 2 months', '2024-03-10'],
+    ['oct 25', '2024-10-25'],
+    ['25 October', '2024-10-25'],
+    // Month and day without a year are never in the past
+    ['oct 25', '2025-10-25', new Date(2024, 10, 1)],
+    ['jan 10', '2024-01-10']
+  ])('reads "%s" as %s', (phrase, dueDate, now) => {
+    expect(parse(`Pay rent ${phrase}`, now)).toEqual({ title: 'Pay rent', dueDate, tags: [] });
+  });
+
+  it('keeps short weekday names and incomplete phrases in the title', () => {
+    expect(parse('Wed in 3')).toEqual({ title: 'Wed in 3', tags: [] });
+    expect(parse('Call mom next')).toEqual({ title: 'Call mom next', tags: [] });
+  });
+
+  it('lets the last of two repeated tokens win', () => {
+    expect(parse('Review !low draft !high #Side Projects #Monthly tomorrow in 2 days')).toEqual({
+      title: 'Review draft',
+      priority: 'HIGH',
+      category: 'Monthly',
+      dueDate: '2024-01-12',
+      tags: []
+    });
+  });
+});
@@ -0,0 +1,141 @@
+import { addDays, addMonths, addWeeks, format, getDay, isBefore, isValid, parse, startOfDay } from 'date-fns';
+import { TaskPriority } from '../types';
+
+export interface QuickAddResult {
+  title: string;
+  priority?: TaskPriority;
+  // An existing category, matched case-insensitively
+  category?: string;
+  // YYYY-MM-DD
+  dueDate?: string;
+  // Hashtags that did not name a category
+  tags: string[];
+}
+
+const PRIORITY_TOKENS: Record<string, TaskPriority> = {
+  '!high': 'HIGH', '!h': 'HIGH', '!1': 'HIGH',
+  '!medium': 'MEDIUM', '!med': 'MEDIUM', '!m': 'MEDIUM', '!2': 'MEDIUM',
+  '!low': 'LOW', '!l': 'LOW', '!3': 'LOW'
+};
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+const MONTH_FORMATS = ['MMM d', 'MMMM d', 'd MMM', 'd MMMM'];
+
+const toKey = (date: Date) => format(date, 'yyyy-MM-dd');
+
+// Full weekday names only, since short forms like "sun" or "wed" are common
+// title words. "monday" on a Monday means next week.
+const parseWeekday = (word: string, today: Date): Date | null => {
+  const day = WEEKDAYS.indexOf(word);
+  if (day < 0) return null;
+  return addDays(today, (day - getDay(today) + 7) % 7 || 7);
+};
+
+// Month/day dates without a year land on the next such date, never in the past
+const parseMonthDay = (text: string, today: Date): Date | null => {
+  for (const pattern of MONTH_FORMATS) {
+    const date = parse(text, pattern, today);
+    if (isValid(date)) return isBefore(date, today) ? addMonths(date, 12) : date;
+  }
+  return null;
+};
+
+interface DateMatch {
+  date: Date;
+  // Number of words the date phrase used
+  length: number;
+}
+
+// Recognises a date phrase at the start of `words`
+const matchDate = (words: string[], today: Date): DateMatch | null => {
+  const [first = '', second = '', third = ''] = words.map(w => w.toLowerCase());
+
+  if (first === 'today' || first === 'tonight') return { date: today, length: 1 };
+  if (first === 'tomorrow' || first === 'tmr') return { date: addDays(today, 1), length: 1 };
+  if (/^\d{4}-\d{2}-\d{2}$/.test(first)) {
+    const date = parse(first, 'yyyy-MM-dd', today);
+    if (isValid(date)) return { date, length: 1 };
+  }
+  if (first === 'next' && second === 'week') return { date: addWeeks(today, 1), length: 2 };
+  if (first === 'next' && second === 'month') return { date: addMonths(today, 1), length: 2 };
+  if (first === 'next') {
+    const date = parseWeekday(second, today);
+    if (date) return { date, length: 2 };
+  }
+  if (first === 'in' && /^\d+$/.test(second)) {
+    const count = parseInt(second, 10);
+    if (/^days?$/.test(third)) return { date: addDays(today, count), length: 3 };
+    if (/^weeks?$/.test(third)) return { date: addWeeks(today, count), length: 3 };
+    if (/^months?$/.test(third)) return { date: addMonths(today, count), length: 3 };
+  }
+
+  const weekday = parseWeekday(first, today);
+  if (weekday) return { date: weekday, length: 1 };
+
+  // "oct 25" / "25 oct" need both words
+  if (second) {
+    const date = parseMonthDay(`${words[0]} ${words[1]}`, today);
+    if (date) return { date, length: 2 };
+  }
+  return null;
+};
+
+// Longest category whose name follows the "#" at `words[0]`, so multi-word
+// categories like "#Side Projects" work
+const matchCategory = (words: string[], categories: string[]): { category: string; length: number } | null => {
+  const byLength = [...categories].sort((a, b) => b.length - a.length);
+  for (const category of byLength) {
+    const parts = category.trim().split(/\s+/);
+    const candidate = words.slice(0, parts.length).join(' ');
+    if (`#${category.trim()}`.toLowerCase() === candidate.toLowerCase()) return { category, length: parts.length };
+  }
+  return null;
+};
+
+// Deterministic parser for quick-add text such as
+// "Ship release notes !high #Monthly tomorrow". Recognised tokens are removed
+// from the title; when a token appears twice, the last one wins.
+export const parseQuickAdd = (text: string, categories: string[], now: Date = new Date()): QuickAddResult => {
+  const today = startOfDay(now);
+  const words = text.trim().split(/\s+/).filter(Boolean);
+  const result: QuickAddResult = { title: '', tags: [] };
+  const titleWords: string[] = [];
+
+  for (let i = 0; i < words.length;) {
+    const word = words[i];
+    const lower = word.toLowerCase();
+
+    if (PRIORITY_TOKENS[lower]) {
+      result.priority = PRIORITY_TOKENS[lower];
+      i++;
+      continue;
+    }
+
+    if (word.startsWith('#') && word.length > 1) {
+      const match = matchCategory(words.slice(i), categories);
+      if (match) {
+        result.category = match.category;
+        i += match.length;
+      } else {
+        const tag = word.slice(1);
+        if (!result.tags.includes(tag)) result.tags.push(tag);
+        i++;
+      }
+      continue;
+    }
+
+    const date = matchDate(words.slice(i), today);
+    if (date) {
+      result.dueDate = toKey(date.date);
+      i += date.length;
+      continue;
+    }
+
+    titleWords.push(word);
+    i++;
+  }
+
+  result.title = titleWords.join(' ');
+  return result;
+};
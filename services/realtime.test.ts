@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { createEchoFilter, replaceById } from './realtime';
+import { makeCategory, makeHabit, makeTask } from './testData';
+
+describe('createEchoFilter', () => {
+  it.each([
+    ['habit', 'habits', { table: 'habits', type: 'UPSERT', habit: makeHabit({ title: 'Read more' }) }],
+    ['task', 'tasks', { table: 'tasks', type: 'UPSERT', task: makeTask({ id: 'h1', title: 'Read more' }) }],
+    ['category', 'categories', { table: 'categories', type: 'UPSERT', category: makeCategory({ id: 'h1', name: 'Read more' }) }]
+  ] as const)('recognises the echo of a %s write once', (_case, table, change) => {
+    const echoes = createEchoFilter();
+    echoes.expect(table, 'h1', table === 'categories' ? { name: 'Read more' } : { title: 'Read more' });
+    expect(echoes.isEcho(change)).toBe(true);
+    expect(echoes.isEcho(change)).toBe(false);
+  });
+
+  it('passes on changes that differ from the write', () => {
+    const echoes = createEchoFilter();
+    echoes.expect('categories', 'c1', { name: 'Work', archived: true });
+    expect(echoes.isEcho({ table: 'categories', type: 'UPSERT', category: makeCategory() })).toBe(false);
+    expect(echoes.isEcho({ table: 'tasks', type: 'UPSERT', task: makeTask({ id: 'c1' }) })).toBe(false);
+  });
+
+  it('matches deletes only to deletes', () => {
+    const echoes = createEchoFilter();
+    echoes.expect('categories', 'c1', null);
+    expect(echoes.isEcho({ table: 'categories', type: 'UPSERT', category: makeCategory() })).toBe(false);
+    expect(echoes.isEcho({ table: 'categories', type: 'DELETE', id: 'c1' })).toBe(true);
+  });
+
+  it('forgets writes whose echo never arrives', () => {
+    let now = 0;
+    const echoes = createEchoFilter(() => now);
+    echoes.expect('categories', 'c1', null);
+    now = 60000;
+    expect(echoes.isEcho({ table: 'categories', type: 'DELETE', id: 'c1' })).toBe(false);
+  });
+});
+
+describe('replaceById', () => {
+  const list = [makeCategory(), makeCategory({ id: 'c2', name: 'Home' })];
+
+  it.each([
+    ['replaces in place', 'c1', makeCategory({ name: 'Job' }), ['Job', 'Home']],
+    ['appends a new record', 'c3', makeCategory({ id: 'c3', name: 'Garden' }), ['Work', 'Home', 'Garden']],
+    ['removes for null', 'c1', null, ['Home']]
+  ] as const)('%s', (_case, id, next, names) => {
+    expect(replaceById(list, id, next).map(c => c.name)).toEqual(names);
+  });
+
+  it('returns the same list when removing an unknown id', () => {
+    expect(replaceById(list, 'c9', null)).toBe(list);
+  });
+});
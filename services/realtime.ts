@@ -0,0 +1,158 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Category, Habit, ProtocolType, Task } from '../types';
+import { categoryFromRow, habitFromRow, taskFromRow } from './supabaseStore';
+import { SyncQueue } from './syncQueue';
+
+// Live updates from other devices. Supabase pushes every row change on the
+// user's tables; changes this client wrote itself are filtered out as echoes and
+// the rest are merged into state on top of any writes still in the outbox.
+
+export type RealtimeTable = 'habits' | 'tasks' | 'categories';
+
+export type RemoteChange =
+  | { table: 'habits'; type: 'UPSERT'; habit: Habit }
+  | { table: 'habits'; type: 'DELETE'; id: string }
+  | { table: 'tasks'; type: 'UPSERT'; task: Task }
+  | { table: 'tasks'; type: 'DELETE'; id: string }
+  | { table: 'categories'; type: 'UPSERT'; category: Category }
+  | { table: 'categories'; type: 'DELETE'; id: string };
+
+// The row an upsert carries; null for a delete
+const getChangedRecord = (change: RemoteChange): { id: string } | null => {
+  if (change.type === 'DELETE') return null;
+  return change.table === 'habits' ? change.habit : change.table === 'tasks' ? change.task : change.category;
+};
+
+// --- Echoes ---
+
+export interface EchoFilter {
+  // Records a write about to be sent; null fields mean a delete
+  expect(table: RealtimeTable, id: string, fields: Record<string, unknown> | null): void;
+  // Whether the change is the server repeating one of those writes; consumes the match
+  isEcho(change: RemoteChange): boolean;
+}
+
+// Writes whose echo never arrives (failed, or the change was a no-op) are forgotten after this
+const ECHO_TTL_MS = 60000;
+
+// null and undefined both mean "not set"; objects compare by content, since
+// jsonb does not keep key order
+const isSameValue = (a: unknown, b: unknown): boolean => {
+  if (a === b || (a == null && b == null)) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+  const keysA = Object.keys(a).filter(k => (a as any)[k] !== undefined);
+  const keysB = Object.keys(b).filter(k => (b as any)[k] !== undefined);
+  return keysA.length === keysB.length && keysA.every(k => isSameValue((a as any)[k], (b as any)[k]));
+};
+
+interface Expectation {
+  key: string;
+  fields: Record<string, unknown> | null;
+  expiresAt: number;
+}
+
+export const createEchoFilter = (now: () => number = Date.now): EchoFilter => {
+  let expectations: Expectation[] = [];
+
+  return {
+    expect: (table, id, fields) => {
+      expectations.push({ key: `${table}:${id}`, fields, expiresAt: now() + ECHO_TTL_MS });
+    },
+
+    isEcho: (change) => {
+      expectations = expectations.filter(e => e.expiresAt > now());
+
+      const record = getChangedRecord(change);
+      const id = change.type === 'DELETE' ? change.id : record!.id;
+      const index = expectations.findIndex(e =>
+        e.key === `${change.table}:${id}` &&
+        (record === null
+          ? e.fields === null
+          : e.fields !== null && Object.entries(e.fields).every(([field, value]) => isSameValue((record as any)[field], value))));
+
+      if (index < 0) return false;
+      expectations.splice(index, 1);
+      return true;
+    }
+  };
+};
+
+// --- Subscription ---
+
+// Subscribes to the user's rows and returns an unsubscribe function. Deletes
+// cannot be filtered by user (their payload only has the primary key), so they
+// arrive unfiltered and ids this client does not know are simply not found.
+export const subscribeToWorkspace = (
+  client: SupabaseClient,
+  userId: string,
+  echoes: EchoFilter,
+  onChange: (change: RemoteChange) => void
+): (() => void) => {
+  const emit = (change: RemoteChange) => {
+    if (!echoes.isEcho(change)) onChange(change);
+  };
+  const filter = `user_id=eq.${userId}`;
+
+  const channel = client
+    .channel(`doit-workspace-${userId}`)
+    .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'habits', filter }, ({ new: row }) =>
+      emit({ table: 'habits', type: 'UPSERT', habit: habitFromRow(row) }))
+    .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'habits', filter }, ({ new: row }) =>
+      emit({ table: 'habits', type: 'UPSERT', habit: habitFromRow(row) }))
+    .on('postgres_changes', { event: 'DELETE', schema: 'public', table: 'habits' }, ({ old }) =>
+      old?.id && emit({ table: 'habits', type: 'DELETE', id: old.id }))
+    .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'tasks', filter }, ({ new: row }) =>
+      emit({ table: 'tasks', type: 'UPSERT', task: taskFromRow(row) }))
+    .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'tasks', filter }, ({ new: row }) =>
+      emit({ table: 'tasks', type: 'UPSERT', task: taskFromRow(row) }))
+    .on('postgres_changes', { event: 'DELETE', schema: 'public', table: 'tasks' }, ({ old }) =>
+      old?.id && emit({ table: 'tasks', type: 'DELETE', id: old.id }))
+    .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'categories', filter }, ({ new: row }) =>
+      emit({ table: 'categories', type: 'UPSERT', category: categoryFromRow(row) }))
+    .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'categories', filter }, ({ new: row }) =>
+      emit({ table: 'categories', type: 'UPSERT', category: categoryFromRow(row) }))
+    .on('postgres_changes', { event: 'DELETE', schema: 'public', table: 'categories' }, ({ old }) =>
+      old?.id && emit({ table: 'categories', type: 'DELETE', id: old.id }))
+    .subscribe((status, error) => {
+      if (error) console.error(`Realtime subscription ${status}`, error);
+    });
+
+  return () => {
+    client.removeChannel(channel);
+  };
+};
+
+// --- Merging ---
+
+const EMPTY_WORKSPACE = { habits: [], weeklyHabits: [], monthlyHabits: [], categories: [], tasks: [] };
+
+// A habit pushed by the server with the client's unsent writes replayed on top.
+// Completions are written cell by cell, so a pending check-in survives a remote
+// update to other cells of the same habit. Null when a pending write deletes it.
+export const rebaseHabit = async (queue: SyncQueue, habit: Habit): Promise<Habit | null> => {
+  const type: ProtocolType = habit.type ?? 'DAILY';
+  const data = await queue.rebase({
+    ...EMPTY_WORKSPACE,
+    habits: type === 'DAILY' ? [habit] : [],
+    weeklyHabits: type === 'WEEKLY' ? [habit] : [],
+    monthlyHabits: type === 'MONTHLY' ? [habit] : []
+  });
+  return [...data.habits, ...data.weeklyHabits, ...data.monthlyHabits].find(h => h.id === habit.id) ?? null;
+};
+
+export const rebaseTask = async (queue: SyncQueue, task: Task): Promise<Task | null> => {
+  const data = await queue.rebase({ ...EMPTY_WORKSPACE, tasks: [task] });
+  return data.tasks.find(t => t.id === task.id) ?? null;
+};
+
+export const rebaseCategory = async (queue: SyncQueue, category: Category): Promise<Category | null> => {
+  const data = await queue.rebase({ ...EMPTY_WORKSPACE, categories: [category] });
+  return data.categories.find(c => c.id === category.id) ?? null;
+};
+
+// Replaces the record with `id` in place, appends it when new, or removes it for null
+export const replaceById = <T extends { id: string }>(list: T[], id: string, next: T | null): T[] => {
+  if (!next) return list.some(item => item.id === id) ? list.filter(item => item.id !== id) : list;
+  return list.some(item => item.id === id) ? list.map(item => item.id === id ? next : item) : [...list, next];
+};
@@ -0,0 +1,58 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { RecurrenceRule } from '../types';
+import { describeRecurrence, getNextDueDate } from './recurrence';
+
+describe('getNextDueDate', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    // A Wednesday
+    vi.setSystemTime(new Date(2024, 0, 10, 9, 30));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it.each<[string, RecurrenceRule, string, string]>([
+    ['daily', { frequency: 'DAILY' }, '2024-01-10', '2024-01-11'],
+    ['weekdays, from a Friday', { frequency: 'WEEKDAYS' }, '2024-01-12', '2024-01-15'],
+    ['weekdays, from a Saturday', { frequency: 'WEEKDAYS' }, '2024-01-13', '2024-01-15'],
+    ['weekly', { frequency: 'WEEKLY' }, '2024-01-10', '2024-01-17'],
+    ['every 3 weeks', { frequency: 'WEEKLY', interval: 3 }, '2024-01-10', '2024-01-31'],
+    ['weekly with a bad interval', { frequency: 'WEEKLY', interval: 0 }, '2024-01-10', '2024-01-17'],
+    ['monthly on the due day', { frequency: 'MONTHLY' }, '2024-01-15', '2024-02-15'],
+    ['monthly, later this month', { frequency: 'MONTHLY', dayOfMonth: 20 }, '2024-01-15', '2024-01-20'],
+    ['monthly on the 31st into February', { frequency: 'MONTHLY', dayOfMonth: 31 }, '2024-01-31', '2024-02-29'],
+    ['monthly on the 31st, after a short month', { frequency: 'MONTHLY', dayOfMonth: 31 }, '2024-02-29', '2024-03-31'],
+    ['monthly on the 30th across the year end', { frequency: 'MONTHLY', dayOfMonth: 30 }, '2024-12-30', '2025-01-30'],
+    ['yearly on a fixed date', { frequency: 'YEARLY', month: 2, dayOfMonth: 1 }, '2024-01-10', '2024-03-01'],
+    ['yearly, date passed this year', { frequency: 'YEARLY', month: 0, dayOfMonth: 5 }, '2024-01-10', '2025-01-05'],
+    ['yearly on Feb 29 in a common year', { frequency: 'YEARLY', month: 1, dayOfMonth: 29 }, '2024-02-29', '2025-02-28']
+  ])('%s', (_case, rule, dueDate, expected) => {
+    expect(getNextDueDate(rule, dueDate)).toBe(expected);
+  });
+
+  it('starts from today when the task has no due date', () => {
+    expect(getNextDueDate({ frequency: 'DAILY' })).toBe('2024-01-11');
+  });
+
+  it('skips past occurrences of an overdue series', () => {
+    expect(getNextDueDate({ frequency: 'WEEKLY' }, '2023-12-01')).toBe('2024-01-12');
+    expect(getNextDueDate({ frequency: 'DAILY' }, '2023-12-01')).toBe('2024-01-10');
+  });
+});
+
+describe('describeRecurrence', () => {
+  it.each<[RecurrenceRule, string]>([
+    [{ frequency: 'DAILY' }, 'Every day'],
+    [{ frequency: 'WEEKDAYS' }, 'Every weekday'],
+    [{ frequency: 'WEEKLY', interval: 1 }, 'Every week'],
+    [{ frequency: 'WEEKLY', interval: 2 }, 'Every 2 weeks'],
+    [{ frequency: 'MONTHLY' }, 'Every month'],
+    [{ frequency: 'MONTHLY', dayOfMonth: 31 }, 'Monthly on day 31'],
+    [{ frequency: 'YEARLY', month: 11, dayOfMonth: 25 }, 'Yearly on Dec 25'],
+    [{ frequency: 'YEARLY' }, 'Every year']
+  ])('%j reads "%s"', (rule, expected) => {
+    expect(describeRecurrence(rule)).toBe(expected);
+  });
+});
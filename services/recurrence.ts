@@ -0,0 +1,63 @@
+import { addDays, addMonths, addWeeks, addYears, format, getDaysInMonth, isWeekend, parseISO, startOfToday } from 'date-fns';
+import { RecurrenceRule } from '../types';
+
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+// A day of month that does not exist (e.g. the 31st in April) falls back to the last day
+const withDayOfMonth = (date: Date, day: number) => {
+  const d = new Date(date);
+  d.setDate(Math.min(day, getDaysInMonth(d)));
+  return d;
+};
+
+// The first occurrence strictly after `from`
+const getOccurrenceAfter = (rule: RecurrenceRule, from: Date): Date => {
+  switch (rule.frequency) {
+    case 'DAILY':
+      return addDays(from, 1);
+    case 'WEEKDAYS': {
+      let next = addDays(from, 1);
+      while (isWeekend(next)) next = addDays(next, 1);
+      return next;
+    }
+    case 'WEEKLY':
+      return addWeeks(from, Math.max(1, rule.interval ?? 1));
+    case 'MONTHLY': {
+      const day = rule.dayOfMonth ?? from.getDate();
+      const candidate = withDayOfMonth(from, day);
+      return candidate > from ? candidate : withDayOfMonth(addMonths(new Date(from.getFullYear(), from.getMonth(), 1), 1), day);
+    }
+    case 'YEARLY': {
+      const month = rule.month ?? from.getMonth();
+      const day = rule.dayOfMonth ?? from.getDate();
+      const candidate = withDayOfMonth(new Date(from.getFullYear(), month, 1), day);
+      return candidate > from ? candidate : withDayOfMonth(addYears(new Date(from.getFullYear(), month, 1), 1), day);
+    }
+  }
+};
+
+// Due date (YYYY-MM-DD) of the instance that follows one due on `dueDate`.
+// Overdue series skip ahead so the next instance is never already in the past.
+export const getNextDueDate = (rule: RecurrenceRule, dueDate?: string): string => {
+  const today = startOfToday();
+  let next = getOccurrenceAfter(rule, dueDate ? parseISO(dueDate) : today);
+  while (next < today) next = getOccurrenceAfter(rule, next);
+  return format(next, 'yyyy-MM-dd');
+};
+
+export const describeRecurrence = (rule: RecurrenceRule): string => {
+  switch (rule.frequency) {
+    case 'DAILY':
+      return 'Every day';
+    case 'WEEKDAYS':
+      return 'Every weekday';
+    case 'WEEKLY':
+      return (rule.interval ?? 1) > 1 ? `Every ${rule.interval} weeks` : 'Every week';
+    case 'MONTHLY':
+      return rule.dayOfMonth ? `Monthly on day ${rule.dayOfMonth}` : 'Every month';
+    case 'YEARLY':
+      return rule.month !== undefined && rule.dayOfMonth
+        ? `Yearly on ${MONTH_NAMES[rule.month]} ${rule.dayOfMonth}`
+        : 'Every year';
+  }
+};
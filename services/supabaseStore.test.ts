@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { StoreError } from './dataStore';
+import { createSupabaseStore } from './supabaseStore';
+import { isUuid } from './ids';
+import { makeHabit, makeTask, makeWorkspace } from './testData';
+
+type Completions = Record<string, boolean | number> | null;
+
+// Just enough of the query builder for setCompletion on a single habits row.
+// `beforeWrite` runs between the read and the guarded update, standing in for
+// another device writing in between.
+const createHabitClient = (initial: Completions, beforeWrite: (row: { completions: Completions }) => void = () => {}) => {
+  const row = { completions: initial };
+  let writes = 0;
+
+  const from = () => {
+    let update: { completions: Completions } | null = null;
+    let guard: ((current: Completions) => boolean) = () => true;
+    const builder = {
+      select: () => builder,
+      maybeSingle: () => builder,
+      update: (values: { completions: Completions }) => { update = values; return builder; },
+      eq: (column: string, value: unknown) => {
+        if (column === 'completions') guard = current => JSON.stringify(current) === value;
+        return builder;
+      },
+      is: (column: string, value: unknown) => {
+        if (column === 'completions') guard = current => current === value;
+        return builder;
+      },
+      then: (resolve: (result: unknown) => void) => {
+        if (!update) {
+          resolve({ data: { completions: row.completions }, error: null, status: 200 });
+          return;
+        }
+        beforeWrite(row);
+        writes++;
+        const matches = guard(row.completions);
+        if (matches) row.completions = update.completions;
+        resolve({ data: matches ? [{ id: 'h1' }] : [], error: null, status: 200 });
+      }
+    };
+    return builder;
+  };
+
+  return { client: { from } as unknown as SupabaseClient, row, getWrites: () => writes };
+};
+
+describe('createSupabaseStore setCompletion', () => {
+  it('writes a cell into the stored map', async () => {
+    const { client, row } = createHabitClient({ '2024-05-01': true });
+    await createSupabaseStore(client, 'u1').setCompletion('h1', '2024-05-02', 3);
+    expect(row.completions).toEqual({ '2024-05-01': true, '2024-05-02': 3 });
+  });
+
+  it('writes into a row that has no completions yet', async () => {
+    const { client, row } = createHabitClient(null);
+    await createSupabaseStore(client, 'u1').setCompletion('h1', '2024-05-01', true);
+    expect(row.completions).toEqual({ '2024-05-01': true });
+  });
+
+  it('re-reads and keeps the other write when the row changed in between', async () => {
+    let interfered = false;
+    const { client, row, getWrites } = createHabitClient({}, current => {
+      if (interfered) return;
+      interfered = true;
+      current.completions = { '2024-05-01': true };
+    });
+    await createSupabaseStore(client, 'u1').setCompletion('h1', '2024-05-02', true);
+    expect(getWrites()).toBe(2);
+    expect(row.completions).toEqual({ '2024-05-01': true, '2024-05-02': true });
+  });
+
+  it('gives up with a retryable error when the row keeps changing', async () => {
+    let counter = 0;
+    const { client } = createHabitClient({}, current => { current.completions = { [`other-${counter++}`]: true }; });
+    const error = await createSupabaseStore(client, 'u1').setCompletion('h1', '2024-05-02', true).catch(e => e);
+    expect(error).toBeInstanceOf(StoreError);
+    expect(error.retryable).toBe(true);
+  });
+});
+
+describe('createSupabaseStore importData', () => {
+  // Records table writes and function calls without a server
+  const createRecordingClient = () => {
+    const calls: { target: string; method: string; args: unknown[] }[] = [];
+    const from = (table: string) => {
+      const builder: Record<string, unknown> = {};
+      for (const method of ['select', 'eq', 'upsert', 'delete']) {
+        builder[method] = (...args: unknown[]) => {
+          if (method !== 'select' && method !== 'eq') calls.push({ target: table, method, args });
+          return builder;
+        };
+      }
+      builder.then = (resolve: (result: unknown) => void) => resolve({ data: [], error: null, status: 200 });
+      return builder;
+    };
+    const rpc = async (name: string, args: unknown) => {
+      calls.push({ target: name, method: 'rpc', args: [args] });
+      return { data: null, error: null, status: 200 };
+    };
+    return { client: { from, rpc } as unknown as SupabaseClient, calls };
+  };
+
+  it('replaces the workspace in one call, with fresh ids for ones the tables cannot hold', async () => {
+    const { client, calls } = createRecordingClient();
+    const seriesStart = makeTask({ id: 't1', recurrence: { frequency: 'DAILY' }, seriesId: 't1' });
+    await createSupabaseStore(client, 'u1').importData(makeWorkspace({ tasks: [seriesStart] }), 'REPLACE');
+
+    expect(calls.map(c => `${c.method} ${c.target}`)).toEqual(['rpc replace_workspace']);
+    const { habit_rows, category_rows, task_rows } = calls[0].args[0] as Record<string, Record<string, string>[]>;
+    const ids = [...habit_rows, ...category_rows, ...task_rows].map(row => row.id);
+    expect(ids.every(isUuid)).toBe(true);
+    expect(task_rows[0].category_id).toBe(category_rows[0].id);
+    expect(task_rows[0].series_id).toBe(task_rows[0].id);
+  });
+
+  it('merges with upserts and keeps UUIDs as they are', async () => {
+    const { client, calls } = createRecordingClient();
+    const id = crypto.randomUUID();
+    await createSupabaseStore(client, 'u1').importData(makeWorkspace({ habits: [makeHabit({ id })], categories: [], tasks: [] }), 'MERGE');
+
+    expect(calls.map(c => `${c.method} ${c.target}`)).toEqual(['upsert habits']);
+    expect(calls[0].args[0]).toMatchObject([{ id, user_id: 'u1' }]);
+  });
+});
@@ -0,0 +1,241 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Category, Habit, Task, ProtocolType } from '../types';
+import { DataStore, StoreError } from './dataStore';
+import { foldCategoriesByName } from './categories';
+import { normalizePositions } from './ordering';
+import { withCompletion } from './habitSchedule';
+import { EchoFilter } from './realtime';
+import { withStorableIds } from './ids';
+
+// Column mapping between the `habits` table and the Habit model
+export const habitFromRow = (h: any): Habit => ({
+  id: h.id,
+  title: h.title,
+  completions: h.completions || {},
+  type: h.type,
+  schedule: h.schedule ?? undefined,
+  target: h.target ?? undefined
+});
+
+// Column mapping between the `tasks` table and the Task model
+export const taskFromRow = (t: any): Task => ({
+  id: t.id,
+  title: t.title,
+  categoryId: t.category_id,
+  completed: t.completed,
+  priority: t.priority,
+  createdAt: new Date(t.created_at).getTime(),
+  completedAt: t.completed_at ? new Date(t.completed_at).getTime() : undefined,
+  position: t.position ?? undefined,
+  description: t.description ?? undefined,
+  dueDate: t.due_date ?? undefined,
+  tags: t.tags ?? undefined,
+  subtasks: t.subtasks ?? undefined,
+  recurrence: t.recurrence ?? undefined,
+  seriesId: t.series_id ?? undefined
+});
+
+// Column mapping between the `categories` table and the Category model
+export const categoryFromRow = (c: any): Category => ({
+  id: c.id,
+  name: c.name,
+  color: c.color,
+  icon: c.icon,
+  position: c.position,
+  archived: c.archived
+});
+
+const categoryToRow = (category: Category, userId: string) => ({
+  id: category.id,
+  user_id: userId,
+  name: category.name,
+  color: category.color,
+  icon: category.icon,
+  position: category.position,
+  archived: category.archived
+});
+
+const taskUpdatesToRow = (updates: Partial<Task>) => {
+  const row: Record<string, unknown> = {};
+  if (updates.title !== undefined) row.title = updates.title;
+  if (updates.completed !== undefined) row.completed = updates.completed;
+  if (updates.priority !== undefined) row.priority = updates.priority;
+  if (updates.categoryId !== undefined) row.category_id = updates.categoryId;
+  if (updates.position !== undefined) row.position = updates.position;
+  // Optional fields can be cleared, so presence of the key matters, not its value
+  if ('description' in updates) row.description = updates.description ?? null;
+  if ('dueDate' in updates) row.due_date = updates.dueDate ?? null;
+  if ('tags' in updates) row.tags = updates.tags ?? null;
+  if ('subtasks' in updates) row.subtasks = updates.subtasks ?? null;
+  if ('recurrence' in updates) row.recurrence = updates.recurrence ?? null;
+  if ('seriesId' in updates) row.series_id = updates.seriesId ?? null;
+  if ('completedAt' in updates) row.completed_at = updates.completedAt ? new Date(updates.completedAt).toISOString() : null;
+  return row;
+};
+
+const habitToRow = (habit: Habit, type: ProtocolType, userId: string) => ({
+  id: habit.id,
+  user_id: userId,
+  title: habit.title,
+  type,
+  completions: habit.completions,
+  schedule: habit.schedule ?? null,
+  target: habit.target ?? null
+});
+
+const taskToRow = (task: Task, userId: string) => ({
+  id: task.id,
+  user_id: userId,
+  title: task.title,
+  category_id: task.categoryId,
+  priority: task.priority,
+  completed: task.completed,
+  created_at: new Date(task.createdAt).toISOString(),
+  completed_at: task.completedAt ? new Date(task.completedAt).toISOString() : null,
+  position: task.position,
+  description: task.description ?? null,
+  due_date: task.dueDate ?? null,
+  tags: task.tags ?? null,
+  subtasks: task.subtasks ?? null,
+  recurrence: task.recurrence ?? null,
+  series_id: task.seriesId ?? null
+});
+
+const habitUpdatesToRow = (updates: Partial<Habit>) => {
+  const row: Record<string, unknown> = {};
+  if (updates.title !== undefined) row.title = updates.title;
+  if (updates.completions !== undefined) row.completions = updates.completions;
+  if ('schedule' in updates) row.schedule = updates.schedule ?? null;
+  if ('target' in updates) row.target = updates.target ?? null;
+  return row;
+};
+
+// Status 0 is what postgrest-js reports when the request never reached the server.
+const isRetryableStatus = (status: number) =>
+  status === 0 || status === 408 || status === 429 || status >= 500;
+
+// Supabase returns errors instead of throwing; surface them to the caller.
+const check = <T extends { error: { message: string } | null; status: number }>(result: T): T => {
+  if (result.error) throw new StoreError(result.error.message, isRetryableStatus(result.status));
+  return result;
+};
+
+// Attempts at writing a completion before giving up until the next retry
+const MAX_COMPLETION_ATTEMPTS = 3;
+
+// Online backend: one row per habit, task and category, scoped to the signed-in user.
+// Writes are announced to `echoes` so the realtime feed can skip their echo.
+export const createSupabaseStore = (client: SupabaseClient, userId: string, echoes?: EchoFilter): DataStore => ({
+  load: async () => {
+    const { data: habitsData } = check(await client.from('habits').select('*').eq('user_id', userId));
+    const { data: catData } = check(await client.from('categories').select('*').eq('user_id', userId));
+    const { data: taskData } = check(await client.from('tasks').select('*').eq('user_id', userId));
+
+    const habits = (habitsData || []).map(habitFromRow);
+    return {
+      habits: habits.filter(h => h.type === 'DAILY'),
+      weeklyHabits: habits.filter(h => h.type === 'WEEKLY'),
+      monthlyHabits: habits.filter(h => h.type === 'MONTHLY'),
+      // New accounts get their starter categories from the database, see supabase/migrations
+      categories: (catData || []).map(categoryFromRow).sort((a, b) => a.position - b.position),
+      // Rows without a position yet keep their creation order
+      tasks: normalizePositions((taskData || []).map(taskFromRow).sort((a, b) => a.createdAt - b.createdAt))
+    };
+  },
+
+  addHabit: async (habit, type) => {
+    echoes?.expect('habits', habit.id, { ...habit, type });
+    check(await client.from('habits').insert(habitToRow(habit, type, userId)));
+  },
+
+  updateHabit: async (id, updates) => {
+    echoes?.expect('habits', id, updates);
+    check(await client.from('habits').update(habitUpdatesToRow(updates)).eq('id', id).eq('user_id', userId));
+  },
+
+  deleteHabit: async (id) => {
+    echoes?.expect('habits', id, null);
+    check(await client.from('habits').delete().eq('id', id).eq('user_id', userId));
+  },
+
+  // Compare-and-swap on the map: the update only applies if the completions are
+  // still what was read, otherwise another device got in between and it re-reads.
+  setCompletion: async (id, key, value) => {
+    for (let attempt = 0; attempt < MAX_COMPLETION_ATTEMPTS; attempt++) {
+      const { data: row } = check(await client.from('habits').select('completions').eq('id', id).eq('user_id', userId).maybeSingle());
+      if (!row) return;
+
+      const next = withCompletion(row.completions || {}, key, value);
+      echoes?.expect('habits', id, { completions: next });
+      const update = client.from('habits').update({ completions: next }).eq('id', id).eq('user_id', userId);
+      const guarded = row.completions === null ? update.is('completions', null) : update.eq('completions', JSON.stringify(row.completions));
+      const { data: updated } = check(await guarded.select('id'));
+      if (updated && updated.length > 0) return;
+    }
+    throw new StoreError("The habit kept changing while saving a check-in", true);
+  },
+
+  addTask: async (task) => {
+    echoes?.expect('tasks', task.id, { ...task });
+    check(await client.from('tasks').insert(taskToRow(task, userId)));
+  },
+
+  updateTask: async (id, updates) => {
+    echoes?.expect('tasks', id, updates);
+    check(await client.from('tasks').update(taskUpdatesToRow(updates)).eq('id', id).eq('user_id', userId));
+  },
+
+  deleteTask: async (id) => {
+    echoes?.expect('tasks', id, null);
+    check(await client.from('tasks').delete().eq('id', id).eq('user_id', userId));
+  },
+
+  addCategory: async (category) => {
+    echoes?.expect('categories', category.id, { ...category });
+    check(await client.from('categories').insert(categoryToRow(category, userId)));
+  },
+
+  updateCategory: async (id, updates) => {
+    echoes?.expect('categories', id, updates);
+    // Category fields and columns share their names
+    check(await client.from('categories').update(updates).eq('id', id).eq('user_id', userId));
+  },
+
+  // One transaction on the server, see the delete_category migration
+  deleteCategory: async (id, moveTasksTo) => {
+    echoes?.expect('categories', id, null);
+    check(await client.rpc('delete_category', { deleted_id: id, move_to_id: moveTasksTo ?? null }));
+  },
+
+  // A merge upserts by id, so it overwrites rows with the same id. Imported
+  // categories also match existing ones by name. Ids the tables cannot hold
+  // get fresh UUIDs first.
+  importData: async (imported, mode) => {
+    let data = withStorableIds(imported);
+    if (mode === 'MERGE') {
+      const { data: existing } = check(await client.from('categories').select('*').eq('user_id', userId));
+      data = foldCategoriesByName((existing || []).map(categoryFromRow), data);
+    }
+
+    const habitRows = [
+      ...data.habits.map(h => habitToRow(h, 'DAILY', userId)),
+      ...data.weeklyHabits.map(h => habitToRow(h, 'WEEKLY', userId)),
+      ...data.monthlyHabits.map(h => habitToRow(h, 'MONTHLY', userId))
+    ];
+    const categoryRows = data.categories.map(c => categoryToRow(c, userId));
+    const taskRows = data.tasks.map(t => taskToRow(t, userId));
+
+    // Deleting and writing in one transaction on the server, see the
+    // replace_workspace migration, so a rejected row leaves the account as it was
+    if (mode === 'REPLACE') {
+      check(await client.rpc('replace_workspace', { habit_rows: habitRows, category_rows: categoryRows, task_rows: taskRows }));
+      return;
+    }
+
+    if (habitRows.length > 0) check(await client.from('habits').upsert(habitRows));
+
+    if (categoryRows.length > 0) check(await client.from('categories').upsert(categoryRows));
+
+    if (taskRows.length > 0) check(await client.from('tasks').upsert(taskRows));
+  }
+});
@@ -0,0 +1,147 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DataStore, StoreError } from './dataStore';
+import { KeyValueStorage, createMemoryStorage, createMemoryStore } from './localStore';
+import { FailedMutation, SyncQueue, SyncStatus, createSyncQueue } from './syncQueue';
+import { makeTask, makeWorkspace } from './testData';
+
+const getStatus = (queue: SyncQueue) => {
+  let current!: SyncStatus;
+  queue.subscribe(status => { current = status; })();
+  return current;
+};
+
+// A memory store whose updateTask fails with each error in turn, then succeeds
+const createFlakyStore = (errors: Error[]) => {
+  const inner = createMemoryStore(makeWorkspace());
+  const updateTask = vi.fn(async (...args: Parameters<DataStore['updateTask']>) => {
+    const error = errors.shift();
+    if (error) throw error;
+    await inner.updateTask(...args);
+  });
+  return { store: { ...inner, updateTask } as DataStore, inner, updateTask };
+};
+
+describe('createSyncQueue', () => {
+  let storage: KeyValueStorage;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.stubGlobal('window', new EventTarget());
+    storage = createMemoryStorage();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('keeps writes in the outbox until started', async () => {
+    const inner = createMemoryStore(makeWorkspace());
+    const queue = createSyncQueue(inner, { storageKey: 'outbox', storage });
+    await queue.deleteTask('t1');
+
+    expect(getStatus(queue).pending).toBe(1);
+    expect((await inner.load()).tasks.map(t => t.id)).toContain('t1');
+
+    queue.start();
+    await vi.runAllTimersAsync();
+    expect(getStatus(queue).pending).toBe(0);
+    expect((await inner.load()).tasks.map(t => t.id)).not.toContain('t1');
+  });
+
+  it('persists the outbox so another instance picks it up', async () => {
+    const inner = createMemoryStore(makeWorkspace());
+    await createSyncQueue(inner, { storageKey: 'outbox', storage }).updateTask('t1', { completedAt: undefined, completed: false });
+
+    const restored = createSyncQueue(inner, { storageKey: 'outbox', storage });
+    expect(getStatus(restored).pending).toBe(1);
+    const updateTask = vi.spyOn(inner, 'updateTask');
+    restored.start();
+    await vi.runAllTimersAsync();
+    // Undefined survives the round trip through storage
+    expect(updateTask).toHaveBeenCalledWith('t1', { completedAt: undefined, completed: false });
+  });
+
+  it('retries transient failures with growing delays', async () => {
+    const { store, inner, updateTask } = createFlakyStore([new Error('offline'), new StoreError('timeout', true)]);
+    const queue = createSyncQueue(store, { storageKey: 'outbox', storage });
+    queue.start();
+    await queue.updateTask('t1', { title: 'Retried' });
+    expect(updateTask).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(updateTask).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(updateTask).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(updateTask).toHaveBeenCalledTimes(3);
+
+    expect(getStatus(queue)).toMatchObject({ pending: 0, failed: [] });
+    expect((await inner.load()).tasks[0].title).toBe('Retried');
+  });
+
+  it('moves rejected writes aside, reports them and carries on', async () => {
+    const onRejected = vi.fn<(mutation: FailedMutation) => void>();
+    const { store, inner } = createFlakyStore([new StoreError('violates check constraint', false)]);
+    const queue = createSyncQueue(store, { storageKey: 'outbox', storage, onRejected });
+    queue.start();
+    await queue.updateTask('t1', { title: 'Rejected' });
+    await queue.deleteTask('t2');
+    await vi.runAllTimersAsync();
+
+    const { pending, failed } = getStatus(queue);
+    expect(pending).toBe(0);
+    expect(failed).toMatchObject([{ method: 'updateTask', error: 'violates check constraint' }]);
+    expect(onRejected).toHaveBeenCalledWith(failed[0]);
+    expect((await inner.load()).tasks.map(t => [t.id, t.title])).toEqual([['t1', 'Write report'], ['t3', 'Fix sink']]);
+  });
+
+  it('replays failed writes on retry and forgets them on discard', async () => {
+    const { store, inner } = createFlakyStore([new StoreError('rejected', false)]);
+    const queue = createSyncQueue(store, { storageKey: 'outbox', storage });
+    queue.start();
+    await queue.updateTask('t1', { title: 'Second try' });
+    await vi.runAllTimersAsync();
+    expect(getStatus(queue).failed).toHaveLength(1);
+
+    queue.retryFailed();
+    await vi.runAllTimersAsync();
+    expect(getStatus(queue).failed).toEqual([]);
+    expect((await inner.load()).tasks[0].title).toBe('Second try');
+
+    const rejecting = createFlakyStore([new StoreError('rejected', false)]);
+    const other = createSyncQueue(rejecting.store, { storageKey: 'other', storage });
+    other.start();
+    await other.updateTask('t1', { title: 'Dropped' });
+    await vi.runAllTimersAsync();
+    other.discardFailed();
+    expect(getStatus(other)).toMatchObject({ pending: 0, failed: [] });
+    expect((await rejecting.inner.load()).tasks[0].title).toBe('Write report');
+  });
+
+  it('rejects outbox entries saved by older versions instead of replaying them', async () => {
+    storage.setItem('outbox', JSON.stringify([
+      { id: 'm1', method: 'renameCategory', args: ['Work', 'Job'], attempts: 0, queuedAt: 0 },
+      { id: 'm2', method: 'addCategory', args: ['Errands'], attempts: 0, queuedAt: 0 },
+      { id: 'm3', method: 'deleteTask', args: ['t1'], attempts: 0, queuedAt: 0 }
+    ]));
+    const inner = createMemoryStore(makeWorkspace());
+    const queue = createSyncQueue(inner, { storageKey: 'outbox', storage });
+
+    expect((await queue.load()).tasks.map(t => t.id)).toEqual(['t3', 't2']);
+
+    queue.start();
+    await vi.runAllTimersAsync();
+    expect(getStatus(queue).failed.map(m => m.id)).toEqual(['m1', 'm2']);
+    expect((await inner.load()).categories.map(c => c.name)).toEqual(['Work', 'Home']);
+  });
+
+  it('rebases a remote snapshot onto the outbox', async () => {
+    const queue = createSyncQueue(createMemoryStore(makeWorkspace()), { storageKey: 'outbox', storage });
+    await queue.updateTask('t1', { title: 'Local edit' });
+
+    const remote = makeWorkspace({ tasks: [makeTask({ priority: 'HIGH' })] });
+    const rebased = await queue.rebase(remote);
+    expect(rebased.tasks).toEqual([makeTask({ priority: 'HIGH', title: 'Local edit' })]);
+  });
+});
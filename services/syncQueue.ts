@@ -0,0 +1,226 @@
+import { DataStore, DataStoreMutation, StoreError, WorkspaceData } from './dataStore';
+import { KeyValueStorage, createMemoryStore } from './localStore';
+
+export interface QueuedMutation<M extends DataStoreMutation = DataStoreMutation> {
+  id: string;
+  method: M;
+  args: Parameters<DataStore[M]>;
+  attempts: number;
+  queuedAt: number;
+}
+
+export interface FailedMutation extends QueuedMutation {
+  error: string;
+}
+
+export interface SyncStatus {
+  pending: number;
+  failed: FailedMutation[];
+  isFlushing: boolean;
+  isOnline: boolean;
+}
+
+export interface SyncQueue extends DataStore {
+  subscribe(listener: (status: SyncStatus) => void): () => void;
+  // Attaches connectivity listeners and starts replaying; returns a stop function.
+  start(): () => void;
+  flush(): Promise<void>;
+  // `data` with the outbox replayed on top, e.g. a record pushed by another device
+  rebase(data: WorkspaceData): Promise<WorkspaceData>;
+  retryFailed(): void;
+  discardFailed(): void;
+}
+
+interface SyncQueueOptions {
+  storageKey: string;
+  storage?: KeyValueStorage;
+  // Called after the backend rejects a write, so the caller can roll its state back.
+  onRejected?: (mutation: FailedMutation) => void;
+}
+
+const MAX_RETRY_DELAY = 30000;
+
+const getRetryDelay = (attempts: number) => Math.min(1000 * 2 ** attempts, MAX_RETRY_DELAY);
+
+// Anything that is not an explicit rejection (e.g. fetch throwing) is assumed transient.
+const isRetryable = (error: unknown) => !(error instanceof StoreError) || error.retryable;
+
+// Entries saved by older versions can name a method that no longer exists, or
+// pass a category name where a category is now expected; they are rejected
+// instead of replayed.
+const isReplayable = (store: DataStore, mutation: QueuedMutation) =>
+  typeof store[mutation.method] === 'function' &&
+  !(mutation.method === 'addCategory' && typeof mutation.args[0] !== 'object');
+
+const isOnline = () => typeof navigator === 'undefined' || navigator.onLine;
+
+// JSON drops undefined properties, but in an update they mean "clear this field",
+// so they are written as a marker and restored on read.
+const UNDEFINED_MARKER = '__doit_undefined__';
+
+const serialize = (value: unknown) =>
+  JSON.stringify(value, (_key, v) => v === undefined ? UNDEFINED_MARKER : v);
+
+const restoreUndefined = (value: any): any => {
+  if (value === UNDEFINED_MARKER) return undefined;
+  if (Array.isArray(value)) return value.map(restoreUndefined);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, restoreUndefined(v)]));
+  }
+  return value;
+};
+
+// Offline-first wrapper around a remote store. Writes are recorded in a persistent
+// outbox and replayed in order; transient failures are retried with backoff, while
+// rejected writes are moved aside and reported so optimistic state can be undone.
+export const createSyncQueue = (inner: DataStore, options: SyncQueueOptions): SyncQueue => {
+  const { storageKey, storage = localStorage, onRejected } = options;
+  const failedKey = `${storageKey}_failed`;
+
+  const read = <T,>(key: string): T[] => {
+    try {
+      const raw = storage.getItem(key);
+      return raw ? restoreUndefined(JSON.parse(raw)) : [];
+    } catch (e) {
+      console.error("Failed to read sync queue", e);
+      return [];
+    }
+  };
+
+  let queue = read<QueuedMutation>(storageKey);
+  let failed = read<FailedMutation>(failedKey);
+  let isFlushing = false;
+  let isStarted = false;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+  const listeners = new Set<(status: SyncStatus) => void>();
+
+  const getStatus = (): SyncStatus => ({
+    pending: queue.length,
+    failed,
+    isFlushing,
+    isOnline: isOnline()
+  });
+
+  const save = () => {
+    storage.setItem(storageKey, serialize(queue));
+    storage.setItem(failedKey, serialize(failed));
+    const status = getStatus();
+    listeners.forEach(listener => listener(status));
+  };
+
+  const scheduleRetry = (delay: number) => {
+    if (retryTimer) clearTimeout(retryTimer);
+    retryTimer = setTimeout(() => {
+      retryTimer = null;
+      flush();
+    }, delay);
+  };
+
+  const flush = async () => {
+    if (isFlushing || !isStarted || !isOnline()) return;
+    isFlushing = true;
+    save();
+
+    try {
+      while (queue.length > 0) {
+        const head = queue[0];
+        try {
+          if (!isReplayable(inner, head)) throw new StoreError("Saved by an older version of the app", false);
+          await (inner[head.method] as (...args: unknown[]) => Promise<void>)(...head.args);
+          queue = queue.slice(1);
+          save();
+        } catch (e) {
+          if (isRetryable(e)) {
+            queue = [{ ...head, attempts: head.attempts + 1 }, ...queue.slice(1)];
+            save();
+            scheduleRetry(getRetryDelay(head.attempts));
+            break;
+          }
+          const rejected: FailedMutation = { ...head, error: e instanceof Error ? e.message : String(e) };
+          queue = queue.slice(1);
+          failed = [...failed, rejected];
+          save();
+          onRejected?.(rejected);
+        }
+      }
+    } finally {
+      isFlushing = false;
+      save();
+    }
+  };
+
+  const enqueue = <M extends DataStoreMutation>(method: M) =>
+    async (...args: Parameters<DataStore[M]>) => {
+      queue = [...queue, { id: crypto.randomUUID(), method, args, attempts: 0, queuedAt: Date.now() }];
+      save();
+      flush();
+    };
+
+  const rebase = async (data: WorkspaceData) => {
+    if (queue.length === 0) return data;
+    const snapshot = createMemoryStore(data);
+    for (const mutation of queue) {
+      if (!isReplayable(snapshot, mutation)) continue;
+      await (snapshot[mutation.method] as (...args: unknown[]) => Promise<void>)(...mutation.args);
+    }
+    return snapshot.load();
+  };
+
+  return {
+    // Server data plus whatever is still waiting in the outbox, so a reload
+    // while offline does not lose local changes.
+    load: async () => rebase(await inner.load()),
+
+    addHabit: enqueue('addHabit'),
+    updateHabit: enqueue('updateHabit'),
+    deleteHabit: enqueue('deleteHabit'),
+    setCompletion: enqueue('setCompletion'),
+    addTask: enqueue('addTask'),
+    updateTask: enqueue('updateTask'),
+    deleteTask: enqueue('deleteTask'),
+    addCategory: enqueue('addCategory'),
+    updateCategory: enqueue('updateCategory'),
+    deleteCategory: enqueue('deleteCategory'),
+    importData: enqueue('importData'),
+
+    subscribe: (listener) => {
+      listeners.add(listener);
+      listener(getStatus());
+      return () => { listeners.delete(listener); };
+    },
+
+    start: () => {
+      isStarted = true;
+      const onConnectivityChange = () => {
+        save();
+        flush();
+      };
+      window.addEventListener('online', onConnectivityChange);
+      window.addEventListener('offline', onConnectivityChange);
+      flush();
+
+      return () => {
+        isStarted = false;
+        window.removeEventListener('online', onConnectivityChange);
+        window.removeEventListener('offline', onConnectivityChange);
+        if (retryTimer) clearTimeout(retryTimer);
+        retryTimer = null;
+      };
+    },
+
+    flush,
+    rebase,
+
+    retryFailed: () => {
+      queue = [...failed.map(({ error, ...mutation }) => ({ ...mutation, attempts: 0 })), ...queue];
+      failed = [];
+      save();
+      flush();
+    },
+
+    discardFailed: () => {
+      failed = [];
+      save();
+    }
+  };
+};
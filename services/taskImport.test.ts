@@ -0,0 +1,174 @@
+import { describe, expect, it } from 'vitest';
+import { TaskImportError, parseMarkdownChecklist, parseTodoistCsv, parseTrelloBoard, toTaskDraft } from './taskImport';
+
+// A Wednesday
+const NOW = new Date(2024, 0, 10, 9, 30);
+
+describe('parseMarkdownChecklist', () => {
+  it('groups items under their heading, with nested items as subtasks', () => {
+    const text = [
+      '# Launch',
+      '- [ ] Write docs !high',
+      '  - [x] Outline',
+      '\t- [ ] Examples',
+      '- [X] Tag release tomorrow',
+      'Some prose that is ignored',
+      '## Later ##',
+      '* [ ] Blog post #writing',
+      '+ [ ] Podcast'
+    ].join('\r\n');
+
+    expect(parseMarkdownChecklist(text, NOW)).toEqual([
+      {
+        group: 'Launch',
+        title: 'Write docs',
+        priority: 'HIGH',
+        completed: false,
+        subtasks: [{ title: 'Outline', completed: true }, { title: 'Examples', completed: false }]
+      },
+      { group: 'Launch', title: 'Tag release', priority: 'MEDIUM', completed: true, dueDate: '2024-01-11' },
+      { group: 'Later', title: 'Blog post', priority: 'MEDIUM', completed: false, tags: ['writing'] },
+      { group: 'Later', title: 'Podcast', priority: 'MEDIUM', completed: false }
+    ]);
+  });
+
+  it('has no group for items above the first heading', () => {
+    expect(parseMarkdownChecklist('- [ ] Loose end', NOW)[0].group).toBe('');
+  });
+
+  it('starts a new parent after a heading, even when indented', () => {
+    const tasks = parseMarkdownChecklist('- [ ] A\n# B\n  - [ ] C', NOW);
+    expect(tasks.map(t => [t.group, t.title, t.subtasks])).toEqual([['', 'A', undefined], ['B', 'C', undefined]]);
+  });
+
+  it.each([
+    ['no checkboxes', '# Notes\n- plain bullet\n1. numbered'],
+    ['nothing', ''],
+    ['only tokens', '- [ ] !high #tag']
+  ])('reports %s as an import error', (_case, text) => {
+    expect(() => parseMarkdownChecklist(text, NOW)).toThrow(TaskImportError);
+  });
+});
+
+describe('parseTrelloBoard', () => {
+  const board = {
+    lists: [
+      { id: 'l2', name: 'Doing', pos: 2 },
+      { id: 'l1', name: 'To do', pos: 1 },
+      { id: 'l3', name: 'Old', pos: 3, closed: true }
+    ],
+    cards: [
+      { id: 'k1', idList: 'l2', name: ' Deploy ', pos: 1, labels: [{ name: 'Urgent' }, { name: 'backend' }], due: '2024-02-01T12:00:00.000Z', desc: ' Ship it \n', dueComplete: true },
+      { id: 'k2', idList: 'l1', name: 'Plan', pos: 2, labels: [{ name: '', color: 'green' }] },
+      { id: 'k3', idList: 'l1', name: 'Research', pos: 1, labels: [{ name: 'someday' }] },
+      { id: 'k4', idList: 'l1', name: 'Archived card', pos: 3, closed: true },
+      { id: 'k5', idList: 'l3', name: 'In an archived list', pos: 1 },
+      { id: 'k6', idList: 'l1', name: '   ', pos: 4 }
+    ],
+    checklists: [
+      { idCard: 'k1', pos: 2, checkItems: [{ name: 'Announce', state: 'incomplete', pos: 1 }] },
+      { idCard: 'k1', pos: 1, checkItems: [{ name: 'Tag', state: 'complete', pos: 2 }, { name: 'Build', state: 'complete', pos: 1 }] }
+    ]
+  };
+
+  it('reads open cards in list and card order, leaving archived lists and cards out', () => {
+    expect(parseTrelloBoard(board).map(t => [t.group, t.title])).toEqual([
+      ['To do', 'Research'],
+      ['To do', 'Plan'],
+      ['Doing', 'Deploy']
+    ]);
+  });
+
+  it('maps priority labels, keeps the rest as tags and reads checklists as subtasks', () => {
+    const [research, plan, deploy] = parseTrelloBoard(board);
+    expect(research).toMatchObject({ priority: 'LOW', tags: undefined });
+    expect(plan).toMatchObject({ priority: 'MEDIUM', tags: ['green'] });
+    expect(deploy).toEqual({
+      group: 'Doing',
+      title: 'Deploy',
+      priority: 'HIGH',
+      completed: true,
+      description: 'Ship it',
+      dueDate: '2024-02-01',
+      tags: ['backend'],
+      subtasks: [
+        { title: 'Build', completed: true },
+        { title: 'Tag', completed: true },
+        { title: 'Announce', completed: false }
+      ]
+    });
+  });
+
+  it('skips checklist items it cannot read', () => {
+    const [task] = parseTrelloBoard({
+      lists: [{ id: 'l1', name: 'To do' }],
+      cards: [{ id: 'k1', idList: 'l1', name: 'A' }],
+      checklists: [{ idCard: 'k1', checkItems: [null, { state: 'complete' }, { name: 'B' }] }, { idCard: 'k1', checkItems: 'none' }]
+    });
+    expect(task.subtasks).toEqual([{ title: 'B', completed: false }]);
+  });
+
+  it.each([
+    ['nothing', null],
+    ['a list', []],
+    ['a board without cards', { lists: [] }],
+    ['a list that is not an object', { lists: [null], cards: [] }],
+    ['a card that is not an object', { lists: [{ id: 'l1' }], cards: ['Deploy'] }],
+    ['a checklist that is not an object', { lists: [{ id: 'l1' }], cards: [{ id: 'k1', idList: 'l1', name: 'A' }], checklists: [7] }]
+  ])('reports %s as an import error', (_case, raw) => {
+    expect(() => parseTrelloBoard(raw)).toThrow(TaskImportError);
+  });
+});
+
+describe('parseTodoistCsv', () => {
+  const csv = [
+    'TYPE,CONTENT,DESCRIPTION,PRIORITY,INDENT,AUTHOR,RESPONSIBLE,DATE,DATE_LANG,TIMEZONE',
+    'task,Inbox item @home,,4,1,,,,en,',
+    'section,Errands,,,,,,,,',
+    'task,"Buy milk, eggs",Two of each,1,1,,,2024-01-20,en,',
+    'task,Eggs,,1,2,,,,en,',
+    'task,Call plumber @phone @urgent,,2,1,,,tomorrow,en,',
+    'task,Water plants,,3,1,,,every monday,en,',
+    'note,Ignored,,,,,,,,',
+    ''
+  ].join('\n');
+
+  it('reads tasks grouped by section, with indented tasks as subtasks', () => {
+    expect(parseTodoistCsv(csv, 'Personal', NOW)).toEqual([
+      { group: 'Personal', title: 'Inbox item', priority: 'MEDIUM', completed: false, tags: ['home'] },
+      {
+        group: 'Errands',
+        title: 'Buy milk, eggs',
+        priority: 'HIGH',
+        completed: false,
+        description: 'Two of each',
+        dueDate: '2024-01-20',
+        subtasks: [{ title: 'Eggs', completed: false }]
+      },
+      { group: 'Errands', title: 'Call plumber', priority: 'MEDIUM', completed: false, dueDate: '2024-01-11', tags: ['phone', 'urgent'] },
+      // A recurring date has no single due date
+      { group: 'Errands', title: 'Water plants', priority: 'LOW', completed: false }
+    ]);
+  });
+
+  it.each([['1', 'HIGH'], ['2', 'MEDIUM'], ['3', 'LOW'], ['4', 'MEDIUM'], ['', 'MEDIUM']])('maps p%s to %s', (priority, expected) => {
+    expect(parseTodoistCsv(`TYPE,CONTENT,PRIORITY\ntask,A,${priority}`, '', NOW)[0].priority).toBe(expected);
+  });
+
+  it.each([
+    ['an empty file', ''],
+    ['another CSV', 'Title,Category\nA,Work'],
+    ['a file without tasks', 'TYPE,CONTENT\nsection,Errands'],
+    ['an unterminated quote', 'TYPE,CONTENT\ntask,"Buy milk']
+  ])('reports %s as an import error', (_case, text) => {
+    expect(() => parseTodoistCsv(text, '', NOW)).toThrow(TaskImportError);
+  });
+});
+
+describe('toTaskDraft', () => {
+  it('links the category and gives subtasks ids', () => {
+    const draft = toTaskDraft({ group: 'G', title: 'A', priority: 'LOW', completed: false, subtasks: [{ title: 'B', completed: true }] }, 'c1');
+    expect(draft).toMatchObject({ title: 'A', priority: 'LOW', categoryId: 'c1', completed: undefined, subtasks: [{ title: 'B', completed: true }] });
+    expect(draft.subtasks![0].id).toEqual(expect.any(String));
+  });
+});
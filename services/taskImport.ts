@@ -0,0 +1,228 @@
+import { format, isValid, parseISO } from 'date-fns';
+import { TaskDraft, TaskPriority } from '../types';
+import { CsvError, parseCsv } from './csv';
+import { parseQuickAdd } from './quickAdd';
+
+// Importers for task lists kept in other tools. Each one turns its source into
+// ImportedTasks grouped by the list, project or heading they came from; the
+// user then maps every group onto a category before the tasks are added.
+
+export type TaskImportSource = 'MARKDOWN' | 'TRELLO' | 'TODOIST';
+
+export interface ImportedSubtask {
+  title: string;
+  completed: boolean;
+}
+
+export interface ImportedTask {
+  // List, section or heading name; empty when the source has none
+  group: string;
+  title: string;
+  priority: TaskPriority;
+  completed: boolean;
+  description?: string;
+  // YYYY-MM-DD
+  dueDate?: string;
+  tags?: string[];
+  subtasks?: ImportedSubtask[];
+}
+
+export class TaskImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TaskImportError';
+  }
+}
+
+const withoutEmpty = (task: ImportedTask): ImportedTask => ({
+  ...task,
+  tags: task.tags && task.tags.length > 0 ? task.tags : undefined,
+  subtasks: task.subtasks && task.subtasks.length > 0 ? task.subtasks : undefined
+});
+
+// --- Markdown ---
+
+const HEADING = /^#{1,6}\s+(.+?)\s*#*\s*$/;
+const CHECKBOX = /^(\s*)[-*+]\s+\[([ xX])\]\s+(.+)$/;
+
+// "- [ ] item" lines, grouped under the closest heading above them. Indented
+// checkboxes become subtasks of the item they sit under, and the quick-add
+// syntax (!high, #tag, dates) is honoured in titles.
+export const parseMarkdownChecklist = (text: string, now: Date = new Date()): ImportedTask[] => {
+  const tasks: ImportedTask[] = [];
+  let group = '';
+  let parentIndent = -1;
+
+  for (const line of text.split(/\r?\n/)) {
+    const heading = line.match(HEADING);
+    if (heading) {
+      group = heading[1];
+      parentIndent = -1;
+      continue;
+    }
+    const item = line.match(CHECKBOX);
+    if (!item) continue;
+
+    const indent = item[1].replace(/\t/g, '  ').length;
+    const completed = item[2] !== ' ';
+    const parent = tasks[tasks.length - 1];
+    if (parent && parentIndent >= 0 && indent > parentIndent) {
+      parent.subtasks = [...(parent.subtasks || []), { title: item[3].trim(), completed }];
+      continue;
+    }
+
+    const parsed = parseQuickAdd(item[3], [], now);
+    if (!parsed.title) continue;
+    parentIndent = indent;
+    tasks.push({
+      group,
+      title: parsed.title,
+      priority: parsed.priority || 'MEDIUM',
+      completed,
+      dueDate: parsed.dueDate,
+      tags: parsed.tags
+    });
+  }
+
+  if (tasks.length === 0) throw new TaskImportError("No checklist items found. Items look like \"- [ ] Write report\".");
+  return tasks.map(withoutEmpty);
+};
+
+// --- Trello ---
+
+type Json = Record<string, any>;
+
+const isObject = (value: unknown): value is Json =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const LABEL_PRIORITIES: [RegExp, TaskPriority][] = [
+  [/\b(high|urgent|critical|p1)\b/i, 'HIGH'],
+  [/\b(medium|normal|p2)\b/i, 'MEDIUM'],
+  [/\b(low|someday|p3)\b/i, 'LOW']
+];
+
+const getLabelPriority = (name: string) => LABEL_PRIORITIES.find(([pattern]) => pattern.test(name))?.[1];
+
+const toDateKey = (value: unknown) => {
+  if (typeof value !== 'string') return undefined;
+  const date = parseISO(value);
+  return isValid(date) ? format(date, 'yyyy-MM-dd') : undefined;
+};
+
+// A board exported with "Print and Export > Export as JSON". Archived lists and
+// cards are left out; labels that name a priority set it, the rest become tags.
+export const parseTrelloBoard = (raw: unknown): ImportedTask[] => {
+  const board = raw as Json;
+  if (!isObject(board) || !Array.isArray(board.lists) || !Array.isArray(board.cards)
+    || ![...board.lists, ...board.cards, ...(board.checklists || [])].every(isObject)) {
+    throw new TaskImportError("This is not a Trello board export");
+  }
+
+  const lists: Json[] = board.lists.filter((l: Json) => !l.closed).sort((a: Json, b: Json) => (a.pos ?? 0) - (b.pos ?? 0));
+  const listOrder = new Map(lists.map((l, i) => [l.id, i]));
+  const checklists: Json[] = Array.isArray(board.checklists) ? board.checklists : [];
+
+  const cards: Json[] = board.cards
+    .filter((c: Json) => !c.closed && listOrder.has(c.idList) && typeof c.name === 'string' && c.name.trim())
+    .sort((a: Json, b: Json) => listOrder.get(a.idList)! - listOrder.get(b.idList)! || (a.pos ?? 0) - (b.pos ?? 0));
+
+  return cards.map((card): ImportedTask => {
+    const labels: string[] = (card.labels || []).map((l: Json) => l.name || l.color).filter(Boolean);
+    const priority = labels.map(getLabelPriority).find(Boolean);
+    const subtasks = checklists
+      .filter(cl => cl.idCard === card.id)
+      .sort((a, b) => (a.pos ?? 0) - (b.pos ?? 0))
+      .flatMap(cl => (Array.isArray(cl.checkItems) ? cl.checkItems : [])
+        .filter((item: unknown): item is Json => isObject(item) && typeof item.name === 'string')
+        .sort((a: Json, b: Json) => (a.pos ?? 0) - (b.pos ?? 0)))
+      .map((item: Json) => ({ title: item.name.trim(), completed: item.state === 'complete' }))
+      .filter(item => item.title);
+
+    return withoutEmpty({
+      group: lists[listOrder.get(card.idList)!].name || '',
+      title: card.name.trim(),
+      priority: priority || 'MEDIUM',
+      completed: !!card.dueComplete,
+      description: typeof card.desc === 'string' && card.desc.trim() ? card.desc.trim() : undefined,
+      dueDate: toDateKey(card.due),
+      tags: labels.filter(l => !getLabelPriority(l)),
+      subtasks
+    });
+  });
+};
+
+// --- Todoist ---
+
+// Todoist's p1 (urgent) to p4; 4 is also what unprioritised tasks carry, so it
+// maps to the board default.
+const TODOIST_PRIORITIES: Record<string, TaskPriority> = { '1': 'HIGH', '2': 'MEDIUM', '3': 'LOW', '4': 'MEDIUM' };
+
+// A project exported with "Export as a template" (CSV). Sections become groups;
+// tasks outside any section use `project`, e.g. the file name. Indented tasks
+// become subtasks and @labels in the content become tags.
+export const parseTodoistCsv = (text: string, project: string = '', now: Date = new Date()): ImportedTask[] => {
+  let lines: string[][];
+  try {
+    lines = parseCsv(text);
+  } catch (e) {
+    if (e instanceof CsvError) throw new TaskImportError(e.message);
+    throw e;
+  }
+  const [header, ...rows] = lines;
+  const columns = (header || []).map(h => h.trim().toUpperCase());
+  const column = (name: string) => columns.indexOf(name);
+  if (column('TYPE') < 0 || column('CONTENT') < 0) throw new TaskImportError("This is not a Todoist CSV export");
+
+  const cell = (row: string[], name: string) => (column(name) >= 0 ? row[column(name)] ?? '' : '').trim();
+  const tasks: ImportedTask[] = [];
+  let group = project;
+
+  for (const row of rows) {
+    const type = cell(row, 'TYPE').toLowerCase();
+    const content = cell(row, 'CONTENT');
+    if (type === 'section') {
+      group = content;
+      continue;
+    }
+    if (type !== 'task' || !content) continue;
+
+    const tags = (content.match(/(^|\s)@[^\s@]+/g) || []).map(tag => tag.trim().slice(1));
+    const title = content.replace(/(^|\s)@[^\s@]+/g, '').trim();
+    if (!title) continue;
+
+    if (Number(cell(row, 'INDENT')) > 1 && tasks.length > 0) {
+      const parent = tasks[tasks.length - 1];
+      parent.subtasks = [...(parent.subtasks || []), { title, completed: false }];
+      continue;
+    }
+
+    const date = cell(row, 'DATE');
+    const parsedDate = date ? parseQuickAdd(date, [], now) : null;
+    tasks.push({
+      group,
+      title,
+      priority: TODOIST_PRIORITIES[cell(row, 'PRIORITY')] || 'MEDIUM',
+      completed: false,
+      description: cell(row, 'DESCRIPTION') || undefined,
+      // Only dates that parse completely; recurring ones ("every monday") have no single due date
+      dueDate: toDateKey(date) ?? (parsedDate && !parsedDate.title ? parsedDate.dueDate : undefined),
+      tags
+    });
+  }
+
+  if (tasks.length === 0) throw new TaskImportError("The file has no tasks");
+  return tasks.map(withoutEmpty);
+};
+
+// --- Drafts ---
+
+export const toTaskDraft = (task: ImportedTask, categoryId: string): TaskDraft => ({
+  title: task.title,
+  priority: task.priority,
+  categoryId,
+  completed: task.completed || undefined,
+  description: task.description,
+  dueDate: task.dueDate,
+  tags: task.tags,
+  subtasks: task.subtasks?.map(s => ({ id: crypto.randomUUID(), ...s }))
+});
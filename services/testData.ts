@@ -0,0 +1,46 @@
+import { Category, Habit, Task } from '../types';
+import { WorkspaceData } from './dataStore';
+
+// Small, fixed records for tests. Workspace tasks are in load() order (by position).
+
+export const makeHabit = (overrides: Partial<Habit> = {}): Habit => ({
+  id: 'h1',
+  title: 'Read',
+  completions: {},
+  type: 'DAILY',
+  ...overrides
+});
+
+export const makeCategory = (overrides: Partial<Category> = {}): Category => ({
+  id: 'c1',
+  name: 'Work',
+  color: 'BLUE',
+  icon: 'FOLDER',
+  position: 1024,
+  archived: false,
+  ...overrides
+});
+
+export const makeTask = (overrides: Partial<Task> = {}): Task => ({
+  id: 't1',
+  title: 'Write report',
+  categoryId: 'c1',
+  completed: false,
+  priority: 'MEDIUM',
+  createdAt: 1,
+  position: 1024,
+  ...overrides
+});
+
+export const makeWorkspace = (overrides: Partial<WorkspaceData> = {}): WorkspaceData => ({
+  habits: [makeHabit()],
+  weeklyHabits: [],
+  monthlyHabits: [],
+  categories: [makeCategory(), makeCategory({ id: 'c2', name: 'Home', position: 2048 })],
+  tasks: [
+    makeTask(),
+    makeTask({ id: 't3', title: 'Fix sink', categoryId: 'c2' }),
+    makeTask({ id: 't2', title: 'File taxes', position: 2048 })
+  ],
+  ...overrides
+});
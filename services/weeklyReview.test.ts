@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import { Habit, ProtocolType } from '../types';
+import { getWeeklyReviewStats } from './weeklyReview';
+import { makeCategory, makeHabit, makeTask } from './testData';
+
+// A Wednesday evening; the window runs from Thursday the 4th
+const NOW = new Date(2024, 0, 10, 18);
+
+const checkedDays = (from: number, to: number): Habit['completions'] =>
+  Object.fromEntries(Array.from({ length: to - from + 1 }, (_, i) => [`2024-01-${String(from + i).padStart(2, '0')}`, true]));
+
+const review = (habits: Partial<Record<ProtocolType, Habit[]>>, now: Date = NOW) =>
+  getWeeklyReviewStats({ DAILY: [], WEEKLY: [], MONTHLY: [], ...habits }, [], [], now);
+
+describe('getWeeklyReviewStats habits', () => {
+  it('covers the last seven days, today included', () => {
+    const { start, end } = review({});
+    expect(start).toEqual(new Date(2024, 0, 4));
+    expect(end).toEqual(NOW);
+  });
+
+  it.each<[string, Habit['completions'], string, number, number]>([
+    ['kept through the week', checkedDays(1, 10), 'KEPT', 3, 10],
+    ['started in the week', checkedDays(6, 10), 'STARTED', 0, 5],
+    ['broken in the week', checkedDays(1, 3), 'BROKEN', 3, 0],
+    // Ends as long as it started, but it did break on the way
+    ['broken and regrown', { ...checkedDays(1, 3), ...checkedDays(7, 9) }, 'BROKEN', 3, 3],
+    ['never started', {}, 'NONE', 0, 0]
+  ])('reports a streak %s', (_case, completions, change, previousStreak, length) => {
+    const [habit] = review({ DAILY: [makeHabit({ completions })] }).habits;
+    expect(habit).toMatchObject({ change, previousStreak, streak: { length, unit: 'DAY' } });
+  });
+
+  it('rates daily habits over the window only', () => {
+    const stats = review({
+      DAILY: [
+        makeHabit({ completions: checkedDays(1, 10) }),
+        makeHabit({ id: 'h2', title: 'Stretch', schedule: { kind: 'DAYS_OF_WEEK', days: [1] }, completions: checkedDays(1, 1) })
+      ]
+    });
+    expect(stats.habits.map(h => h.rate)).toEqual([1, 0]);
+    // 7 of 7 days for the first habit, 0 of 1 Monday for the second
+    expect(stats.dailyRate).toBe(7 / 8);
+  });
+
+  it('counts a weekly quota by ISO week', () => {
+    const habit = makeHabit({ schedule: { kind: 'TIMES_PER_WEEK', count: 2 }, completions: { ...checkedDays(1, 2), ...checkedDays(8, 9) } });
+    const [stats] = review({ DAILY: [habit] }).habits;
+    expect(stats.streak).toEqual({ length: 2, unit: 'WEEK' });
+    expect(stats.change).toBe('KEPT');
+  });
+
+  it('rates weekly and monthly habits by the periods the window touches', () => {
+    const stats = review({
+      WEEKLY: [makeHabit({ type: 'WEEKLY', completions: { '2024-W01': true } })],
+      MONTHLY: [makeHabit({ type: 'MONTHLY', completions: { '2024-01': true } })]
+    });
+    expect(stats.habits.map(h => [h.type, h.rate, h.change])).toEqual([['WEEKLY', 0.5, 'KEPT'], ['MONTHLY', 1, 'KEPT']]);
+    expect(stats.dailyRate).toBeNull();
+  });
+
+  it('follows a weekly streak across the turn of the year', () => {
+    const habit = makeHabit({ type: 'WEEKLY', completions: { '2020-W52': true, '2020-W53': true } });
+    const [stats] = review({ WEEKLY: [habit] }, new Date(2021, 0, 6, 18)).habits;
+    expect(stats).toMatchObject({ previousStreak: 2, streak: { length: 2, unit: 'WEEK' }, change: 'KEPT' });
+  });
+});
+
+describe('getWeeklyReviewStats tasks', () => {
+  const inWindow = new Date(2024, 0, 5).getTime();
+  const beforeWindow = new Date(2024, 0, 3, 23).getTime();
+  const categories = [
+    makeCategory({ id: 'c2', name: 'Home', position: 2048 }),
+    makeCategory(),
+    makeCategory({ id: 'c3', name: 'Old', position: 3072, archived: true }),
+    makeCategory({ id: 'c4', name: 'Idle', position: 4096 })
+  ];
+  const tasks = [
+    makeTask({ createdAt: inWindow }),
+    makeTask({ id: 't2', createdAt: beforeWindow, completed: true, completedAt: inWindow }),
+    makeTask({ id: 't3', categoryId: 'c2', createdAt: beforeWindow, completed: true, completedAt: beforeWindow }),
+    makeTask({ id: 't4', categoryId: 'c3', createdAt: inWindow, completed: true, completedAt: NOW.getTime() }),
+    // Open, and in a category with nothing else this week
+    makeTask({ id: 't5', categoryId: 'c4', createdAt: beforeWindow, completed: false }),
+    makeTask({ id: 't6', categoryId: 'c2', createdAt: NOW.getTime() + 1 })
+  ];
+
+  it('counts tasks added and completed in the window', () => {
+    const stats = getWeeklyReviewStats({ DAILY: [], WEEKLY: [], MONTHLY: [] }, tasks, categories, NOW);
+    expect([stats.tasksAdded, stats.tasksCompleted]).toEqual([2, 2]);
+  });
+
+  it('breaks them down by category in board order, leaving out quiet ones', () => {
+    const stats = getWeeklyReviewStats({ DAILY: [], WEEKLY: [], MONTHLY: [] }, tasks, categories, NOW);
+    expect(stats.categories).toEqual([
+      { category: 'Work', added: 1, completed: 1 },
+      { category: 'Old', added: 1, completed: 1 }
+    ]);
+  });
+});
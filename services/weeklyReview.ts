@@ -0,0 +1,101 @@
+import { addDays, startOfDay, subDays } from 'date-fns';
+import { Category, Habit, ProtocolType, Task } from '../types';
+import { getCompletionRate, getPeriodsBetween } from './analytics';
+import { HabitStreak, getStreak } from './habitSchedule';
+import { getSortedCategories } from './ordering';
+
+export const REVIEW_DAYS = 7;
+
+// How a habit's streak changed over the review window
+export type StreakChange = 'KEPT' | 'STARTED' | 'BROKEN' | 'NONE';
+
+export interface HabitReview {
+  title: string;
+  type: ProtocolType;
+  rate: number | null;
+  streak: HabitStreak;
+  previousStreak: number;
+  change: StreakChange;
+}
+
+export interface CategoryReview {
+  category: string;
+  added: number;
+  completed: number;
+}
+
+export interface WeeklyReviewStats {
+  start: Date;
+  end: Date;
+  // Completion rate of the daily habits over the window
+  dailyRate: number | null;
+  habits: HabitReview[];
+  categories: CategoryReview[];
+  tasksAdded: number;
+  tasksCompleted: number;
+}
+
+// A streak breaks when it shrinks from one day to the next. Comparing only the
+// two ends would miss a streak that broke and regrew to the same length.
+const getStreakChange = (habit: Habit, type: ProtocolType, before: Date, end: Date): StreakChange => {
+  let previous = getStreak(habit, type, before).length;
+  const initial = previous;
+  for (let day = addDays(before, 1); day <= end; day = addDays(day, 1)) {
+    const current = getStreak(habit, type, day).length;
+    if (initial > 0 && current < previous) return 'BROKEN';
+    previous = current;
+  }
+  if (initial > 0) return 'KEPT';
+  return previous > 0 ? 'STARTED' : 'NONE';
+};
+
+// Stats for the last REVIEW_DAYS days, today included
+export const getWeeklyReviewStats = (
+  habitsByType: Record<ProtocolType, Habit[]>,
+  tasks: Task[],
+  categories: Category[],
+  now: Date = new Date()
+): WeeklyReviewStats => {
+  const end = now;
+  const start = startOfDay(subDays(now, REVIEW_DAYS - 1));
+  // The streak as it stood the evening before the window opened
+  const before = subDays(start, 1);
+
+  const habits = (Object.keys(habitsByType) as ProtocolType[]).flatMap(type =>
+    habitsByType[type].map((habit): HabitReview => {
+      const streak = getStreak(habit, type, end);
+      const previousStreak = getStreak(habit, type, before).length;
+      return {
+        title: habit.title,
+        type,
+        rate: getCompletionRate([habit], type, getPeriodsBetween(type, start, end)),
+        streak,
+        previousStreak,
+        change: getStreakChange(habit, type, before, end)
+      };
+    })
+  );
+
+  const inWindow = (time?: number) => time !== undefined && time >= start.getTime() && time <= end.getTime();
+  const added = tasks.filter(t => inWindow(t.createdAt));
+  const completed = tasks.filter(t => t.completed && inWindow(t.completedAt));
+
+  // In board order, archived categories included
+  const categoryReviews = getSortedCategories(categories)
+    .map(category => ({
+      category: category.name,
+      added: added.filter(t => t.categoryId === category.id).length,
+      completed: completed.filter(t => t.categoryId === category.id).length
+    }))
+    .filter(c => c.added > 0 || c.completed > 0);
+
+  return {
+    start,
+    end,
+    dailyRate: getCompletionRate(habitsByType.DAILY, 'DAILY', getPeriodsBetween('DAILY', start, end)),
+    habits,
+    categories: categoryReviews,
+    tasksAdded: added.length,
+    tasksCompleted: completed.length
+  };
+};
@@ -0,0 +1,35 @@
+-- Tables as the app first used them. Written with "if not exists" so a project
+-- created by hand before migrations were tracked can be brought under them.
+
+create table if not exists public.habits (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  title text not null,
+  -- DAILY, WEEKLY or MONTHLY
+  type text not null default 'DAILY',
+  -- Period key (YYYY-MM-DD, YYYY-Www or YYYY-MM) to a check or a recorded value
+  completions jsonb not null default '{}'::jsonb,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.categories (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  name text not null,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.tasks (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  title text not null,
+  -- Category name, see 20261019090400_task_category_ids.sql for its key
+  category text not null,
+  completed boolean not null default false,
+  priority text not null default 'MEDIUM',
+  created_at timestamptz not null default now()
+);
+
+create index if not exists habits_user_id_idx on public.habits (user_id);
+create index if not exists categories_user_id_idx on public.categories (user_id);
+create index if not exists tasks_user_id_idx on public.tasks (user_id);
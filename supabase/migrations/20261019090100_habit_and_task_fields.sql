@@ -0,0 +1,26 @@
+-- Fields added to the models since the initial tables: habit schedules and
+-- targets, and task ordering, details, recurrence and completion time.
+
+alter table public.habits
+  add column if not exists schedule jsonb,
+  add column if not exists target jsonb;
+
+alter table public.tasks
+  add column if not exists completed_at timestamptz,
+  add column if not exists position double precision,
+  add column if not exists description text,
+  add column if not exists due_date date,
+  add column if not exists tags text[],
+  add column if not exists subtasks jsonb,
+  add column if not exists recurrence jsonb,
+  -- Id of the first task of a recurring series; not a foreign key, the first
+  -- instance may be deleted while the series goes on
+  add column if not exists series_id uuid;
+
+alter table public.habits
+  drop constraint if exists habits_type_check,
+  add constraint habits_type_check check (type in ('DAILY', 'WEEKLY', 'MONTHLY'));
+
+alter table public.tasks
+  drop constraint if exists tasks_priority_check,
+  add constraint tasks_priority_check check (priority in ('HIGH', 'MEDIUM', 'LOW'));
@@ -0,0 +1,24 @@
+-- Every row belongs to one user and is only visible to and writable by them.
+-- The anon key is public, so these policies are the only access control.
+
+alter table public.habits enable row level security;
+alter table public.categories enable row level security;
+alter table public.tasks enable row level security;
+
+drop policy if exists "Users manage their own habits" on public.habits;
+create policy "Users manage their own habits" on public.habits
+  for all to authenticated
+  using ((select auth.uid()) = user_id)
+  with check ((select auth.uid()) = user_id);
+
+drop policy if exists "Users manage their own categories" on public.categories;
+create policy "Users manage their own categories" on public.categories
+  for all to authenticated
+  using ((select auth.uid()) = user_id)
+  with check ((select auth.uid()) = user_id);
+
+drop policy if exists "Users manage their own tasks" on public.tasks;
+create policy "Users manage their own tasks" on public.tasks
+  for all to authenticated
+  using ((select auth.uid()) = user_id)
+  with check ((select auth.uid()) = user_id);
@@ -0,0 +1,27 @@
+-- New accounts start with the same categories the app falls back to
+-- (services/defaults.ts), so tasks always have a category row to point at.
+
+create or replace function public.create_default_categories()
+returns trigger
+language plpgsql
+security definer
+set search_path = ''
+as $$
+begin
+  insert into public.categories (user_id, name)
+  values (new.id, 'Complete It'), (new.id, 'Monthly'), (new.id, 'Yearly');
+  return new;
+end;
+$$;
+
+drop trigger if exists on_auth_user_created_default_categories on auth.users;
+create trigger on_auth_user_created_default_categories
+  after insert on auth.users
+  for each row execute function public.create_default_categories();
+
+-- Existing users without any categories were being shown these defaults
+insert into public.categories (user_id, name)
+select u.id, d.name
+from auth.users u
+cross join (values ('Complete It'), ('Monthly'), ('Yearly')) as d (name)
+where not exists (select 1 from public.categories c where c.user_id = u.id);
@@ -0,0 +1,80 @@
+-- Tasks reference their category by id. The app still reads and writes the
+-- category by name: triggers keep `category_id` in step with `category`, and a
+-- rename carries over to the tasks. Deleting a category deletes its tasks.
+
+-- Names are unique per user; keep the oldest of any duplicates
+delete from public.categories a
+using public.categories b
+where a.user_id = b.user_id and a.name = b.name
+  and (a.created_at, a.id) > (b.created_at, b.id);
+
+alter table public.categories
+  drop constraint if exists categories_user_id_name_key,
+  add constraint categories_user_id_name_key unique (user_id, name),
+  -- Target of the tasks foreign key, which includes the owner so a task can
+  -- never point at another user's category
+  drop constraint if exists categories_id_user_id_key,
+  add constraint categories_id_user_id_key unique (id, user_id);
+
+-- Categories only ever named by tasks get a row of their own
+insert into public.categories (user_id, name)
+select distinct t.user_id, t.category
+from public.tasks t
+on conflict (user_id, name) do nothing;
+
+alter table public.tasks add column if not exists category_id uuid;
+
+update public.tasks t
+set category_id = c.id
+from public.categories c
+where c.user_id = t.user_id and c.name = t.category and t.category_id is distinct from c.id;
+
+alter table public.tasks
+  alter column category_id set not null,
+  drop constraint if exists tasks_category_id_fkey,
+  add constraint tasks_category_id_fkey foreign key (category_id, user_id)
+    references public.categories (id, user_id) on delete cascade;
+
+create index if not exists tasks_category_id_idx on public.tasks (category_id);
+
+-- Resolves `category` to its row, creating it when a task names a category
+-- that does not exist yet (e.g. one only known from the app's defaults)
+create or replace function public.set_task_category_id()
+returns trigger
+language plpgsql
+set search_path = ''
+as $$
+begin
+  insert into public.categories (user_id, name)
+  values (new.user_id, new.category)
+  on conflict (user_id, name) do nothing;
+
+  select c.id into new.category_id
+  from public.categories c
+  where c.user_id = new.user_id and c.name = new.category;
+  return new;
+end;
+$$;
+
+drop trigger if exists tasks_set_category_id on public.tasks;
+create trigger tasks_set_category_id
+  before insert or update of category, category_id, user_id on public.tasks
+  for each row execute function public.set_task_category_id();
+
+create or replace function public.rename_task_categories()
+returns trigger
+language plpgsql
+set search_path = ''
+as $$
+begin
+  update public.tasks
+  set category = new.name
+  where category_id = new.id and category is distinct from new.name;
+  return new;
+end;
+$$;
+
+drop trigger if exists categories_rename_tasks on public.categories;
+create trigger categories_rename_tasks
+  after update of name on public.categories
+  for each row execute function public.rename_task_categories();
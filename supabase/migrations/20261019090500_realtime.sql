@@ -0,0 +1,22 @@
+-- Row changes are streamed to signed-in devices (services/realtime.ts).
+-- Skips tables already added through the dashboard, and plain Postgres
+-- databases without the publication.
+
+do $$
+declare
+  table_name text;
+begin
+  if not exists (select 1 from pg_publication where pubname = 'supabase_realtime') then
+    return;
+  end if;
+
+  foreach table_name in array array['habits', 'tasks', 'categories'] loop
+    if not exists (
+      select 1 from pg_publication_tables
+      where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = table_name
+    ) then
+      execute format('alter publication supabase_realtime add table public.%I', table_name);
+    end if;
+  end loop;
+end;
+$$;
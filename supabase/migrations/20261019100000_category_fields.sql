@@ -0,0 +1,51 @@
+-- Categories become records of their own: color, icon, tab order and an
+-- archived flag. The app now links tasks by `category_id`, so the name column
+-- on tasks and the triggers that kept it in step are dropped.
+
+alter table public.categories
+  add column if not exists color text not null default 'BLUE',
+  add column if not exists icon text not null default 'FOLDER',
+  add column if not exists position double precision,
+  add column if not exists archived boolean not null default false;
+
+-- Existing tabs keep the order they were created in (steps of POSITION_STEP)
+update public.categories c
+set position = ranked.rank * 1024
+from (
+  select id, row_number() over (partition by user_id order by created_at, id) as rank
+  from public.categories
+) ranked
+where ranked.id = c.id and c.position is null;
+
+alter table public.categories
+  alter column position set not null,
+  drop constraint if exists categories_color_check,
+  add constraint categories_color_check
+    check (color in ('BLUE', 'CYAN', 'EMERALD', 'AMBER', 'ORANGE', 'RED', 'PINK', 'VIOLET', 'SLATE')),
+  drop constraint if exists categories_icon_check,
+  add constraint categories_icon_check
+    check (icon in ('FOLDER', 'BRIEFCASE', 'HOME', 'HEART', 'BOOK', 'CODE', 'WALLET', 'STAR', 'TARGET', 'CALENDAR'));
+
+drop trigger if exists tasks_set_category_id on public.tasks;
+drop function if exists public.set_task_category_id();
+drop trigger if exists categories_rename_tasks on public.categories;
+drop function if exists public.rename_task_categories();
+
+alter table public.tasks drop column if exists category;
+
+-- Starter categories as in services/defaults.ts
+create or replace function public.create_default_categories()
+returns trigger
+language plpgsql
+security definer
+set search_path = ''
+as $$
+begin
+  insert into public.categories (user_id, name, color, icon, position)
+  values
+    (new.id, 'Complete It', 'BLUE', 'TARGET', 1024),
+    (new.id, 'Monthly', 'EMERALD', 'CALENDAR', 2048),
+    (new.id, 'Yearly', 'VIOLET', 'STAR', 3072);
+  return new;
+end;
+$$;
@@ -0,0 +1,42 @@
+-- Deletes a category in one transaction, first moving its tasks to the end of
+-- another category (keeping their order) when `move_to_id` is given. Without
+-- it the tasks go with the category through the foreign key's cascade.
+-- Positions follow getAppendPositions in services/ordering.ts.
+
+create or replace function public.delete_category(deleted_id uuid, move_to_id uuid default null)
+returns void
+language plpgsql
+security invoker
+set search_path = ''
+as $$
+declare
+  next_position double precision;
+begin
+  if move_to_id is not null then
+    if move_to_id = deleted_id
+      or not exists (select 1 from public.categories where id = move_to_id and user_id = (select auth.uid())) then
+      raise exception 'Tasks can only be moved to another of your categories' using errcode = '22023';
+    end if;
+
+    select coalesce(max(position), 0) + 1024 into next_position
+    from public.tasks
+    where category_id = move_to_id;
+
+    update public.tasks t
+    set category_id = move_to_id,
+        position = next_position + (ranked.rank - 1) * 1024
+    from (
+      select id, row_number() over (order by position, created_at) as rank
+      from public.tasks
+      where category_id = deleted_id and user_id = (select auth.uid())
+    ) ranked
+    where t.id = ranked.id;
+  end if;
+
+  delete from public.categories
+  where id = deleted_id and user_id = (select auth.uid());
+end;
+$$;
+
+revoke execute on function public.delete_category(uuid, uuid) from public, anon;
+grant execute on function public.delete_category(uuid, uuid) to authenticated;
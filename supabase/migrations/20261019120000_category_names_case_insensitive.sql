@@ -0,0 +1,42 @@
+-- Category names are unique per user regardless of case, as the app already
+-- treats them (services/categories.ts findCategoryByName).
+
+-- Merge categories whose names differ only in case into the oldest one: their
+-- tasks move to the end of it, keeping their order, and the duplicates go.
+create temporary table category_duplicates as
+select c.id, c.user_id, keeper.id as keeper_id
+from public.categories c
+cross join lateral (
+  select k.id
+  from public.categories k
+  where k.user_id = c.user_id and lower(k.name) = lower(c.name)
+  order by k.created_at, k.id
+  limit 1
+) keeper
+where keeper.id <> c.id;
+
+update public.tasks t
+set category_id = ranked.keeper_id,
+    position = ranked.last_position + ranked.rank * 1024
+from (
+  select
+    t2.id,
+    d.keeper_id,
+    coalesce((select max(k.position) from public.tasks k where k.category_id = d.keeper_id), 0) as last_position,
+    row_number() over (partition by d.keeper_id order by c.created_at, c.id, t2.position, t2.created_at) as rank
+  from public.tasks t2
+  join category_duplicates d on d.id = t2.category_id
+  join public.categories c on c.id = d.id
+) ranked
+where t.id = ranked.id;
+
+delete from public.categories c
+using category_duplicates d
+where c.id = d.id;
+
+drop table category_duplicates;
+
+alter table public.categories drop constraint if exists categories_user_id_name_key;
+
+create unique index if not exists categories_user_id_lower_name_key
+  on public.categories (user_id, lower(name));
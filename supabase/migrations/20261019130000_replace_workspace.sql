@@ -0,0 +1,51 @@
+-- Replaces the caller's habits, categories and tasks with the given rows in one
+-- transaction, for importing a backup in REPLACE mode. If any row is rejected
+-- nothing is deleted. Rows are shaped like the app writes them (see
+-- services/supabaseStore.ts); their `user_id` is ignored in favour of the caller.
+
+create or replace function public.replace_workspace(habit_rows jsonb, category_rows jsonb, task_rows jsonb)
+returns void
+language plpgsql
+security invoker
+set search_path = ''
+as $$
+declare
+  owner uuid := (select auth.uid());
+begin
+  if owner is null then
+    raise exception 'Only a signed-in user can replace their workspace' using errcode = '42501';
+  end if;
+
+  -- Tasks go with their categories through the foreign key's cascade
+  delete from public.habits where user_id = owner;
+  delete from public.categories where user_id = owner;
+
+  insert into public.habits (id, user_id, title, type, completions, schedule, target)
+  select h.id, owner, h.title, h.type, coalesce(h.completions, '{}'::jsonb), h.schedule, h.target
+  from jsonb_to_recordset(habit_rows) as h(
+    id uuid, title text, type text, completions jsonb, schedule jsonb, target jsonb
+  );
+
+  insert into public.categories (id, user_id, name, color, icon, position, archived)
+  select c.id, owner, c.name, c.color, c.icon, c.position, c.archived
+  from jsonb_to_recordset(category_rows) as c(
+    id uuid, name text, color text, icon text, position double precision, archived boolean
+  );
+
+  insert into public.tasks (
+    id, user_id, title, category_id, priority, completed, created_at, completed_at,
+    position, description, due_date, tags, subtasks, recurrence, series_id
+  )
+  select
+    t.id, owner, t.title, t.category_id, t.priority, t.completed, t.created_at, t.completed_at,
+    t.position, t.description, t.due_date, t.tags, t.subtasks, t.recurrence, t.series_id
+  from jsonb_to_recordset(task_rows) as t(
+    id uuid, title text, category_id uuid, priority text, completed boolean,
+    created_at timestamptz, completed_at timestamptz, position double precision,
+    description text, due_date date, tags text[], subtasks jsonb, recurrence jsonb, series_id uuid
+  );
+end;
+$$;
+
+revoke execute on function public.replace_workspace(jsonb, jsonb, jsonb) from public, anon;
+grant execute on function public.replace_workspace(jsonb, jsonb, jsonb) to authenticated;
@@ -0,0 +1,43 @@
+-- Local development data, loaded by `supabase db reset`. Creates a confirmed
+-- account (dev@doit.local / password) holding the app's default workspace
+-- from services/defaults.ts; its categories come from the signup trigger.
+
+insert into auth.users (
+  instance_id, id, aud, role, email, encrypted_password, email_confirmed_at,
+  raw_app_meta_data, raw_user_meta_data, created_at, updated_at,
+  confirmation_token, email_change, email_change_token_new, recovery_token
+) values (
+  '00000000-0000-0000-0000-000000000000',
+  '00000000-0000-4000-8000-000000000001',
+  'authenticated', 'authenticated', 'dev@doit.local',
+  extensions.crypt('password', extensions.gen_salt('bf')), now(),
+  '{"provider": "email", "providers": ["email"]}', '{}', now(), now(),
+  '', '', '', ''
+);
+
+insert into auth.identities (id, user_id, provider_id, identity_data, provider, last_sign_in_at, created_at, updated_at)
+values (
+  gen_random_uuid(),
+  '00000000-0000-4000-8000-000000000001',
+  '00000000-0000-4000-8000-000000000001',
+  '{"sub": "00000000-0000-4000-8000-000000000001", "email": "dev@doit.local", "email_verified": true}',
+  'email', now(), now(), now()
+);
+
+insert into public.habits (user_id, title, type) values
+  ('00000000-0000-4000-8000-000000000001', 'Deep Work (4h)', 'DAILY'),
+  ('00000000-0000-4000-8000-000000000001', 'Physical Training', 'DAILY'),
+  ('00000000-0000-4000-8000-000000000001', 'Zero Sugar', 'DAILY'),
+  ('00000000-0000-4000-8000-000000000001', 'Financial Audit', 'MONTHLY'),
+  ('00000000-0000-4000-8000-000000000001', 'Network Review', 'MONTHLY');
+
+-- Positions match POSITION_STEP in services/ordering.ts
+insert into public.tasks (user_id, title, category_id, priority, position)
+select c.user_id, t.title, c.id, t.priority, 1024
+from (values
+  ('Deploy Production Build', 'Complete It', 'HIGH'),
+  ('Q3 Financial Review', 'Monthly', 'MEDIUM'),
+  ('Launch Mobile App', 'Yearly', 'HIGH')
+) as t (title, category, priority)
+join public.categories c
+  on c.user_id = '00000000-0000-4000-8000-000000000001' and c.name = t.category;
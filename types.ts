@@ -1,27 +1,98 @@
 
+export type HabitSchedule =
+  | { kind: 'EVERY_DAY' }
+  // 0 (Sunday) - 6 (Saturday)
+  | { kind: 'DAYS_OF_WEEK'; days: number[] }
+  | { kind: 'TIMES_PER_WEEK'; count: number }
+  | { kind: 'TIMES_PER_MONTH'; count: number };
+
+// Quantitative habits record a measured value per date and count as done at `goal`
+export interface HabitTarget {
+  goal: number;
+  unit: string;
+}
+
 export interface Habit {
   id: string;
   title: string;
-  // Map of date string (YYYY-MM-DD for daily, YYYY-MM for monthly) to boolean
-  completions: Record<string, boolean>;
-  type?: 'DAILY' | 'MONTHLY';
+  // Map of date string (YYYY-MM-DD for daily, ISO week YYYY-Www for weekly, YYYY-MM for monthly) to a check (boolean)
+  // or, for habits with a target, the value recorded that day
+  completions: Record<string, boolean | number>;
+  type?: ProtocolType;
+  // Daily habits only; absent means every day
+  schedule?: HabitSchedule;
+  target?: HabitTarget;
+}
+
+// Habit fields editable after creation besides the title
+export type HabitSettings = Pick<Habit, 'schedule' | 'target'>;
+
+export type CategoryColor = 'BLUE' | 'CYAN' | 'EMERALD' | 'AMBER' | 'ORANGE' | 'RED' | 'PINK' | 'VIOLET' | 'SLATE';
+export type CategoryIcon = 'FOLDER' | 'BRIEFCASE' | 'HOME' | 'HEART' | 'BOOK' | 'CODE' | 'WALLET' | 'STAR' | 'TARGET' | 'CALENDAR';
+
+// A task list, shown as a tab or column of the board
+export interface Category {
+  id: string;
+  name: string;
+  color: CategoryColor;
+  icon: CategoryIcon;
+  // Fractional rank among the tabs, see services/ordering.ts
+  position: number;
+  // Hidden from the board; its tasks are kept
+  archived: boolean;
 }
 
-export type TaskColumn = string;
 export type TaskPriority = 'HIGH' | 'MEDIUM' | 'LOW';
 
+export interface Subtask {
+  id: string;
+  title: string;
+  completed: boolean;
+}
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKDAYS' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  // WEEKLY: repeat every N weeks
+  interval?: number;
+  // MONTHLY and YEARLY: 1-31, clamped to the length of the month
+  dayOfMonth?: number;
+  // YEARLY: 0-11
+  month?: number;
+}
+
 export interface Task {
   id: string;
   title: string;
-  column: TaskColumn;
+  categoryId: string;
   completed: boolean;
   priority: TaskPriority;
   createdAt: number;
+  // Epoch ms of the latest completion; absent while the task is open
+  completedAt?: number;
+  // Fractional rank within the category, see services/ordering.ts
+  position: number;
+  // Markdown
+  description?: string;
+  // YYYY-MM-DD
+  dueDate?: string;
+  tags?: string[];
+  subtasks?: Subtask[];
+  // Only the open instance of a series carries the rule; completed ones keep the series id
+  recurrence?: RecurrenceRule;
+  seriesId?: string;
 }
 
+// What callers provide when creating tasks; ids, ordering and timestamps are assigned on add.
+// Drafts are open unless marked completed (e.g. imported from a finished list).
+export type TaskDraft = Pick<Task, 'title' | 'priority' | 'categoryId'> &
+  Partial<Pick<Task, 'completed' | 'description' | 'dueDate' | 'tags' | 'subtasks' | 'recurrence'>>;
+
 export enum AppMode {
   PROTOCOL = 'PROTOCOL',
-  TASKS = 'TASKS'
+  TASKS = 'TASKS',
+  ANALYTICS = 'ANALYTICS'
 }
 
-export type ProtocolType = 'DAILY' | 'MONTHLY';
+export type ProtocolType = 'DAILY' | 'WEEKLY' | 'MONTHLY';